@@ -0,0 +1,288 @@
+import {
+    createErrorResponse,
+    createAuthErrorResponse,
+    logError,
+    logRequestEvent
+} from "./utils.ts";
+import { API_PATHS, AUTH_CONFIG, CORS_HEADERS, ERROR_CODES, getUpstreamTokens, KEY_POOL_CONFIG } from "./config.ts";
+import { getKeyStore } from "./key-store.ts";
+import { getUpstreamKeyPools } from "./key-pool.ts";
+import { RateLimits, RequestContext, VirtualKeyRecord } from "./types.ts";
+
+/**
+ * 创建密钥请求体接口
+ */
+interface CreateKeyRequest {
+    name?: string;
+    upstream_token?: string;
+    rate_limits?: RateLimits;
+}
+
+/**
+ * 常量时间比较两个字符串，避免通过响应时间推测管理令牌
+ * @param a - 字符串A
+ * @param b - 字符串B
+ * @returns 是否相等
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+    const bytesA = new TextEncoder().encode(a);
+    const bytesB = new TextEncoder().encode(b);
+    if (bytesA.length !== bytesB.length) {
+        return false;
+    }
+
+    let diff = 0;
+    for (let i = 0; i < bytesA.length; i++) {
+        diff |= bytesA[i] ^ bytesB[i];
+    }
+    return diff === 0;
+}
+
+/**
+ * 转换为对外展示的密钥信息（不包含密钥哈希）
+ * @param record - 密钥记录
+ * @returns 对外展示的密钥信息
+ */
+function toPublicKey(record: VirtualKeyRecord) {
+    return {
+        id: record.id,
+        object: "api_key",
+        name: record.name,
+        key_preview: record.key_preview,
+        upstream_token: record.upstream_token,
+        rate_limits: record.rate_limits || null,
+        created_at: record.created_at,
+        revoked_at: record.revoked_at,
+        status: record.revoked_at === null ? "active" : "revoked"
+    };
+}
+
+/**
+ * 校验密钥单独配置的限额
+ * @param rateLimits - 请求中的限额配置
+ * @returns 校验通过的限额配置；格式错误时返回null
+ */
+function parseRateLimits(rateLimits: unknown): RateLimits | undefined | null {
+    if (rateLimits === undefined || rateLimits === null) {
+        return undefined;
+    }
+    if (typeof rateLimits !== "object") {
+        return null;
+    }
+
+    const parsed: RateLimits = {};
+    for (const field of ["requests_per_minute", "tokens_per_minute"] as const) {
+        const value = (rateLimits as RateLimits)[field];
+        if (value === undefined) {
+            continue;
+        }
+        if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+            return null;
+        }
+        parsed[field] = value;
+    }
+    return parsed;
+}
+
+/**
+ * 创建JSON响应
+ * @param body - 响应体
+ * @param status - 状态码
+ * @returns Response对象
+ */
+function jsonResponse(body: unknown, status: number = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: {
+            "Content-Type": "application/json",
+            ...CORS_HEADERS,
+        },
+    });
+}
+
+/**
+ * 验证管理接口令牌
+ * @param req - Request对象
+ * @param requestId - 请求ID
+ * @returns 验证失败时返回错误响应，成功时返回null
+ */
+export function verifyAdminRequest(req: Request, requestId: string): Response | null {
+    if (!AUTH_CONFIG.ADMIN_TOKEN) {
+        logRequestEvent(requestId, "admin.auth", `管理接口未启用（未设置 ADMIN_API_TOKEN）`);
+        return createErrorResponse(
+            "Admin API is disabled. Set ADMIN_API_TOKEN to enable it.",
+            403,
+            "permission_error",
+            ERROR_CODES.ADMIN_UNAUTHORIZED
+        );
+    }
+
+    const authHeader = req.headers.get("Authorization") || "";
+    const token = authHeader.toLowerCase().startsWith("bearer ") ? authHeader.substring(7) : "";
+
+    if (!token || !timingSafeEqual(token, AUTH_CONFIG.ADMIN_TOKEN)) {
+        logRequestEvent(requestId, "admin.auth", `管理接口认证失败`);
+        return createAuthErrorResponse(
+            "Unauthorized: Invalid admin token.",
+            ERROR_CODES.ADMIN_UNAUTHORIZED
+        );
+    }
+
+    return null;
+}
+
+/**
+ * 处理虚拟密钥管理请求
+ * - GET    /admin/keys       列出所有密钥
+ * - POST   /admin/keys       创建密钥（返回一次性明文密钥）
+ * - DELETE /admin/keys/{id}  吊销密钥
+ * 请求开始与完成的日志由入口记录
+ * @param req - Request对象
+ * @param url - 解析后的URL
+ * @param context - 请求上下文
+ * @returns Response对象的Promise
+ */
+export async function handleAdminKeysRequest(req: Request, url: URL, context: RequestContext): Promise<Response> {
+    return await handleAdminKeysRequestInternal(req, url, context.requestId);
+}
+
+/**
+ * 内部的虚拟密钥管理请求处理函数
+ * @param req - Request对象
+ * @param url - 解析后的URL
+ * @param requestId - 请求ID
+ * @returns Response对象的Promise
+ */
+async function handleAdminKeysRequestInternal(req: Request, url: URL, requestId: string): Promise<Response> {
+    const authError = verifyAdminRequest(req, requestId);
+    if (authError) {
+        return authError;
+    }
+
+    const keyId = url.pathname.substring(API_PATHS.ADMIN_KEYS.length + 1);
+    const keyStore = getKeyStore();
+
+    try {
+        // 列出密钥
+        if (!keyId && req.method === "GET") {
+            const records = await keyStore.list();
+            return jsonResponse({
+                object: "list",
+                auth_mode: AUTH_CONFIG.MODE,
+                data: records.map(toPublicKey)
+            });
+        }
+
+        // 创建密钥
+        if (!keyId && req.method === "POST") {
+            let body: CreateKeyRequest = {};
+            try {
+                body = await req.json() as CreateKeyRequest;
+            } catch {
+                return createErrorResponse(
+                    "Invalid JSON in request body",
+                    400,
+                    "invalid_request_error",
+                    ERROR_CODES.INVALID_JSON
+                );
+            }
+
+            const name = typeof body.name === "string" && body.name.trim() ? body.name.trim() : "unnamed";
+            const upstreamToken = body.upstream_token || AUTH_CONFIG.DEFAULT_UPSTREAM_TOKEN;
+            const availableTokens = Object.keys(getUpstreamTokens());
+
+            if (!availableTokens.includes(upstreamToken)) {
+                return createErrorResponse(
+                    `Upstream token '${upstreamToken}' is not configured. Available tokens: ${availableTokens.join(", ") || "(none)"}`,
+                    400,
+                    "invalid_request_error",
+                    ERROR_CODES.UPSTREAM_TOKEN_MISSING
+                );
+            }
+
+            const rateLimits = parseRateLimits(body.rate_limits);
+            if (rateLimits === null) {
+                return createErrorResponse(
+                    "rate_limits must be an object with non-negative integer 'requests_per_minute' and 'tokens_per_minute'",
+                    400,
+                    "invalid_request_error",
+                    "invalid_rate_limits"
+                );
+            }
+
+            const { record, key } = await keyStore.create(name, upstreamToken, rateLimits);
+            logRequestEvent(requestId, "admin.keys", `管理接口创建虚拟密钥: ${record.id}`);
+            return jsonResponse({ ...toPublicKey(record), key }, 201);
+        }
+
+        // 吊销密钥
+        if (keyId && req.method === "DELETE") {
+            const record = await keyStore.revoke(keyId);
+            if (!record) {
+                return createErrorResponse(
+                    `API Key '${keyId}' not found`,
+                    404,
+                    "invalid_request_error",
+                    "key_not_found"
+                );
+            }
+            logRequestEvent(requestId, "admin.keys", `管理接口吊销虚拟密钥: ${record.id}`);
+            return jsonResponse(toPublicKey(record));
+        }
+
+        return createErrorResponse(
+            "Not Found or Method Not Allowed",
+            404,
+            "invalid_request_error",
+            ERROR_CODES.INVALID_JSON
+        );
+    } catch (error) {
+        logError("虚拟密钥管理请求失败", error, requestId);
+        return createErrorResponse(
+            "Internal Server Error",
+            500,
+            "internal_error",
+            ERROR_CODES.INTERNAL_ERROR
+        );
+    }
+}
+
+/**
+ * 处理上游密钥池状态请求
+ * - GET /admin/upstream-keys  列出每个服务端令牌名称下的密钥状态（只包含密钥指纹）
+ * @param req - Request对象
+ * @param context - 请求上下文
+ * @returns Response对象的Promise
+ */
+export async function handleAdminUpstreamKeysRequest(req: Request, context: RequestContext): Promise<Response> {
+    const authError = verifyAdminRequest(req, context.requestId);
+    if (authError) {
+        return authError;
+    }
+
+    if (req.method !== "GET") {
+        return createErrorResponse(
+            "Not Found or Method Not Allowed",
+            404,
+            "invalid_request_error",
+            ERROR_CODES.INVALID_JSON
+        );
+    }
+
+    try {
+        return jsonResponse({
+            object: "list",
+            auth_mode: AUTH_CONFIG.MODE,
+            strategy: KEY_POOL_CONFIG.STRATEGY,
+            data: await getUpstreamKeyPools().getStatus()
+        });
+    } catch (error) {
+        logError("获取上游密钥池状态失败", error, context.requestId);
+        return createErrorResponse(
+            "Internal Server Error",
+            500,
+            "internal_error",
+            ERROR_CODES.INTERNAL_ERROR
+        );
+    }
+}
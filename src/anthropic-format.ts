@@ -0,0 +1,223 @@
+import {
+    AnthropicContentBlock,
+    AnthropicErrorResponse,
+    AnthropicMessageResponse,
+    AnthropicMessagesRequest,
+    AnthropicUsage,
+    ContentItem,
+    Message,
+    RequestBody
+} from "./types.ts";
+import { CORS_HEADERS } from "./config.ts";
+
+/**
+ * 将 Anthropic Messages API 请求转换为内部使用的 OpenAI 格式请求体
+ * 以便复用 processMessages / buildModelInput 的处理逻辑
+ * @param body - Anthropic Messages 请求体
+ * @returns OpenAI 格式的请求体
+ */
+export function convertAnthropicRequest(body: AnthropicMessagesRequest): RequestBody {
+    const messages: Message[] = [];
+
+    // 顶层 system 字段转换为系统消息
+    if (typeof body.system === "string" && body.system.length > 0) {
+        messages.push({ role: "system", content: body.system });
+    } else if (Array.isArray(body.system) && body.system.length > 0) {
+        messages.push({ role: "system", content: convertContentBlocks(body.system) });
+    }
+
+    if (Array.isArray(body.messages)) {
+        for (const message of body.messages) {
+            messages.push({
+                role: message.role,
+                content: typeof message.content === "string"
+                    ? message.content
+                    : convertContentBlocks(Array.isArray(message.content) ? message.content : [])
+            });
+        }
+    }
+
+    return {
+        messages,
+        model: body.model,
+        stream: body.stream,
+        max_tokens: body.max_tokens,
+        temperature: body.temperature,
+        top_p: body.top_p,
+        top_k: body.top_k,
+        stop: body.stop_sequences
+    };
+}
+
+/**
+ * 将 Anthropic 内容块转换为 OpenAI 内容项
+ * 文本块保留为 text，图片块转换为 image_url（base64 转为 data URL）
+ * @param blocks - Anthropic 内容块数组
+ * @returns OpenAI 内容项数组
+ */
+function convertContentBlocks(blocks: AnthropicContentBlock[]): ContentItem[] {
+    const items: ContentItem[] = [];
+
+    for (const block of blocks) {
+        if (block.type === "text" && typeof block.text === "string") {
+            items.push({ type: "text", text: block.text });
+        } else if (block.type === "image" && block.source) {
+            if (block.source.type === "base64" && block.source.data) {
+                const mediaType = block.source.media_type || "image/png";
+                items.push({
+                    type: "image_url",
+                    image_url: { url: `data:${mediaType};base64,${block.source.data}` }
+                });
+            } else if (block.source.type === "url" && block.source.url) {
+                items.push({ type: "image_url", image_url: { url: block.source.url } });
+            }
+        }
+    }
+
+    return items;
+}
+
+/**
+ * 生成 Anthropic 格式的消息ID
+ * @returns 消息ID
+ */
+export function generateMessageId(): string {
+    return `msg_${crypto.randomUUID().replace(/-/g, "")}`;
+}
+
+/**
+ * 创建 Anthropic message 响应对象
+ * @param id - 消息ID
+ * @param model - 模型名称
+ * @param text - 助手回复内容
+ * @param stopReason - 停止原因
+ * @param stopSequence - 命中的停止序列
+ * @param usage - 用量统计
+ * @returns message 响应对象
+ */
+export function createAnthropicMessage(
+    id: string,
+    model: string,
+    text: string,
+    stopReason: string | null,
+    stopSequence: string | null,
+    usage: AnthropicUsage
+): AnthropicMessageResponse {
+    return {
+        id,
+        type: "message",
+        role: "assistant",
+        model,
+        content: [{ type: "text", text }],
+        stop_reason: stopReason,
+        stop_sequence: stopSequence,
+        usage
+    };
+}
+
+/**
+ * 创建 Anthropic SSE 事件
+ * @param eventType - 事件类型（message_start、content_block_delta 等）
+ * @param payload - 事件数据（type 字段会自动补充）
+ * @returns SSE 事件字符串
+ */
+export function createAnthropicSSEEvent(eventType: string, payload: Record<string, unknown> = {}): string {
+    return `event: ${eventType}\ndata: ${JSON.stringify({ type: eventType, ...payload })}\n\n`;
+}
+
+/**
+ * 根据HTTP状态码获取 Anthropic 错误类型
+ * @param status - HTTP状态码
+ * @returns Anthropic 错误类型
+ */
+export function getAnthropicErrorType(status: number): string {
+    switch (status) {
+        case 400:
+            return "invalid_request_error";
+        case 401:
+            return "authentication_error";
+        case 403:
+            return "permission_error";
+        case 404:
+            return "not_found_error";
+        case 408:
+        case 504:
+            return "timeout_error";
+        case 413:
+            return "request_too_large";
+        case 429:
+            return "rate_limit_error";
+        case 529:
+            return "overloaded_error";
+        default:
+            return status >= 400 && status < 500 ? "invalid_request_error" : "api_error";
+    }
+}
+
+/**
+ * 创建 Anthropic 格式的错误对象
+ * @param message - 错误消息
+ * @param type - 错误类型
+ * @returns 错误对象
+ */
+export function createAnthropicError(message: string, type: string): AnthropicErrorResponse {
+    return {
+        type: "error",
+        error: {
+            type,
+            message
+        }
+    };
+}
+
+/**
+ * 创建 Anthropic 格式的错误响应
+ * @param message - 错误消息
+ * @param status - 状态码
+ * @param type - 错误类型（默认根据状态码推断）
+ * @returns Response对象
+ */
+export function createAnthropicErrorResponse(message: string, status: number, type?: string): Response {
+    return new Response(
+        JSON.stringify(createAnthropicError(message, type || getAnthropicErrorType(status))),
+        {
+            status,
+            headers: {
+                "Content-Type": "application/json",
+                ...CORS_HEADERS,
+            }
+        }
+    );
+}
+
+/**
+ * 将 OpenAI 格式的错误响应（ErrorResponse）转换为 Anthropic 错误信封
+ * 用于复用现有的认证、模型校验和 Replicate 错误处理逻辑
+ * @param response - OpenAI 格式的错误响应
+ * @returns Anthropic 格式的错误响应
+ */
+export async function toAnthropicErrorResponse(response: Response): Promise<Response> {
+    let message = response.statusText || "Unknown error occurred";
+
+    try {
+        const body = await response.json();
+        if (body?.error?.message) {
+            message = body.error.message;
+        } else if (typeof body?.message === "string") {
+            message = body.message;
+        }
+    } catch {
+        // 响应体不是JSON时使用状态文本
+    }
+
+    const anthropicResponse = createAnthropicErrorResponse(message, response.status);
+
+    // 保留原响应中的附加头部（如 WWW-Authenticate）
+    response.headers.forEach((value, key) => {
+        if (!anthropicResponse.headers.has(key)) {
+            anthropicResponse.headers.set(key, value);
+        }
+    });
+
+    return anthropicResponse;
+}
@@ -1,21 +1,50 @@
-import { initReplicate, DEFAULT_MODEL_ID, getActualModelId } from "./config.ts";
-import { ModelInput, ReplicateEvent } from "./types.ts";
-import { logError, logSystem } from "./utils.ts";
+import {
+    DEFAULT_MODEL_ID,
+    getActualModelId,
+    getFallbackChain,
+    getModelProfile,
+    getProviderType,
+    parseModelTarget,
+    RETRY_CONFIG
+} from "./config.ts";
+import {
+    ModelInput,
+    ModelResponse,
+    ReplicateEvent,
+    RequestContext,
+    SpanAttributeValue,
+    SpanContext,
+    UpstreamBackend,
+    UpstreamKeyLease,
+    UpstreamMetrics,
+    UpstreamPrediction
+} from "./types.ts";
+import { logError, logRequestEvent } from "./utils.ts";
+import { getErrorStatus, getRetryAfterMs, isFallbackError, isRetryableError, waitBeforeRetry, withRetry } from "./retry.ts";
+import { UpstreamTimeoutError, UpstreamTimeouts } from "./timeouts.ts";
+import { SPAN_KIND, Span, formatTraceparent, getTracer } from "./tracing.ts";
+import { createUpstreamBackend } from "./upstream.ts";
+import { readServerSentEvents } from "./sse.ts";
+import { getUpstreamKeyPools, UpstreamKeyPool } from "./key-pool.ts";
+import { createFileHost, isDataUrl, resolveModelInputImages } from "./file-store.ts";
 
 /**
- * Replicate模型ID类型，格式为 `owner/model` 或 `owner/model:version`
+ * 上游模型ID类型：Replicate 模型为 `owner/model` 或 `owner/model:version`，其他提供方为 `提供方名称:模型名`
  */
-type ReplicateModelId = `${string}/${string}` | `${string}/${string}:${string}`;
+type ReplicateModelId = `${string}/${string}` | `${string}:${string}`;
 
 /**
  * Replicate错误响应类型
  */
 export interface ReplicateError extends Error {
     status?: number;
+    // 为false时表示错误不是瞬时故障，不应重试
+    retryable?: boolean;
     response?: {
         status: number;
         statusText: string;
         data?: any;
+        headers?: Headers;
     };
 }
 
@@ -29,50 +58,297 @@ export class ApiService {
     private requestModelId: string;
 
     /**
-     * 实际的Replicate模型ID
+     * 实际的Replicate模型ID（使用备用模型时随之切换）
      */
     private actualModelId: ReplicateModelId;
 
     /**
-     * 用户的Replicate API密钥
+     * 按顺序尝试的模型：请求的模型及其备用模型（请求模型名）
+     */
+    private candidateModelIds: string[];
+
+    /**
+     * 当前使用的模型（请求模型名）
+     */
+    private currentModelId: string;
+
+    /**
+     * 实际回答的模型（请求模型名），尚未得到回答时为null
+     */
+    private answeringModelId: string | null = null;
+
+    /**
+     * 调用方的API密钥
      */
     private apiKey: string;
 
+    /**
+     * 服务端令牌名称（虚拟密钥模式），调用 Replicate 时每次创建预测前从该名称的密钥池借出密钥
+     */
+    private upstreamToken?: string;
+
+    /**
+     * 当前借出的上游密钥及其所在的池（本次调用结束或再次创建预测时归还）
+     */
+    private keyLease: { pool: UpstreamKeyPool; lease: UpstreamKeyLease } | null = null;
+
+    /**
+     * 借出的密钥已用于上传图片：之后的预测都使用该密钥（其他账号的密钥无法读取上传的文件）
+     */
+    private keyPinned = false;
+
+    /**
+     * 当前模型的上游后端（按模型映射目标的提供方创建，改用备用模型或更换上游密钥时随之切换）
+     */
+    private backend: UpstreamBackend;
+
     /**
      * 请求ID（用于日志）
      */
     private requestId?: string;
 
+    /**
+     * 请求上下文（上游调用span的父级）
+     */
+    private context?: RequestContext;
+
+    /**
+     * 当前上游调用的span（流式或非流式调用），以及正在进行的上游HTTP调用的span
+     * 上游请求附带的 traceparent 指向其中最内层的span
+     */
+    private upstreamSpan: Span | null = null;
+    private clientSpan: Span | null = null;
+
+    /**
+     * 本次调用向上游创建预测的次数（包含重试）
+     */
+    private upstreamAttempts = 0;
+
+    /**
+     * 取消控制器：客户端断开连接或超时时中止上游读取
+     */
+    private abortController = new AbortController();
+
+    /**
+     * 取消原因对应的错误（超时时为 UpstreamTimeoutError，客户端断开时为null）
+     */
+    private cancelError: Error | null = null;
+
+    /**
+     * 当前候选模型的中止控制器：候选模型在输出之前超时时只中止该模型的调用（之后可以改用备用模型），
+     * 取消本次调用时随之中止
+     */
+    private attemptController = new AbortController();
+
+    /**
+     * 当前候选模型被中止的原因（首个token或总时长超时）
+     */
+    private attemptError: UpstreamTimeoutError | null = null;
+
+    /**
+     * 当前候选模型的超时计时器
+     */
+    private timeouts = new UpstreamTimeouts(error => this.onTimeout(error));
+
+    /**
+     * 正在运行的预测ID（用于取消）
+     */
+    private activePredictionId: string | null = null;
+
     /**
      * 构造函数
      * @param apiKey - 用户的Replicate API密钥
      * @param requestModelId - 请求中的模型ID
-     * @param requestId - 请求ID（用于日志）
+     * @param context - 请求上下文（用于日志与追踪）
+     * @param signal - 请求的中止信号（客户端断开连接时触发，可选）
+     * @param upstreamToken - 服务端令牌名称（虚拟密钥模式，可选）
      */
-    constructor(apiKey: string, requestModelId: string = DEFAULT_MODEL_ID, requestId?: string) {
+    constructor(
+        apiKey: string,
+        requestModelId: string = DEFAULT_MODEL_ID,
+        context?: RequestContext,
+        signal?: AbortSignal,
+        upstreamToken?: string
+    ) {
         this.apiKey = apiKey;
+        this.upstreamToken = upstreamToken;
         this.requestModelId = requestModelId;
         this.actualModelId = getActualModelId(requestModelId) as ReplicateModelId;
+        this.backend = this.createBackend();
+        this.candidateModelIds = [requestModelId, ...getFallbackChain(requestModelId)];
+        this.currentModelId = requestModelId;
+        this.context = context;
+        const requestId = context?.requestId;
         this.requestId = requestId;
         
         if (requestId) {
-            logSystem(`${requestId} 模型映射: ${requestModelId} -> ${this.actualModelId}`);
+            logRequestEvent(requestId, "upstream.model", `模型映射: ${requestModelId} -> ${this.actualModelId}`);
+            if (this.candidateModelIds.length > 1) {
+                logRequestEvent(requestId, "upstream.model", `备用模型: ${this.candidateModelIds.slice(1).join(" -> ")}`);
+            }
         }
+
+        // 客户端断开连接时取消上游预测
+        if (signal) {
+            if (signal.aborted) {
+                this.cancel();
+            } else {
+                signal.addEventListener("abort", () => this.cancel(), { once: true });
+            }
+        }
+    }
+
+    /**
+     * 为当前模型创建上游后端
+     * @param apiKey - 使用的API密钥（默认为调用方的API密钥）
+     * @returns UpstreamBackend实例
+     */
+    private createBackend(apiKey: string = this.apiKey): UpstreamBackend {
+        return createUpstreamBackend(this.actualModelId, apiKey, () => this.getTraceparent());
     }
 
     /**
-     * 获取Replicate客户端实例
+     * 当前模型由 Replicate 处理且配置了服务端令牌名称时，从密钥池借出密钥并用其创建上游后端
+     * 之后对该预测的查询、取消和流式读取都使用同一个密钥；上传图片后固定使用上传时借出的密钥
      */
-    private getReplicateClient() {
-        return initReplicate(this.apiKey);
+    private async acquireUpstreamKey(): Promise<void> {
+        if (this.keyPinned && this.keyLease) {
+            if (getProviderType(this.actualModelId) === "replicate") {
+                this.backend = this.createBackend(this.keyLease.lease.token);
+            }
+            return;
+        }
+
+        this.releaseUpstreamKey();
+        if (!this.upstreamToken || getProviderType(this.actualModelId) !== "replicate") {
+            return;
+        }
+
+        const pool = await getUpstreamKeyPools().get(this.upstreamToken);
+        if (!pool) {
+            return;
+        }
+        const lease = pool.acquire();
+        this.keyLease = { pool, lease };
+        this.backend = this.createBackend(lease.token);
+        if (this.requestId) {
+            logRequestEvent(this.requestId, "upstream.key", `使用上游密钥: ${pool.name}/${lease.fingerprint}`);
+        }
+    }
+
+    /**
+     * 归还借出的上游密钥
+     */
+    private releaseUpstreamKey(): void {
+        if (this.keyLease) {
+            this.keyLease.pool.release(this.keyLease.lease);
+            this.keyLease = null;
+        }
+        this.keyPinned = false;
+    }
+
+    /**
+     * 记录上游对借出的密钥返回的错误，401/429 时该密钥开始冷却
+     * 创建、查询、取消预测与读取流式输出都使用借出的密钥，出错时都需要记录；
+     * 密钥池中还有其他可用密钥且没有固定密钥时，401 标记为可重试，由重试换用其他密钥
+     * @param error - 上游调用的错误
+     */
+    private reportUpstreamKeyFailure(error: unknown): void {
+        const status = getErrorStatus(error);
+        if (!this.keyLease || (status !== 401 && status !== 429)) {
+            return;
+        }
+        const { pool, lease } = this.keyLease;
+        pool.reportFailure(lease, status, getRetryAfterMs(error));
+        if (status === 401 && !this.keyPinned && pool.hasOtherAvailableKey(lease) && error && typeof error === "object") {
+            (error as ReplicateError).retryable = true;
+        }
+    }
+
+    /**
+     * 将模型输入中的 base64 data URL 图片上传到文件存储，替换为模型可以访问的URL（其他提供方直接接收 base64 图片）
+     * 上传使用从密钥池借出的密钥，并固定之后的预测使用同一个密钥；上传失败时向密钥池报告并归还密钥
+     * @param input - 模型输入（原地修改）
+     */
+    async resolveInputImages(input: ModelInput): Promise<void> {
+        const imageUrls = input.image_input ?? (input.image ? [input.image] : []);
+        if (getProviderType(this.actualModelId) !== "replicate" || !imageUrls.some(isDataUrl)) {
+            return;
+        }
+
+        await this.acquireUpstreamKey();
+        this.keyPinned = this.keyLease !== null;
+        try {
+            await resolveModelInputImages(input, await createFileHost(this.keyLease?.lease.token ?? this.apiKey), this.requestId);
+        } catch (error) {
+            this.reportUpstreamKeyFailure(error);
+            this.releaseUpstreamKey();
+            throw error;
+        }
+    }
+
+    /**
+     * 获取上游请求附带的 traceparent（指向最内层的进行中span，没有请求上下文时返回null）
+     * @returns traceparent
+     */
+    private getTraceparent(): string | null {
+        const span = this.clientSpan || this.upstreamSpan || this.context;
+        return span ? formatTraceparent(span) : null;
+    }
+
+    /**
+     * 开始上游调用的子span（没有请求上下文时返回null）
+     * @param name - span名称
+     * @param attributes - 属性
+     * @param kind - span类型
+     * @returns span
+     */
+    private startSpan(
+        name: string,
+        attributes: Record<string, SpanAttributeValue | undefined> = {},
+        kind: number = SPAN_KIND.INTERNAL
+    ): Span | null {
+        const parent: SpanContext | undefined = this.upstreamSpan || this.context;
+        return parent ? getTracer().startSpan(name, parent, attributes, kind) : null;
+    }
+
+    /**
+     * 开始一次上游调用（流式或非流式）的span
+     * @param name - span名称
+     * @param stream - 是否流式
+     * @returns span
+     */
+    private startUpstreamSpan(name: string, stream: boolean): Span | null {
+        this.upstreamSpan = this.startSpan(name, {
+            "gen_ai.system": this.backend.name,
+            "gen_ai.request.model": this.requestModelId,
+            "proxy.stream": stream
+        });
+        return this.upstreamSpan;
+    }
+
+    /**
+     * 结束上游调用的span，记录实际回答的模型、尝试次数与token数量
+     * @param metrics - 预测指标（可选）
+     */
+    private endUpstreamSpan(metrics?: UpstreamMetrics): void {
+        this.upstreamSpan?.setAttributes({
+            // 改用其他提供方的备用模型时记录实际的提供方
+            "gen_ai.system": this.backend.name,
+            "gen_ai.response.model": this.answeringModelId || undefined,
+            "replicate.model": this.actualModelId,
+            "replicate.attempts": this.upstreamAttempts,
+            "gen_ai.usage.input_tokens": metrics?.input_token_count,
+            "gen_ai.usage.output_tokens": metrics?.output_token_count
+        });
+        this.upstreamSpan?.end();
     }
 
     /**
      * 处理Replicate API错误，保持原始错误格式
+     * 这里不记录日志：控制器在生成错误响应（或流式错误块）时记录
      */
     private handleReplicateError(error: any): never {
-        logError("Replicate API错误", error, this.requestId);
-        
         // 如果是Replicate API的错误响应，直接抛出
         if (error.response) {
             const replicateError = new Error(error.message || "Replicate API Error") as ReplicateError;
@@ -103,11 +379,12 @@ export class ApiService {
             prompt_length: input.prompt.length,
             system_prompt_length: input.system_prompt?.length || 0,
             max_tokens: input.max_tokens,
-            has_image: !!input.image,
+            has_image: !!input.image || !!input.image_input?.length,
+            image_count: input.image_input?.length ?? (input.image ? 1 : 0),
             max_image_resolution: input.max_image_resolution
         };
         
-        logSystem(`${this.requestId} API调用输入参数`, inputMetadata);
+        logRequestEvent(this.requestId, "upstream.input", `API调用输入参数`, inputMetadata);
     }
 
     /**
@@ -119,10 +396,10 @@ export class ApiService {
         
         if (Array.isArray(response)) {
             const totalLength = response.join("").length;
-            logSystem(`${this.requestId} API响应完成 - 数组格式，总长度: ${totalLength}字符，块数: ${response.length}`);
+            logRequestEvent(this.requestId, "upstream.response", `API响应完成 - 数组格式，总长度: ${totalLength}字符，块数: ${response.length}`);
         } else {
             const responseStr = String(response);
-            logSystem(`${this.requestId} API响应完成 - 字符串格式，长度: ${responseStr.length}字符`);
+            logRequestEvent(this.requestId, "upstream.response", `API响应完成 - 字符串格式，长度: ${responseStr.length}字符`);
         }
     }
 
@@ -156,202 +433,713 @@ export class ApiService {
     }
 
     /**
-     * 流式调用模型API
+     * 切换到第N个候选模型，并按该模型的档案调整输入
+     * 备用模型的 max_tokens 上限或图片字段可能与请求的模型不同
+     * @param index - 候选模型序号（0 为请求的模型）
+     * @param input - 请求的模型输入
+     * @returns 调整后的输入，模型无法处理该输入（如不支持图片）时返回null
+     */
+    private useCandidate(index: number, input: ModelInput): ModelInput | null {
+        const modelId = this.candidateModelIds[index];
+        const actualModelId = getActualModelId(modelId) as ReplicateModelId;
+
+        if (index === 0) {
+            if (this.actualModelId !== actualModelId) {
+                this.actualModelId = actualModelId;
+                this.backend = this.createBackend();
+            }
+            this.currentModelId = modelId;
+            return input;
+        }
+
+        const profile = getModelProfile(actualModelId);
+        const imageUrls = input.image_input ?? (input.image ? [input.image] : []);
+        if (imageUrls.length > profile.vision.max_images) {
+            if (this.requestId) {
+                logRequestEvent(this.requestId, "upstream.fallback", `备用模型 ${modelId} 不支持 ${imageUrls.length} 张图片输入，已跳过`);
+            }
+            return null;
+        }
+
+        const adapted: ModelInput = { ...input };
+        delete adapted.image;
+        delete adapted.image_input;
+        if (imageUrls.length > 0) {
+            if (profile.vision.field === "image_input") {
+                adapted.image_input = [...imageUrls];
+            } else {
+                adapted.image = imageUrls[0];
+            }
+        }
+        adapted.max_tokens = Math.min(Math.max(input.max_tokens, profile.min_output_tokens), profile.max_output_tokens);
+
+        this.currentModelId = modelId;
+        this.actualModelId = actualModelId;
+        this.backend = this.createBackend();
+        if (this.requestId) {
+            logRequestEvent(this.requestId, "upstream.fallback", `改用备用模型: ${modelId} -> ${actualModelId}`);
+            if (adapted.max_tokens !== input.max_tokens) {
+                logRequestEvent(this.requestId, "upstream.fallback", `max_tokens已按备用模型限制调整: ${input.max_tokens} -> ${adapted.max_tokens}`);
+            }
+        }
+        return adapted;
+    }
+
+    /**
+     * 判断当前模型失败后是否改用下一个候选模型
+     * @param error - 失败的错误对象
+     * @param index - 当前候选模型序号
+     * @returns 是否改用备用模型
+     */
+    private shouldFallback(error: unknown, index: number): boolean {
+        if (index >= this.candidateModelIds.length - 1 || !isFallbackError(error)) {
+            return false;
+        }
+        if (this.requestId) {
+            const status = getErrorStatus(error) ?? "network";
+            logRequestEvent(this.requestId, "upstream.fallback", `模型 ${this.currentModelId} 调用失败（状态: ${status}），尝试备用模型`);
+        }
+        return true;
+    }
+
+    /**
+     * 记录实际回答的模型
+     */
+    private markAnswered(): void {
+        this.answeringModelId = this.currentModelId;
+        if (this.requestId && this.currentModelId !== this.requestModelId) {
+            logRequestEvent(this.requestId, "upstream.fallback", `由备用模型回答: ${this.currentModelId}（请求的模型: ${this.requestModelId}）`);
+        }
+    }
+
+    /**
+     * 获取创建预测所需的目标参数
+     * `deployments/owner/name` 通过部署创建，`owner/model:version` 使用版本号创建，
+     * 否则使用模型名创建（其他提供方为去掉提供方名称的模型名）
+     */
+    private getPredictionTarget(): { model: string } | { version: string } | { deployment: string } {
+        const { model, version, deployment } = parseModelTarget(this.actualModelId);
+        if (deployment) {
+            return { deployment };
+        }
+        return version ? { version } : { model };
+    }
+
+    /**
+     * 将预测输出转换为字符串
+     * @param output - 预测输出
+     * @returns 字符串内容
+     */
+    private outputToString(output: unknown): string {
+        // 如果返回的是数组，拼接所有元素；否则转换为字符串
+        return Array.isArray(output) ? output.join("") : String(output);
+    }
+
+    /**
+     * 创建预测（每次调用计为一次上游尝试）
      * @param input - 模型输入
-     * @returns 异步迭代器，用于流式获取响应
+     * @param stream - 是否创建支持流式输出的预测
+     * @returns 创建的预测
      */
-    async *streamModelResponse(input: ModelInput): AsyncIterable<ReplicateEvent> {
+    private async createPrediction(input: ModelInput, stream: boolean): Promise<UpstreamPrediction> {
+        this.throwIfAborted();
+        this.upstreamAttempts++;
+        await this.acquireUpstreamKey();
+        const span = this.startSpan("replicate.prediction.create", {
+            "replicate.model": this.actualModelId,
+            "replicate.attempt": this.upstreamAttempts,
+            "replicate.key_fingerprint": this.keyLease?.lease.fingerprint,
+            "proxy.stream": stream
+        }, SPAN_KIND.CLIENT);
+        this.clientSpan = span;
+        const backend = this.backend;
+        const signal = this.attemptController.signal;
+        const creating = backend.createPrediction({
+            ...this.getPredictionTarget(),
+            input,
+            stream,
+            signal
+        }).then(async prediction => {
+            // 创建期间已被取消（客户端断开或超时），立即取消刚创建的预测
+            if (signal.aborted) {
+                await this.cancelPrediction(prediction.id, backend);
+            } else {
+                this.activePredictionId = prediction.id;
+            }
+            return prediction;
+        });
+
         try {
+            const prediction = await this.untilCancelled(creating);
+            span?.setAttributes({ "replicate.prediction_id": prediction.id, "replicate.version": prediction.version });
+            this.throwIfAborted();
+            return prediction;
+        } catch (error) {
+            this.reportUpstreamKeyFailure(error);
+            span?.recordError(error);
+            throw error;
+        } finally {
+            this.clientSpan = null;
+            span?.end();
+        }
+    }
+
+    /**
+     * 等待上游调用完成，本次调用被取消或当前候选模型超时时立即抛出对应的错误（上游调用在后台结束）
+     * @param promise - 上游调用
+     * @returns 上游调用的结果
+     */
+    private untilCancelled<T>(promise: Promise<T>): Promise<T> {
+        const signal = this.attemptController.signal;
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => {
+                try {
+                    this.throwIfAborted();
+                } catch (error) {
+                    reject(error);
+                }
+            };
+            if (signal.aborted) {
+                onAbort();
+                return;
+            }
+            signal.addEventListener("abort", onAbort, { once: true });
+            promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+        });
+    }
+
+    /**
+     * 取消上游预测（失败时只记录日志）
+     * @param predictionId - 预测ID
+     * @param backend - 创建该预测的上游后端（默认为当前后端）
+     */
+    private async cancelPrediction(predictionId: string, backend: UpstreamBackend = this.backend): Promise<void> {
+        try {
+            await backend.cancelPrediction(predictionId);
             if (this.requestId) {
-                logSystem(`${this.requestId} 开始流式API调用，实际模型: ${this.actualModelId}`);
+                logRequestEvent(this.requestId, "upstream.cancel", `已取消上游预测: ${predictionId}`);
             }
-            
-            // 安全地记录输入参数元数据
-            this.logInputMetadata(input);
+        } catch (error) {
+            if (backend === this.backend) {
+                this.reportUpstreamKeyFailure(error);
+            }
+            logError(`取消上游预测失败: ${predictionId}`, error, this.requestId);
+        } finally {
+            if (this.activePredictionId === predictionId) {
+                this.activePredictionId = null;
+            }
+        }
+    }
 
-            const replicateClient = this.getReplicateClient();
+    /**
+     * 已取消时抛出取消错误（超时时抛出超时错误，否则为状态码499的取消错误，均不可重试）
+     */
+    private throwIfCancelled(): void {
+        if (!this.isCancelled()) {
+            return;
+        }
+        if (this.cancelError) {
+            throw this.cancelError;
+        }
+        const cancelledError = new Error("Request cancelled: client disconnected") as ReplicateError;
+        cancelledError.name = "CancelledError";
+        cancelledError.status = 499;
+        cancelledError.retryable = false;
+        throw cancelledError;
+    }
 
-            // 基于官方示例修复流式API调用
-            try {
-                if (this.requestId) {
-                    logSystem(`${this.requestId} 使用官方推荐的 stream 方法进行流式调用`);
+    /**
+     * 本次调用已取消时抛出取消错误，当前候选模型超时时抛出超时错误
+     */
+    private throwIfAborted(): void {
+        this.throwIfCancelled();
+        if (this.attemptController.signal.aborted && this.attemptError) {
+            throw this.attemptError;
+        }
+    }
+
+    /**
+     * 开始调用一个候选模型：流式时重新开始首个token计时（总时长计时不重新开始）
+     * @param stream - 是否流式
+     */
+    private startAttempt(stream: boolean): void {
+        this.timeouts.clear("first_token");
+        this.timeouts.clear("idle");
+        this.attemptController = new AbortController();
+        this.attemptError = null;
+        if (stream) {
+            this.timeouts.start("first_token");
+        }
+    }
+
+    /**
+     * 超时处理
+     * 首个token在输出任何内容之前超时时，只中止当前候选模型（可以改用备用模型）；
+     * 总时长或流式空闲超时、已经输出内容后超时则取消本次调用
+     * @param error - 超时错误
+     */
+    private onTimeout(error: UpstreamTimeoutError): void {
+        if (error.kind !== "first_token" || this.answeringModelId !== null) {
+            this.cancel(error.label, error);
+            return;
+        }
+
+        this.attemptError = error;
+        this.attemptController.abort();
+        if (this.requestId) {
+            logRequestEvent(this.requestId, "upstream.timeout", `${error.label}（模型: ${this.currentModelId}），停止读取上游输出`);
+        }
+        if (this.activePredictionId) {
+            void this.cancelPrediction(this.activePredictionId);
+        }
+    }
+
+    /**
+     * 创建非流式预测并等待完成
+     * 预测创建遇到瞬时错误（429/5xx/网络错误）时按重试策略重试
+     * @param input - 模型输入
+     * @returns 预测输出与指标
+     */
+    private async runPrediction(input: ModelInput): Promise<{
+        output: unknown;
+        metrics?: UpstreamMetrics;
+    }> {
+        const created = await withRetry(
+            "创建预测",
+            () => this.createPrediction(input, false),
+            this.requestId
+        );
+        // 客户端断开连接或超时时停止轮询
+        const span = this.startSpan("replicate.prediction.wait", { "replicate.prediction_id": created.id }, SPAN_KIND.CLIENT);
+        let prediction: UpstreamPrediction;
+        try {
+            prediction = await this.untilCancelled(
+                this.backend.waitForPrediction(created, () => this.attemptController.signal.aborted)
+            );
+            span?.setAttributes({ "replicate.prediction_status": prediction.status });
+            this.throwIfAborted();
+        } catch (error) {
+            this.reportUpstreamKeyFailure(error);
+            span?.recordError(error);
+            throw error;
+        } finally {
+            span?.end();
+        }
+        this.activePredictionId = null;
+
+        if (prediction.status === "failed" || prediction.status === "canceled") {
+            // 预测本身执行失败，重试通常无法解决，标记为不可重试
+            const predictionError = new Error(`Prediction ${prediction.status}: ${prediction.error || "unknown error"}`) as ReplicateError;
+            predictionError.status = 500;
+            predictionError.retryable = false;
+            throw predictionError;
+        }
+
+        return { output: prediction.output, metrics: prediction.metrics };
+    }
+
+    /**
+     * 获取预测指标（token数量等），失败时返回undefined，不影响主流程
+     * @param predictionId - 预测ID
+     * @returns 预测指标
+     */
+    private async fetchPredictionMetrics(predictionId: string): Promise<UpstreamMetrics | undefined> {
+        try {
+            const prediction = await this.backend.getPrediction(predictionId);
+            return prediction.metrics;
+        } catch (error) {
+            this.reportUpstreamKeyFailure(error);
+            logError("获取预测指标失败", error, this.requestId);
+            return undefined;
+        }
+    }
+
+    /**
+     * 创建一次流式预测并读取其输出
+     * @param input - 模型输入
+     * @returns 异步迭代器，产出输出事件，最后产出带预测指标的完成事件
+     */
+    private async *streamPrediction(input: ModelInput): AsyncIterable<ReplicateEvent> {
+        const prediction = await this.createPrediction(input, true);
+
+        if (!prediction.urls?.stream) {
+            const unsupportedError = new Error("Prediction does not support streaming") as ReplicateError;
+            unsupportedError.retryable = false;
+            throw unsupportedError;
+        }
+
+        if (this.requestId) {
+            logRequestEvent(this.requestId, "upstream.stream", `预测已创建: ${prediction.id}，开始读取流式输出`);
+        }
+
+        const streamResponse = await this.backend.openStream(prediction, this.attemptController.signal);
+
+        if (!streamResponse.ok || !streamResponse.body) {
+            const text = await streamResponse.text();
+            const streamError = new Error(`Stream request failed with status ${streamResponse.status}: ${text}`) as ReplicateError;
+            streamError.status = streamResponse.status;
+            streamError.response = {
+                status: streamResponse.status,
+                statusText: streamResponse.statusText,
+                headers: streamResponse.headers
+            };
+            this.reportUpstreamKeyFailure(streamError);
+            throw streamError;
+        }
+        
+        let chunksReceived = 0;
+        let totalLength = 0;
+        
+        for await (const event of readServerSentEvents(streamResponse.body)) {
+            if (event.event === "output") {
+                if (!this.isValidTextContent(event.data)) {
+                    continue;
                 }
+
+                chunksReceived++;
+                totalLength += event.data.length;
                 
-                let chunksReceived = 0;
-                let totalLength = 0;
+                // 安全地记录处理进度（不记录实际内容）
+                if (this.requestId && chunksReceived % 20 === 0) {
+                    logRequestEvent(this.requestId, "upstream.stream", `流式处理进度 - 已接收 ${chunksReceived} 个块，总长度: ${totalLength}字符`);
+                }
                 
-                // 直接使用官方示例的调用方式
-                for await (const event of replicateClient.stream(this.actualModelId, { input })) {
-                    // 根据官方示例，event 直接就是字符串内容
-                    if (this.isValidTextContent(event)) {
-                        chunksReceived++;
-                        totalLength += event.length;
-                        
-                        // 安全地记录处理进度（不记录实际内容）
-                        if (this.requestId && chunksReceived % 20 === 0) {
-                            logSystem(`${this.requestId} 流式处理进度 - 已接收 ${chunksReceived} 个块，总长度: ${totalLength}字符`);
-                        }
-                        
+                yield {
+                    event: 'output',
+                    data: event.data
+                };
+            } else if (event.event === "error") {
+                const modelError = new Error(event.data || "Stream error") as ReplicateError;
+                modelError.retryable = false;
+                throw modelError;
+            } else if (event.event === "done") {
+                break;
+            }
+        }
+
+        this.activePredictionId = null;
+
+        // 流结束后获取预测指标（token数量）
+        const metrics = await this.fetchPredictionMetrics(prediction.id);
+        
+        // 发送完成事件
+        yield {
+            event: 'done',
+            data: undefined,
+            metrics
+        };
+        
+        if (this.requestId) {
+            logRequestEvent(this.requestId, "upstream.stream", `流式API调用成功完成 - 总块数: ${chunksReceived}，总长度: ${totalLength}字符`);
+        }
+    }
+
+    /**
+     * 使用非流式预测并模拟流式响应（流式调用失败时的回退方案）
+     * @param input - 模型输入
+     * @returns 异步迭代器
+     */
+    private async *simulateStream(input: ModelInput): AsyncIterable<ReplicateEvent> {
+        const { output, metrics } = await this.runPrediction(input);
+        
+        // 记录回退方案的响应元数据
+        this.logResponseMetadata(output);
+        
+        // 模拟流式响应
+        if (output) {
+            const content = this.outputToString(output);
+            
+            // 验证内容是否有效
+            if (this.isValidTextContent(content)) {
+                // 将内容分成小块进行模拟流式输出
+                const chunkSize = 15; // 每个块的字符数
+                let chunksCount = 0;
+                for (let i = 0; i < content.length; i += chunkSize) {
+                    const chunk = content.slice(i, i + chunkSize);
+                    if (this.isValidTextContent(chunk)) {
                         yield {
                             event: 'output',
-                            data: event as string
+                            data: chunk
                         };
-                    }
-                    // 处理可能的事件对象格式（严格验证）
-                    else if (event && typeof event === 'object') {
-                        // 检查是否是标准的事件对象格式
-                        if ('event' in event && 'data' in event) {
-                            const eventData = event.data;
-                            const eventType = event.event;
-                            
-                            // 只处理有效的输出事件
-                            if (eventType === 'output' && this.isValidTextContent(eventData)) {
-                                chunksReceived++;
-                                totalLength += eventData.length;
-                                yield {
-                                    event: 'output',
-                                    data: eventData
-                                };
-                            }
-                            // 处理完成事件
-                            else if (eventType === 'done' || eventType === 'completed') {
-                                yield {
-                                    event: 'done',
-                                    data: undefined
-                                };
-                                break;
-                            }
-                        }
-                        // 检查是否只有data字段
-                        else if ('data' in event && this.isValidTextContent(event.data)) {
-                            chunksReceived++;
-                            totalLength += event.data.length;
-                            yield {
-                                event: 'output',
-                                data: event.data
-                            };
-                        }
-                        // 其他对象格式，记录并跳过
-                        else {
-                            if (this.requestId) {
-                                logSystem(`${this.requestId} 跳过非文本事件对象: ${JSON.stringify(event).substring(0, 100)}`);
-                            }
-                        }
-                    }
-                    // 完全跳过无效数据，不转换为字符串
-                    else {
-                        if (this.requestId && event !== null && event !== undefined) {
-                            const eventPreview = String(event).substring(0, 50);
-                            logSystem(`${this.requestId} 跳过无效事件数据: ${eventPreview}`);
-                        }
+                        chunksCount++;
+                        
+                        // 添加小延迟以模拟流式效果
+                        await new Promise(resolve => setTimeout(resolve, 30));
                     }
                 }
                 
-                // 发送完成事件
-                yield {
-                    event: 'done',
-                    data: undefined
-                };
-                
                 if (this.requestId) {
-                    logSystem(`${this.requestId} 流式API调用成功完成 - 总块数: ${chunksReceived}，总长度: ${totalLength}字符`);
+                    logRequestEvent(this.requestId, "upstream.stream_fallback", `回退方案执行成功 - 模拟了 ${chunksCount} 个块`);
                 }
+            }
+            
+            // 发送完成事件
+            yield {
+                event: 'done',
+                data: undefined,
+                metrics
+            };
+        }
+    }
 
+    /**
+     * 使用当前模型流式调用，包含重试与非流式回退
+     * 在发送任何内容之前遇到瞬时错误时按重试策略重新创建预测；
+     * 重试无效时回退到非流式预测（还有备用模型且错误适合切换模型时直接抛出）；
+     * 已经发送内容后出错则直接抛出，避免重复输出。
+     * @param input - 模型输入
+     * @param canFallback - 是否还有备用模型
+     * @returns 异步迭代器
+     */
+    private async *streamWithRetries(
+        input: ModelInput,
+        canFallback: boolean
+    ): AsyncIterable<ReplicateEvent> {
+        let outputSent = false;
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                for await (const event of this.streamPrediction(input)) {
+                    if (event.event === "output") {
+                        outputSent = true;
+                    }
+                    yield event;
+                }
+                return;
             } catch (streamError) {
+                // 客户端已断开或当前模型超时，不再重试或回退到非流式预测
+                this.throwIfAborted();
+
+                // 已经向客户端发送过内容，无法安全重试
+                if (outputSent) {
+                    throw streamError;
+                }
+
+                if (isRetryableError(streamError) && attempt < RETRY_CONFIG.MAX_ATTEMPTS) {
+                    await waitBeforeRetry("流式预测", attempt, streamError, this.requestId);
+                    continue;
+                }
+
+                // 模型持续过载时直接改用备用模型，不再尝试非流式预测
+                if (canFallback && isFallbackError(streamError)) {
+                    throw streamError;
+                }
+
                 logError("流式方法失败，尝试回退方案", streamError, this.requestId);
                 
-                // 回退方案：使用 run 方法并模拟流式响应
+                // 回退方案：使用非流式预测并模拟流式响应
                 if (this.requestId) {
-                    logSystem(`${this.requestId} 使用 run 方法作为回退方案`);
+                    logRequestEvent(this.requestId, "upstream.stream_fallback", `使用非流式预测作为回退方案`);
                 }
                 
-                const prediction = await replicateClient.run(this.actualModelId, { input });
-                
-                // 记录回退方案的响应元数据
-                this.logResponseMetadata(prediction);
-                
-                // 模拟流式响应
-                if (prediction) {
-                    let content = "";
-                    if (Array.isArray(prediction)) {
-                        content = prediction.join("");
-                    } else {
-                        content = String(prediction);
-                    }
-                    
-                    // 验证内容是否有效
-                    if (this.isValidTextContent(content)) {
-                        // 将内容分成小块进行模拟流式输出
-                        const chunkSize = 15; // 每个块的字符数
-                        let chunksCount = 0;
-                        for (let i = 0; i < content.length; i += chunkSize) {
-                            const chunk = content.slice(i, i + chunkSize);
-                            if (this.isValidTextContent(chunk)) {
-                                yield {
-                                    event: 'output',
-                                    data: chunk
-                                };
-                                chunksCount++;
-                                
-                                // 添加小延迟以模拟流式效果
-                                await new Promise(resolve => setTimeout(resolve, 30));
-                            }
+                yield* this.simulateStream(input);
+                return;
+            }
+        }
+    }
+
+    /**
+     * 流式调用模型API
+     * 先创建带 stream 参数的预测，再读取其流式URL，以便在结束后获取预测指标。
+     * 请求的模型失败且尚未输出任何内容时，按配置的备用模型链依次尝试。
+     * @param input - 模型输入
+     * @returns 异步迭代器，用于流式获取响应
+     */
+    async *streamModelResponse(input: ModelInput): AsyncIterable<ReplicateEvent> {
+        const span = this.startUpstreamSpan("upstream.stream", true);
+        const firstTokenSpan = this.startSpan("upstream.first_token");
+        let metrics: UpstreamMetrics | undefined;
+        let outputChunks = 0;
+        try {
+            if (this.requestId) {
+                logRequestEvent(this.requestId, "upstream.call_start", `开始流式API调用，实际模型: ${this.actualModelId}`);
+            }
+            
+            // 安全地记录输入参数元数据
+            this.logInputMetadata(input);
+
+            // 总时长按整个请求计时（包括重试和备用模型）
+            this.timeouts.start("total");
+
+            let lastError: unknown;
+
+            for (let index = 0; index < this.candidateModelIds.length; index++) {
+                const modelInput = this.useCandidate(index, input);
+                if (!modelInput) {
+                    continue;
+                }
+                this.startAttempt(true);
+
+                let answered = false;
+                try {
+                    const canFallback = index < this.candidateModelIds.length - 1;
+                    for await (const event of this.streamWithRetries(modelInput, canFallback)) {
+                        if (!answered) {
+                            answered = true;
+                            this.markAnswered();
+                            this.timeouts.clear("first_token");
+                            firstTokenSpan?.end();
                         }
-                        
-                        if (this.requestId) {
-                            logSystem(`${this.requestId} 回退方案执行成功 - 模拟了 ${chunksCount} 个块`);
+                        if (event.event === "output") {
+                            outputChunks++;
+                        } else if (event.event === "done") {
+                            metrics = event.metrics;
                         }
+                        // 每收到一个事件重新开始空闲计时
+                        this.timeouts.start("idle");
+                        yield event;
                     }
-                    
-                    // 发送完成事件
-                    yield {
-                        event: 'done',
-                        data: undefined
-                    };
+                    return;
+                } catch (error) {
+                    this.throwIfCancelled();
+                    if (answered || !this.shouldFallback(error, index)) {
+                        throw error;
+                    }
+                    lastError = error;
                 }
             }
 
+            // 剩余的备用模型都无法处理该输入
+            throw lastError;
         } catch (error) {
+            span?.recordError(this.cancelError || error);
+            this.throwIfCancelled();
             logError("流式API调用失败", error, this.requestId);
             this.handleReplicateError(error);
+        } finally {
+            this.timeouts.clearAll();
+            firstTokenSpan?.end();
+            span?.setAttributes({ "proxy.output_chunks": outputChunks });
+            this.endUpstreamSpan(metrics);
+            this.releaseUpstreamKey();
+            if (this.requestId && this.upstreamAttempts > 1) {
+                logRequestEvent(this.requestId, "upstream.retry", `上游调用共尝试 ${this.upstreamAttempts} 次`);
+            }
         }
     }
 
+    /**
+     * 开始流式调用并等待第一个事件
+     * 在返回HTTP响应之前完成预测创建与首个事件前的重试，
+     * 这样首个事件之前的失败可以返回正确的HTTP状态码，响应头也能反映实际尝试次数
+     * @param input - 模型输入
+     * @returns 异步迭代器（包含已读取的第一个事件）
+     */
+    async openStream(input: ModelInput): Promise<AsyncIterable<ReplicateEvent>> {
+        const iterator = this.streamModelResponse(input)[Symbol.asyncIterator]();
+        const first = await iterator.next();
+
+        return (async function* () {
+            try {
+                let result = first;
+                while (!result.done) {
+                    yield result.value;
+                    result = await iterator.next();
+                }
+            } finally {
+                // 消费方提前结束时关闭上游流
+                await iterator.return?.();
+            }
+        })();
+    }
+
     /**
      * 非流式调用模型API
      * @param input - 模型输入
-     * @returns 模型响应
+     * @returns 模型响应内容与预测指标
      */
-    async getModelResponse(input: ModelInput): Promise<string> {
+    async getModelResponse(input: ModelInput): Promise<ModelResponse> {
+        const span = this.startUpstreamSpan("upstream.generate", false);
+        let metrics: UpstreamMetrics | undefined;
         try {
             if (this.requestId) {
-                logSystem(`${this.requestId} 开始非流式API调用，实际模型: ${this.actualModelId}`);
+                logRequestEvent(this.requestId, "upstream.call_start", `开始非流式API调用，实际模型: ${this.actualModelId}`);
             }
             
             // 安全地记录输入参数元数据
             this.logInputMetadata(input);
 
-            const replicateClient = this.getReplicateClient();
+            // 总时长按整个请求计时（包括重试和备用模型）
+            this.timeouts.start("total");
 
-            // 调用Replicate非流式API
-            const prediction = await replicateClient.run(this.actualModelId, { input });
-            
-            // 安全地记录响应元数据（不记录实际内容）
-            this.logResponseMetadata(prediction);
+            let lastError: unknown;
 
-            // 处理不同类型的返回值
-            if (Array.isArray(prediction)) {
-                // 如果返回的是数组，拼接所有元素
-                return prediction.join("");
-            } else {
-                // 如果返回的不是数组，转换为字符串
-                return String(prediction);
+            // 依次尝试请求的模型及其备用模型
+            for (let index = 0; index < this.candidateModelIds.length; index++) {
+                const modelInput = this.useCandidate(index, input);
+                if (!modelInput) {
+                    continue;
+                }
+                this.startAttempt(false);
+
+                try {
+                    // 创建预测并等待完成
+                    const result = await this.runPrediction(modelInput);
+                    const output = result.output;
+                    metrics = result.metrics;
+                    this.markAnswered();
+
+                    // 安全地记录响应元数据（不记录实际内容）
+                    this.logResponseMetadata(output);
+
+                    return {
+                        content: this.outputToString(output),
+                        metrics
+                    };
+                } catch (error) {
+                    this.throwIfCancelled();
+                    if (!this.shouldFallback(error, index)) {
+                        throw error;
+                    }
+                    lastError = error;
+                }
             }
+
+            // 剩余的备用模型都无法处理该输入
+            throw lastError;
         } catch (error) {
+            span?.recordError(this.cancelError || error);
+            this.throwIfCancelled();
             this.handleReplicateError(error);
+        } finally {
+            this.timeouts.clearAll();
+            this.endUpstreamSpan(metrics);
+            this.releaseUpstreamKey();
         }
     }
 
+    /**
+     * 取消本次调用：中止正在进行的上游读取，并取消正在运行的预测
+     * 由请求的中止信号、流式响应的 cancel 回调、本地停止序列或超时触发，重复调用无副作用
+     * @param reason - 取消原因（用于日志）
+     * @param error - 之后的调用抛出的错误（如超时错误），未提供时抛出状态码499的取消错误
+     */
+    cancel(reason: string = "客户端断开连接", error?: Error): void {
+        if (this.isCancelled()) {
+            return;
+        }
+        this.cancelError = error || null;
+        this.timeouts.clearAll();
+        this.abortController.abort();
+        this.attemptController.abort();
+
+        if (this.requestId) {
+            logRequestEvent(this.requestId, "upstream.cancel", `${reason}，停止读取上游输出`);
+        }
+
+        if (this.activePredictionId) {
+            void this.cancelPrediction(this.activePredictionId);
+        }
+    }
+
+    /**
+     * 是否已被取消
+     * @returns 是否已取消
+     */
+    isCancelled(): boolean {
+        return this.abortController.signal.aborted;
+    }
+
     /**
      * 获取请求的模型ID
      * @returns 请求的模型ID
@@ -360,6 +1148,22 @@ export class ApiService {
         return this.requestModelId;
     }
 
+    /**
+     * 获取本次调用向上游创建预测的次数（包含重试）
+     * @returns 尝试次数
+     */
+    getUpstreamAttempts(): number {
+        return this.upstreamAttempts;
+    }
+
+    /**
+     * 获取实际回答的模型（请求模型名）
+     * @returns 模型名称，尚未得到回答时返回null
+     */
+    getAnsweringModelId(): string | null {
+        return this.answeringModelId;
+    }
+
     /**
      * 获取实际的Replicate模型ID
      * @returns 实际的模型ID
@@ -373,9 +1177,17 @@ export class ApiService {
  * 创建API服务实例
  * @param apiKey - 用户的Replicate API密钥
  * @param requestModelId - 请求中的模型ID
- * @param requestId - 请求ID（用于日志）
+ * @param context - 请求上下文（用于日志与追踪）
+ * @param signal - 请求的中止信号（可选）
+ * @param upstreamToken - 服务端令牌名称（虚拟密钥模式，可选）
  * @returns ApiService实例
  */
-export function createApiService(apiKey: string, requestModelId?: string, requestId?: string): ApiService {
-    return new ApiService(apiKey, requestModelId, requestId);
+export function createApiService(
+    apiKey: string,
+    requestModelId?: string,
+    context?: RequestContext,
+    signal?: AbortSignal,
+    upstreamToken?: string
+): ApiService {
+    return new ApiService(apiKey, requestModelId, context, signal, upstreamToken);
 }
\ No newline at end of file
@@ -0,0 +1,619 @@
+import { parse as parseYaml } from "yaml";
+import {
+    applyRuntimeConfig,
+    createDefaultModelProfile,
+    findModelProfile,
+    getBuiltinRuntimeConfig,
+    getProviderType,
+    parseModelTarget
+} from "./config.ts";
+import { ConfigFileStatus, ModelProfile, RuntimeConfig, SamplingParameter, UpstreamProvider } from "./types.ts";
+import { SAMPLING_PARAMETERS } from "./sampling.ts";
+import { logError, logSystem } from "./utils.ts";
+
+/**
+ * 配置文件路径（未设置时使用内置配置，不启用热加载）
+ */
+const CONFIG_FILE_PATH = Deno.env.get("CONFIG_FILE") || "";
+
+/**
+ * 配置文件加载状态（用于就绪检查）
+ */
+const configFileStatus: ConfigFileStatus = {
+    path: CONFIG_FILE_PATH || null,
+    source: "builtin",
+    loaded_at: null,
+    last_error: null
+};
+
+/**
+ * 文件变化后等待的时间，合并编辑器保存时产生的多次事件
+ */
+const RELOAD_DEBOUNCE_MS = 300;
+
+/**
+ * Replicate 模型名格式：owner/name，可带 :version（部署目标 deployments/owner/name 由 parseModelTarget 识别）
+ */
+const REPLICATE_MODEL_PATTERN = /^[\w.-]+\/[\w.-]+(:[0-9a-f]+)?$/;
+
+/**
+ * 配置文件允许的顶层字段
+ */
+const CONFIG_FILE_FIELDS = ["providers", "models", "default_model", "max_tokens", "timeouts", "cors_headers", "profiles", "fallback"];
+
+/**
+ * 提供方配置允许的字段
+ */
+const PROVIDER_FIELDS = ["type", "base_url", "api_key_env"];
+
+/**
+ * 可以在配置文件中添加的提供方类型
+ */
+const CONFIGURABLE_PROVIDER_TYPES = ["anthropic", "openai"];
+
+/**
+ * 提供方名称格式
+ */
+const PROVIDER_NAME_PATTERN = /^[\w-]+$/;
+
+/**
+ * 模型档案允许的字段
+ */
+const PROFILE_FIELDS = [
+    "context_window",
+    "min_output_tokens",
+    "max_output_tokens",
+    "vision",
+    "sampling_parameters",
+    "default_parameters"
+];
+
+/**
+ * 配置文件格式（所有字段可选，未提供的部分使用内置默认值）
+ */
+interface ConfigFile {
+    // 提供方名称 -> 提供方配置（与内置提供方合并）
+    providers?: Record<string, Partial<UpstreamProvider>>;
+    // 请求模型名 -> Replicate 模型名或 "提供方名称:模型名"
+    models?: Record<string, string>;
+    // 默认模型，必须是 models 中的键
+    default_model?: string;
+    max_tokens?: {
+        minimum?: number;
+        maximum?: number;
+        default?: number;
+    };
+    timeouts?: {
+        // 上游调用总时长
+        request_timeout_ms?: number;
+        // 流式调用开始到第一个输出
+        first_token_timeout_ms?: number;
+        // 流式输出中两个事件之间的间隔
+        idle_timeout_ms?: number;
+    };
+    // 附加到所有响应的CORS头部
+    cors_headers?: Record<string, string>;
+    // 模型映射目标 -> 模型档案（只需填写要覆盖的字段）
+    profiles?: Record<string, Partial<ModelProfile>>;
+    fallback?: {
+        // 请求模型名 -> 按顺序尝试的备用模型
+        chains?: Record<string, string[]>;
+        // 响应中的 model 字段：requested 或 answered
+        response_model?: string;
+    };
+}
+
+/**
+ * 配置文件无法解析或校验失败
+ */
+export class ConfigFileError extends Error {
+    /**
+     * 具体问题列表
+     */
+    readonly issues: string[];
+
+    /**
+     * 构造函数
+     * @param path - 配置文件路径
+     * @param issues - 具体问题列表
+     */
+    constructor(path: string, issues: string[]) {
+        super(`配置文件 ${path} 无效: ${issues.join("; ")}`);
+        this.name = "ConfigFileError";
+        this.issues = issues;
+    }
+}
+
+/**
+ * 是否为普通对象
+ * @param value - 任意值
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 是否为正整数
+ * @param value - 任意值
+ */
+function isPositiveInteger(value: unknown): value is number {
+    return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * 是否为非负整数
+ * @param value - 任意值
+ */
+function isNonNegativeInteger(value: unknown): value is number {
+    return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * 校验单个提供方配置
+ * @param name - 提供方名称
+ * @param data - 配置文件中的提供方配置
+ * @param issues - 问题列表（原地追加）
+ * @returns 提供方配置，无效时返回null
+ */
+function validateProvider(name: string, data: unknown, issues: string[]): UpstreamProvider | null {
+    const path = `providers.${name}`;
+    if (name === "replicate") {
+        issues.push(`${path}: replicate 是内置提供方，不能覆盖`);
+        return null;
+    }
+    if (!PROVIDER_NAME_PATTERN.test(name)) {
+        issues.push(`${path}: 名称只能包含字母、数字、下划线和连字符`);
+        return null;
+    }
+    if (!isPlainObject(data)) {
+        issues.push(`${path}: 必须是对象`);
+        return null;
+    }
+
+    for (const key of Object.keys(data)) {
+        if (!PROVIDER_FIELDS.includes(key)) {
+            issues.push(`${path}: 未知字段 "${key}"（允许的字段: ${PROVIDER_FIELDS.join(", ")}）`);
+        }
+    }
+
+    const { type, base_url, api_key_env } = data;
+    let valid = true;
+    if (typeof type !== "string" || !CONFIGURABLE_PROVIDER_TYPES.includes(type)) {
+        issues.push(`${path}.type: 必须是 ${CONFIGURABLE_PROVIDER_TYPES.map(t => `"${t}"`).join(" 或 ")}，实际为 ${JSON.stringify(type)}`);
+        valid = false;
+    }
+    if (typeof base_url !== "string" || !/^https?:\/\//.test(base_url) || !URL.canParse(base_url)) {
+        issues.push(`${path}.base_url: 必须是 http(s) 地址，实际为 ${JSON.stringify(base_url)}`);
+        valid = false;
+    }
+    if (api_key_env !== undefined && (typeof api_key_env !== "string" || !api_key_env)) {
+        issues.push(`${path}.api_key_env: 必须是非空字符串（环境变量名）`);
+        valid = false;
+    }
+    if (!valid) {
+        return null;
+    }
+
+    return {
+        type: type as UpstreamProvider["type"],
+        base_url: (base_url as string).replace(/\/+$/, ""),
+        ...(api_key_env ? { api_key_env: api_key_env as string } : {})
+    };
+}
+
+/**
+ * 校验模型映射目标（Replicate 模型名或 "提供方名称:模型名"）
+ * @param target - 模型映射的目标
+ * @param providers - 提供方配置
+ * @returns 问题描述，有效时返回null
+ */
+function validateModelTarget(target: unknown, providers: Record<string, UpstreamProvider>): string | null {
+    if (typeof target !== "string" || !target) {
+        return `必须是非空字符串，实际为 ${JSON.stringify(target)}`;
+    }
+    const { provider, model, version, deployment } = parseModelTarget(target, providers);
+    if (!providers[provider]) {
+        return `提供方 "${provider}" 不存在（可用的提供方: ${Object.keys(providers).join(", ")}）`;
+    }
+    if (providers[provider].type === "replicate" && !deployment &&
+        !REPLICATE_MODEL_PATTERN.test(version ? `${model}:${version}` : model)) {
+        return `必须是 "owner/model"、"owner/model:version" 或 "deployments/owner/name" 格式的Replicate目标，` +
+            `或 "提供方名称:模型名"，实际为 ${JSON.stringify(target)}`;
+    }
+    return null;
+}
+
+/**
+ * 校验单个模型档案并与基础档案合并
+ * @param path - 档案在配置文件中的路径（用于错误消息）
+ * @param data - 配置文件中的档案内容
+ * @param base - 基础档案（内置档案或默认档案）
+ * @param issues - 问题列表（原地追加）
+ * @returns 合并后的档案
+ */
+function validateProfile(path: string, data: unknown, base: ModelProfile, issues: string[]): ModelProfile {
+    const profile = structuredClone(base);
+    if (!isPlainObject(data)) {
+        issues.push(`${path}: 必须是对象`);
+        return profile;
+    }
+
+    for (const key of Object.keys(data)) {
+        if (!PROFILE_FIELDS.includes(key)) {
+            issues.push(`${path}: 未知字段 "${key}"（允许的字段: ${PROFILE_FIELDS.join(", ")}）`);
+        }
+    }
+
+    for (const field of ["context_window", "min_output_tokens", "max_output_tokens"] as const) {
+        if (data[field] === undefined) {
+            continue;
+        }
+        if (!isPositiveInteger(data[field])) {
+            issues.push(`${path}.${field}: 必须是正整数，实际为 ${JSON.stringify(data[field])}`);
+        } else {
+            profile[field] = data[field];
+        }
+    }
+    if (!(profile.min_output_tokens <= profile.max_output_tokens && profile.max_output_tokens <= profile.context_window)) {
+        issues.push(
+            `${path}: 需要满足 min_output_tokens <= max_output_tokens <= context_window，` +
+            `实际为 ${profile.min_output_tokens} / ${profile.max_output_tokens} / ${profile.context_window}`
+        );
+    }
+
+    if (data.vision !== undefined) {
+        if (!isPlainObject(data.vision)) {
+            issues.push(`${path}.vision: 必须是对象`);
+        } else {
+            if (data.vision.field !== undefined) {
+                if (data.vision.field !== "image" && data.vision.field !== "image_input") {
+                    issues.push(`${path}.vision.field: 必须是 "image" 或 "image_input"，实际为 ${JSON.stringify(data.vision.field)}`);
+                } else {
+                    profile.vision.field = data.vision.field;
+                }
+            }
+            if (data.vision.max_images !== undefined) {
+                if (!isNonNegativeInteger(data.vision.max_images)) {
+                    issues.push(`${path}.vision.max_images: 必须是非负整数，实际为 ${JSON.stringify(data.vision.max_images)}`);
+                } else {
+                    profile.vision.max_images = data.vision.max_images;
+                }
+            }
+        }
+    }
+
+    if (data.sampling_parameters !== undefined) {
+        if (!isPlainObject(data.sampling_parameters)) {
+            issues.push(`${path}.sampling_parameters: 必须是对象（OpenAI 参数名 -> Replicate 输入字段）`);
+        } else {
+            for (const [param, field] of Object.entries(data.sampling_parameters)) {
+                if (!SAMPLING_PARAMETERS.includes(param as SamplingParameter)) {
+                    issues.push(`${path}.sampling_parameters: 不支持的参数 "${param}"（支持: ${SAMPLING_PARAMETERS.join(", ")}）`);
+                } else if (typeof field !== "string" || !field) {
+                    issues.push(`${path}.sampling_parameters.${param}: 必须是非空字符串`);
+                }
+            }
+            profile.sampling_parameters = data.sampling_parameters as ModelProfile["sampling_parameters"];
+        }
+    }
+
+    if (data.default_parameters !== undefined) {
+        if (!isPlainObject(data.default_parameters)) {
+            issues.push(`${path}.default_parameters: 必须是对象`);
+        } else {
+            profile.default_parameters = { ...profile.default_parameters, ...data.default_parameters };
+        }
+    }
+    const defaultMaxTokens = profile.default_parameters.max_tokens;
+    if (defaultMaxTokens !== undefined &&
+        (!isPositiveInteger(defaultMaxTokens) ||
+            defaultMaxTokens < profile.min_output_tokens || defaultMaxTokens > profile.max_output_tokens)) {
+        issues.push(
+            `${path}.default_parameters.max_tokens: 必须是 ${profile.min_output_tokens} 到 ${profile.max_output_tokens} 之间的整数，` +
+            `实际为 ${JSON.stringify(defaultMaxTokens)}`
+        );
+    }
+
+    return profile;
+}
+
+/**
+ * 校验配置文件内容并与内置默认值合并
+ * @param data - 解析后的配置文件内容
+ * @returns 合并后的配置与问题列表（问题列表非空时配置不可用）
+ */
+export function validateConfigFile(data: unknown): { config: RuntimeConfig; issues: string[] } {
+    const config = getBuiltinRuntimeConfig();
+    const issues: string[] = [];
+
+    if (!isPlainObject(data)) {
+        return { config, issues: ["顶层必须是对象"] };
+    }
+
+    for (const key of Object.keys(data)) {
+        if (!CONFIG_FILE_FIELDS.includes(key)) {
+            issues.push(`未知字段 "${key}"（允许的字段: ${CONFIG_FILE_FIELDS.join(", ")}）`);
+        }
+    }
+
+    const file = data as ConfigFile;
+
+    if (file.providers !== undefined) {
+        if (!isPlainObject(file.providers)) {
+            issues.push("providers: 必须是对象（提供方名称 -> 提供方配置）");
+        } else {
+            for (const [name, providerData] of Object.entries(file.providers)) {
+                const provider = validateProvider(name, providerData, issues);
+                if (provider) {
+                    config.providers[name] = provider;
+                }
+            }
+        }
+    }
+
+    if (file.models !== undefined) {
+        if (!isPlainObject(file.models) || Object.keys(file.models).length === 0) {
+            issues.push("models: 必须是非空对象（请求模型名 -> 上游模型）");
+        } else {
+            for (const [name, target] of Object.entries(file.models)) {
+                const issue = validateModelTarget(target, config.providers);
+                if (issue) {
+                    issues.push(`models.${name}: ${issue}`);
+                }
+            }
+            config.modelMapping = file.models;
+        }
+    }
+
+    if (file.default_model !== undefined) {
+        if (typeof file.default_model !== "string" || !file.default_model) {
+            issues.push("default_model: 必须是非空字符串");
+        } else {
+            config.defaultModel = file.default_model;
+        }
+    }
+    if (!(config.defaultModel in config.modelMapping)) {
+        issues.push(`default_model: 模型 "${config.defaultModel}" 不在 models 中`);
+    }
+
+    if (file.max_tokens !== undefined) {
+        if (!isPlainObject(file.max_tokens)) {
+            issues.push("max_tokens: 必须是对象");
+        } else {
+            for (const field of ["minimum", "maximum", "default"] as const) {
+                const value = file.max_tokens[field];
+                if (value === undefined) {
+                    continue;
+                }
+                if (!isPositiveInteger(value)) {
+                    issues.push(`max_tokens.${field}: 必须是正整数，实际为 ${JSON.stringify(value)}`);
+                } else {
+                    config.maxTokens[field.toUpperCase() as "MINIMUM" | "MAXIMUM" | "DEFAULT"] = value;
+                }
+            }
+            const { MINIMUM, MAXIMUM, DEFAULT } = config.maxTokens;
+            if (!(MINIMUM <= DEFAULT && DEFAULT <= MAXIMUM)) {
+                issues.push(`max_tokens: 需要满足 minimum <= default <= maximum，实际为 ${MINIMUM} / ${DEFAULT} / ${MAXIMUM}`);
+            }
+        }
+    }
+
+    if (file.timeouts !== undefined) {
+        if (!isPlainObject(file.timeouts)) {
+            issues.push("timeouts: 必须是对象");
+        } else {
+            const fields = [
+                ["request_timeout_ms", "requestTimeout"],
+                ["first_token_timeout_ms", "firstTokenTimeout"],
+                ["idle_timeout_ms", "idleTimeout"]
+            ] as const;
+            for (const [field, key] of fields) {
+                const value = file.timeouts[field];
+                if (value === undefined) {
+                    continue;
+                }
+                if (!isPositiveInteger(value)) {
+                    issues.push(`timeouts.${field}: 必须是正整数，实际为 ${JSON.stringify(value)}`);
+                } else {
+                    config[key] = value;
+                }
+            }
+        }
+    }
+
+    if (file.cors_headers !== undefined) {
+        if (!isPlainObject(file.cors_headers)) {
+            issues.push("cors_headers: 必须是对象（头部名称 -> 值）");
+        } else {
+            for (const [name, value] of Object.entries(file.cors_headers)) {
+                if (typeof value !== "string") {
+                    issues.push(`cors_headers.${name}: 必须是字符串，实际为 ${JSON.stringify(value)}`);
+                }
+            }
+            config.corsHeaders = file.cors_headers as Record<string, string>;
+        }
+    }
+
+    if (file.profiles !== undefined) {
+        if (!isPlainObject(file.profiles)) {
+            issues.push("profiles: 必须是对象（模型映射目标 -> 模型档案）");
+        } else {
+            for (const [modelId, data] of Object.entries(file.profiles)) {
+                const issue = validateModelTarget(modelId, config.providers);
+                if (issue) {
+                    issues.push(`profiles.${modelId}: ${issue}`);
+                    continue;
+                }
+                const base = findModelProfile(modelId, config.modelProfiles, config.providers) ||
+                    createDefaultModelProfile(config.maxTokens, getProviderType(modelId, config.providers));
+                config.modelProfiles[modelId] = validateProfile(`profiles.${modelId}`, data, base, issues);
+            }
+        }
+    }
+
+    if (file.fallback !== undefined) {
+        if (!isPlainObject(file.fallback)) {
+            issues.push("fallback: 必须是对象");
+        } else {
+            if (file.fallback.response_model !== undefined) {
+                if (file.fallback.response_model !== "requested" && file.fallback.response_model !== "answered") {
+                    issues.push(`fallback.response_model: 必须是 "requested" 或 "answered"，实际为 ${JSON.stringify(file.fallback.response_model)}`);
+                } else {
+                    config.fallbackResponseModel = file.fallback.response_model;
+                }
+            }
+            if (file.fallback.chains !== undefined) {
+                if (!isPlainObject(file.fallback.chains)) {
+                    issues.push("fallback.chains: 必须是对象（请求模型名 -> 备用模型列表）");
+                } else {
+                    for (const [modelId, chain] of Object.entries(file.fallback.chains)) {
+                        if (!(modelId in config.modelMapping)) {
+                            issues.push(`fallback.chains.${modelId}: 模型不在 models 中`);
+                        }
+                        if (!Array.isArray(chain)) {
+                            issues.push(`fallback.chains.${modelId}: 必须是模型名数组`);
+                            continue;
+                        }
+                        for (const fallbackModel of chain) {
+                            if (typeof fallbackModel !== "string" || !(fallbackModel in config.modelMapping)) {
+                                issues.push(`fallback.chains.${modelId}: 备用模型 ${JSON.stringify(fallbackModel)} 不在 models 中`);
+                            } else if (fallbackModel === modelId) {
+                                issues.push(`fallback.chains.${modelId}: 备用模型不能是模型本身`);
+                            }
+                        }
+                    }
+                    config.fallbackChains = file.fallback.chains as Record<string, string[]>;
+                }
+            }
+        }
+    }
+
+    return { config, issues };
+}
+
+/**
+ * 读取、解析并校验配置文件
+ * @param path - 配置文件路径（.yaml/.yml 按YAML解析，其他按JSON解析）
+ * @returns 合并后的配置
+ */
+export async function readConfigFile(path: string): Promise<RuntimeConfig> {
+    let content: string;
+    try {
+        content = await Deno.readTextFile(path);
+    } catch (error) {
+        throw new ConfigFileError(path, [`无法读取文件: ${error instanceof Error ? error.message : String(error)}`]);
+    }
+
+    let data: unknown;
+    try {
+        data = /\.ya?ml$/i.test(path) ? parseYaml(content) : JSON.parse(content);
+    } catch (error) {
+        throw new ConfigFileError(path, [`解析失败: ${error instanceof Error ? error.message : String(error)}`]);
+    }
+
+    const { config, issues } = validateConfigFile(data);
+    if (issues.length > 0) {
+        throw new ConfigFileError(path, issues);
+    }
+    return config;
+}
+
+/**
+ * 记录配置文件的问题（逐条输出，避免日志截断）
+ * @param label - 日志标签
+ * @param error - 错误对象
+ */
+function logConfigFileError(label: string, error: unknown): void {
+    configFileStatus.last_error = error instanceof ConfigFileError
+        ? error.issues
+        : [error instanceof Error ? error.message : String(error)];
+    if (error instanceof ConfigFileError) {
+        for (const issue of error.issues) {
+            logError(label, issue);
+        }
+        return;
+    }
+    logError(label, error);
+}
+
+/**
+ * 记录配置文件加载成功
+ */
+function markConfigFileLoaded(): void {
+    configFileStatus.source = "file";
+    configFileStatus.loaded_at = Date.now();
+    configFileStatus.last_error = null;
+}
+
+/**
+ * 获取配置文件加载状态
+ * @returns 加载状态的副本
+ */
+export function getConfigFileStatus(): ConfigFileStatus {
+    return { ...configFileStatus };
+}
+
+/**
+ * 重新加载配置文件，校验失败时保留当前配置
+ * @param reason - 触发原因（用于日志）
+ */
+async function reloadConfigFile(reason: string): Promise<void> {
+    try {
+        const config = await readConfigFile(CONFIG_FILE_PATH);
+        applyRuntimeConfig(config);
+        markConfigFileLoaded();
+        logSystem(`配置文件已重新加载（${reason}）: ${Object.keys(config.modelMapping).length} 个模型`);
+    } catch (error) {
+        logConfigFileError("重新加载配置文件失败，继续使用当前配置", error);
+    }
+}
+
+/**
+ * 监听配置文件变化
+ * 监听所在目录而不是文件本身，以便处理编辑器或 ConfigMap 通过替换文件完成的更新
+ */
+async function watchConfigFile(): Promise<void> {
+    const separator = CONFIG_FILE_PATH.lastIndexOf("/");
+    const directory = separator === -1 ? "." : CONFIG_FILE_PATH.substring(0, separator) || "/";
+    const fileName = CONFIG_FILE_PATH.substring(separator + 1);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+        for await (const event of Deno.watchFs(directory, { recursive: false })) {
+            if (!event.paths.some(path => path.endsWith(`/${fileName}`) || path === fileName)) {
+                continue;
+            }
+            clearTimeout(timer);
+            timer = setTimeout(() => reloadConfigFile("文件变化"), RELOAD_DEBOUNCE_MS);
+        }
+    } catch (error) {
+        logError("监听配置文件失败，仍可通过 SIGHUP 重新加载", error);
+    }
+}
+
+/**
+ * 启动时加载配置文件（通过 CONFIG_FILE 指定），并启用文件变化与 SIGHUP 触发的热加载
+ * 配置文件无效时抛出 ConfigFileError，由调用方终止启动
+ */
+export async function initConfigFile(): Promise<void> {
+    if (!CONFIG_FILE_PATH) {
+        return;
+    }
+
+    try {
+        applyRuntimeConfig(await readConfigFile(CONFIG_FILE_PATH));
+        markConfigFileLoaded();
+    } catch (error) {
+        logConfigFileError("加载配置文件失败", error);
+        throw error;
+    }
+    logSystem(`已加载配置文件: ${CONFIG_FILE_PATH}`);
+
+    watchConfigFile();
+
+    try {
+        Deno.addSignalListener("SIGHUP", () => reloadConfigFile("SIGHUP"));
+    } catch {
+        // 不支持 SIGHUP 的平台（如 Windows）只依赖文件监听
+    }
+}
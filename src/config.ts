@@ -1,7 +1,22 @@
 import Replicate from "replicate";
+import { logWarn } from "./utils.ts";
+import {
+    DiscoveredModel,
+    FallbackResponseModel,
+    LogLevel,
+    ModelProfile,
+    ModelTarget,
+    RuntimeConfig,
+    SamplingParameterMapping,
+    UpstreamProvider,
+    UpstreamProviderType
+} from "./types.ts";
 
 /**
- * 模型映射配置：请求模型名 -> Replicate实际模型名
+ * 模型映射配置：请求模型名 -> 上游模型
+ * Replicate 目标可以是 owner/model（最新版本）、owner/model:version（固定版本）或 deployments/owner/name（部署）；
+ * 其他提供方写作 "提供方名称:模型名"（见 UPSTREAM_PROVIDERS）
+ * 以下标注"可通过配置文件覆盖"的配置在加载 CONFIG_FILE 后原地更新，导入方始终读到最新值
  */
 export const MODEL_MAPPING: Record<string, string> = {
     "claude-sonnet-4-20250514": "anthropic/claude-4-sonnet",
@@ -15,17 +30,83 @@ export const MODEL_MAPPING: Record<string, string> = {
 };
 
 /**
- * 代理服务返回的默认模型名称
+ * 模型档案（按Replicate实际模型名配置，可通过配置文件覆盖）
+ * Replicate 上的 Claude 模型只开放 prompt、system_prompt、max_tokens、image 等字段，不接受采样参数；
+ * 每次请求最多接受一张图片，max_tokens 不能小于1024
  */
-export const PROXY_MODEL_NAME = "claude-3-7-sonnet-20250219";
+export const MODEL_PROFILES: Record<string, ModelProfile> = {
+    "anthropic/claude-4-sonnet": {
+        context_window: 200000,
+        min_output_tokens: 1024,
+        max_output_tokens: 64000,
+        vision: { field: "image", max_images: 1 },
+        sampling_parameters: {},
+        default_parameters: { max_tokens: 16384, max_image_resolution: 0.5 }
+    },
+    "anthropic/claude-3.7-sonnet": {
+        context_window: 200000,
+        min_output_tokens: 1024,
+        max_output_tokens: 64000,
+        vision: { field: "image", max_images: 1 },
+        sampling_parameters: {},
+        default_parameters: { max_tokens: 16384, max_image_resolution: 0.5 }
+    },
+    "anthropic/claude-3.5-sonnet": {
+        context_window: 200000,
+        min_output_tokens: 1024,
+        max_output_tokens: 8192,
+        vision: { field: "image", max_images: 1 },
+        sampling_parameters: {},
+        default_parameters: { max_tokens: 8192, max_image_resolution: 0.5 }
+    },
+    "anthropic/claude-3.5-haiku": {
+        context_window: 200000,
+        min_output_tokens: 1024,
+        max_output_tokens: 8192,
+        // Claude 3.5 Haiku 只接受文本输入
+        vision: { field: "image", max_images: 0 },
+        sampling_parameters: {},
+        default_parameters: { max_tokens: 8192 }
+    }
+};
+
+/**
+ * 未配置档案的模型使用的上下文窗口大小
+ */
+const DEFAULT_CONTEXT_WINDOW = 200000;
+
+/**
+ * 模型回退配置（可通过配置文件覆盖）
+ * 请求的模型在输出任何内容之前遇到 429/5xx/超时等瞬时错误且重试无效时，按顺序改用备用模型
+ */
+export const FALLBACK_CONFIG = {
+    // 请求模型名 -> 备用模型列表（请求模型名，必须在 MODEL_MAPPING 中）
+    CHAINS: {} as Record<string, string[]>,
+    // 响应中的 model 字段使用请求的模型还是实际回答的模型
+    RESPONSE_MODEL: "requested" as FallbackResponseModel
+};
+
+/**
+ * 不支持的采样参数的处理方式
+ * - warn: 忽略该参数，记录日志并在 X-Ignored-Parameters 响应头中列出（默认）
+ * - reject: 返回 400 错误
+ */
+export const SAMPLING_CONFIG = {
+    UNSUPPORTED_PARAMETERS: (Deno.env.get("UNSUPPORTED_PARAMETERS") === "reject" ? "reject" : "warn") as "warn" | "reject"
+};
+
+/**
+ * 代理服务返回的默认模型名称（可通过配置文件覆盖）
+ */
+export let PROXY_MODEL_NAME = "claude-3-7-sonnet-20250219";
 
 /**
- * 默认模型 ID
+ * 默认模型 ID（可通过配置文件覆盖）
  */
-export const DEFAULT_MODEL_ID = "claude-3-7-sonnet-20250219";
+export let DEFAULT_MODEL_ID = "claude-3-7-sonnet-20250219";
 
 /**
- * max_tokens配置
+ * max_tokens配置：未配置档案的模型使用的取值范围和默认值（可通过配置文件覆盖）
  */
 export const MAX_TOKENS_CONFIG = {
     MINIMUM: 1024,
@@ -34,21 +115,327 @@ export const MAX_TOKENS_CONFIG = {
 };
 
 /**
- * 超时配置（毫秒）
- * 设置为600秒（10分钟）超时
+ * 超时配置（毫秒，可通过配置文件覆盖）
+ * 超时后中止上游读取并取消预测
  */
 export const TIMEOUT_CONFIG = {
-    // 全局请求超时：600秒
-    REQUEST_TIMEOUT: 600000
+    // 整个请求的上游调用总时长，包括重试和备用模型（流式为读取完所有输出）：600秒
+    REQUEST_TIMEOUT: 600000,
+    // 流式调用开始到收到第一个输出：120秒
+    FIRST_TOKEN_TIMEOUT: 120000,
+    // 流式输出中两个事件之间的最长间隔：60秒
+    IDLE_TIMEOUT: 60000
+};
+
+/**
+ * 认证模式
+ * - virtual: 客户端使用代理签发的 sk- 密钥，由代理映射到服务端持有的Replicate令牌（默认）
+ * - passthrough: 客户端直接提供Replicate API密钥并原样转发
+ */
+export type AuthMode = "virtual" | "passthrough";
+
+/**
+ * 认证配置
+ */
+export const AUTH_CONFIG = {
+    // 认证模式，通过 AUTH_MODE=passthrough 启用直通模式
+    MODE: (Deno.env.get("AUTH_MODE") === "passthrough" ? "passthrough" : "virtual") as AuthMode,
+    // 虚拟密钥存储文件路径
+    KEY_STORE_PATH: Deno.env.get("KEY_STORE_PATH") || "./data/keys.json",
+    // 管理接口令牌，未设置时管理接口不可用
+    ADMIN_TOKEN: Deno.env.get("ADMIN_API_TOKEN") || "",
+    // 虚拟密钥前缀
+    KEY_PREFIX: "sk-",
+    // 未指定时使用的服务端令牌名称
+    DEFAULT_UPSTREAM_TOKEN: "default"
+};
+
+/**
+ * 获取服务端持有的Replicate令牌池
+ * REPLICATE_API_TOKEN 作为 "default" 令牌（多个令牌用逗号分隔），
+ * REPLICATE_API_TOKENS 可以用JSON对象配置更多命名令牌，值为令牌或令牌数组
+ * @returns 令牌名称 -> Replicate令牌列表（至少一个）
+ */
+export function getUpstreamTokenPools(): Record<string, string[]> {
+    const pools: Record<string, string[]> = {};
+
+    const defaultTokens = (Deno.env.get("REPLICATE_API_TOKEN") || "").split(",").map(token => token.trim()).filter(Boolean);
+    if (defaultTokens.length > 0) {
+        pools[AUTH_CONFIG.DEFAULT_UPSTREAM_TOKEN] = defaultTokens;
+    }
+
+    const namedTokens = Deno.env.get("REPLICATE_API_TOKENS");
+    if (namedTokens) {
+        try {
+            const parsed = JSON.parse(namedTokens);
+            for (const [name, value] of Object.entries(parsed)) {
+                const tokens = (Array.isArray(value) ? value : [value])
+                    .filter((token): token is string => typeof token === "string" && token.length > 0);
+                if (tokens.length > 0) {
+                    pools[name] = tokens;
+                }
+            }
+        } catch {
+            logWarn("REPLICATE_API_TOKENS 不是有效的JSON对象，已忽略");
+        }
+    }
+
+    return pools;
+}
+
+/**
+ * 获取服务端持有的Replicate令牌（令牌池中的第一个令牌，用于上游探测、模型发现和文件上传）
+ * @returns 令牌名称 -> Replicate令牌
+ */
+export function getUpstreamTokens(): Record<string, string> {
+    return Object.fromEntries(
+        Object.entries(getUpstreamTokenPools()).map(([name, tokens]) => [name, tokens[0]])
+    );
+}
+
+/**
+ * 上游密钥池的选择策略
+ * - round_robin: 依次轮换（默认）
+ * - least_loaded: 选择进行中的预测最少的密钥
+ */
+export type KeySelectionStrategy = "round_robin" | "least_loaded";
+
+/**
+ * 上游密钥池配置（虚拟密钥模式下同一令牌名称配置了多个令牌时生效）
+ */
+export const KEY_POOL_CONFIG = {
+    STRATEGY: (Deno.env.get("UPSTREAM_KEY_STRATEGY") === "least_loaded" ? "least_loaded" : "round_robin") as KeySelectionStrategy,
+    // 上游返回 401 后密钥的冷却时间（毫秒），密钥无效或被吊销时通常需要人工处理
+    AUTH_COOLDOWN_MS: parseInt(Deno.env.get("UPSTREAM_KEY_AUTH_COOLDOWN_MS") || "600000"),
+    // 上游返回 429 后密钥的冷却时间（毫秒），响应带 Retry-After 时取两者中较长的
+    RATE_LIMIT_COOLDOWN_MS: parseInt(Deno.env.get("UPSTREAM_KEY_RATE_LIMIT_COOLDOWN_MS") || "30000")
+};
+
+/**
+ * 限流配置（按API密钥统计，0 表示不限制）
+ */
+export const RATE_LIMIT_CONFIG = {
+    // 每个密钥每分钟最多请求数
+    REQUESTS_PER_MINUTE: parseInt(Deno.env.get("RATE_LIMIT_RPM") || "60"),
+    // 每个密钥每分钟最多token数（输入+输出）
+    TOKENS_PER_MINUTE: parseInt(Deno.env.get("RATE_LIMIT_TPM") || "200000"),
+    // 内存中最多跟踪的密钥数量，超过后清理空闲的令牌桶
+    MAX_TRACKED_KEYS: 10000
+};
+
+/**
+ * 上游重试配置
+ */
+export const RETRY_CONFIG = {
+    // 最多尝试次数（包含第一次）
+    MAX_ATTEMPTS: Math.max(1, parseInt(Deno.env.get("UPSTREAM_MAX_ATTEMPTS") || "3")),
+    // 指数退避的基础等待时间
+    BASE_DELAY_MS: parseInt(Deno.env.get("UPSTREAM_RETRY_BASE_DELAY_MS") || "500"),
+    // 单次最长退避时间
+    MAX_DELAY_MS: 8000,
+    // 遵循 Retry-After 时的最长等待时间
+    MAX_RETRY_AFTER_MS: 30000,
+    // 可重试的HTTP状态码
+    RETRYABLE_STATUS: [429, 500, 502, 503, 504]
+};
+
+/**
+ * 上游后端
+ * - replicate: 按模型映射调用各提供方的API（默认）
+ * - fake: 进程内模拟的 Replicate，替代所有提供方，按脚本返回输出、延迟与错误（用于测试和离线开发）
+ */
+export type UpstreamBackendName = "replicate" | "fake";
+
+/**
+ * 上游后端配置
+ */
+export const UPSTREAM_CONFIG = {
+    BACKEND: (Deno.env.get("UPSTREAM_BACKEND") === "fake" ? "fake" : "replicate") as UpstreamBackendName
+};
+
+/**
+ * 模型发现配置
+ */
+export const MODEL_DISCOVERY_CONFIG = {
+    // 通过 MODEL_DISCOVERY=true 启用：定期从Replicate查询模型，与模型映射合并后出现在 /v1/models 中并可直接请求
+    ENABLED: Deno.env.get("MODEL_DISCOVERY") === "true",
+    // Replicate API 地址，可以指向返回相同格式的本地替身服务
+    BASE_URL: (Deno.env.get("MODEL_DISCOVERY_BASE_URL") || "https://api.replicate.com/v1").replace(/\/+$/, ""),
+    // 查询的模型集合（collections API）
+    COLLECTION: Deno.env.get("MODEL_DISCOVERY_COLLECTION") || "language-models",
+    // 只保留这些所有者的模型（逗号分隔，为空时不过滤）
+    OWNERS: (Deno.env.get("MODEL_DISCOVERY_OWNERS") ?? "anthropic").split(",").map(owner => owner.trim()).filter(Boolean),
+    // 刷新间隔（毫秒）
+    INTERVAL_MS: parseInt(Deno.env.get("MODEL_DISCOVERY_INTERVAL_MS") || "3600000"),
+    // 单次查询的超时时间（毫秒）
+    TIMEOUT_MS: parseInt(Deno.env.get("MODEL_DISCOVERY_TIMEOUT_MS") || "10000"),
+    // 查询使用的服务端令牌名称（见 getUpstreamTokens）
+    TOKEN: Deno.env.get("MODEL_DISCOVERY_TOKEN") || "default"
+};
+
+/**
+ * 模型发现得到的模型：模型ID -> 模型（由 model-discovery.ts 更新，模型映射中已有的模型ID以映射为准）
+ */
+export const DISCOVERED_MODELS: Record<string, DiscoveredModel> = {};
+
+/**
+ * 上游提供方：提供方名称 -> 配置（可通过配置文件添加或覆盖，replicate 除外）
+ * 模型映射的目标写作 "提供方名称:模型名" 时由该提供方处理，例如 "anthropic:claude-sonnet-4-20250514"；
+ * 其他目标为 Replicate 模型名
+ */
+export const UPSTREAM_PROVIDERS: Record<string, UpstreamProvider> = {
+    replicate: { type: "replicate" },
+    anthropic: {
+        type: "anthropic",
+        base_url: Deno.env.get("ANTHROPIC_BASE_URL") || "https://api.anthropic.com",
+        api_key_env: "ANTHROPIC_API_KEY"
+    },
+    openai: {
+        type: "openai",
+        base_url: Deno.env.get("OPENAI_BASE_URL") || "https://api.openai.com/v1",
+        api_key_env: "OPENAI_API_KEY"
+    }
+};
+
+/**
+ * 带提供方名称的模型映射目标（提供方名称不含 "/"，以区分 Replicate 的 owner/model:version）
+ */
+const PROVIDER_TARGET_PATTERN = /^([\w-]+):(.+)$/;
+
+/**
+ * Replicate 部署目标：deployments/owner/name
+ */
+const DEPLOYMENT_TARGET_PATTERN = /^deployments\/([\w.-]+\/[\w.-]+)$/;
+
+/**
+ * 其他提供方支持的采样参数：OpenAI 参数名 -> 模型输入字段
+ * stop 仍在本地截断（模型输入中的停止序列是逗号拼接的字符串）
+ */
+const PROVIDER_SAMPLING_PARAMETERS: Record<Exclude<UpstreamProviderType, "replicate">, SamplingParameterMapping> = {
+    anthropic: { temperature: "temperature", top_p: "top_p", top_k: "top_k" },
+    openai: {
+        temperature: "temperature",
+        top_p: "top_p",
+        seed: "seed",
+        presence_penalty: "presence_penalty",
+        frequency_penalty: "frequency_penalty"
+    }
+};
+
+/**
+ * 其他提供方的模型默认接受的图片数量
+ */
+const PROVIDER_MAX_IMAGES = 20;
+
+/**
+ * 图片文件存储后端
+ * - replicate: 通过 Replicate Files API 上传（默认）
+ * - local: 由代理自身的 /files 路由在内存中托管（适用于测试和可以被上游访问的自托管部署）
+ */
+export type FileStoreBackend = "replicate" | "local";
+
+/**
+ * 图片文件存储配置
+ */
+export const FILE_STORE_CONFIG = {
+    BACKEND: (Deno.env.get("FILE_STORE") === "local" ? "local" : "replicate") as FileStoreBackend,
+    // local 后端生成文件URL时使用的对外地址
+    PUBLIC_BASE_URL: Deno.env.get("PUBLIC_BASE_URL") || `http://localhost:${Deno.env.get("PORT") || "8000"}`,
+    // 单张图片解码后的最大字节数
+    MAX_IMAGE_BYTES: parseInt(Deno.env.get("MAX_IMAGE_BYTES") || String(10 * 1024 * 1024)),
+    // 允许的图片MIME类型
+    ALLOWED_IMAGE_TYPES: ["image/png", "image/jpeg", "image/gif", "image/webp"],
+    // 内容哈希 -> 文件URL 缓存的最大条目数
+    CACHE_MAX_ENTRIES: 500,
+    // local 后端在内存中最多保留的文件数量
+    LOCAL_MAX_FILES: 200
+};
+
+/**
+ * 就绪检查配置
+ */
+export const HEALTH_CONFIG = {
+    // 用于探测Replicate连通性的服务端令牌名称（见 getUpstreamTokens），未设置时不探测上游；
+    // 使用模拟上游或没有模型由 Replicate 处理时也不探测
+    PROBE_TOKEN: Deno.env.get("READINESS_PROBE_TOKEN") || "",
+    // 探测结果的缓存时间，避免频繁的就绪检查打满上游
+    PROBE_CACHE_MS: parseInt(Deno.env.get("READINESS_PROBE_CACHE_MS") || "30000"),
+    // 单次探测的超时时间
+    PROBE_TIMEOUT_MS: parseInt(Deno.env.get("READINESS_PROBE_TIMEOUT_MS") || "5000")
+};
+
+/**
+ * 日志配置
+ * LOG_SINKS 为逗号分隔的输出目标：stdout（默认）、file（按大小轮转的文件）、http（批量POST到日志收集器）
+ */
+export const LOG_CONFIG = {
+    // 最低输出级别：debug、info（默认）、warn、error
+    LEVEL: (Deno.env.get("LOG_LEVEL") || "info").toLowerCase() as LogLevel,
+    // 标准输出格式：json（默认，每行一个JSON对象）或 text（便于本地阅读）
+    FORMAT: (Deno.env.get("LOG_FORMAT") === "text" ? "text" : "json") as "json" | "text",
+    SINKS: (Deno.env.get("LOG_SINKS") || "stdout").split(",").map(sink => sink.trim()).filter(Boolean),
+    // file 输出的文件路径，写满 FILE_MAX_BYTES 后轮转为 .1、.2 ...
+    FILE_PATH: Deno.env.get("LOG_FILE") || "./data/proxy.log",
+    FILE_MAX_BYTES: parseInt(Deno.env.get("LOG_FILE_MAX_BYTES") || String(10 * 1024 * 1024)),
+    FILE_MAX_FILES: parseInt(Deno.env.get("LOG_FILE_MAX_FILES") || "5"),
+    // http 输出的收集器地址，日志以JSON数组批量POST
+    HTTP_URL: Deno.env.get("LOG_HTTP_URL") || "",
+    HTTP_BATCH_SIZE: 100,
+    HTTP_FLUSH_INTERVAL_MS: 2000,
+    // 收集器不可用时最多缓存的日志条数，超出后丢弃最早的日志
+    HTTP_MAX_BUFFER: 5000
+};
+
+/**
+ * OTLP 追踪导出地址：OTEL_EXPORTER_OTLP_TRACES_ENDPOINT 为完整地址，
+ * OTEL_EXPORTER_OTLP_ENDPOINT 为收集器根地址（自动追加 /v1/traces）
+ */
+const OTLP_ENDPOINT = Deno.env.get("OTEL_EXPORTER_OTLP_ENDPOINT")?.replace(/\/+$/, "");
+
+/**
+ * 追踪配置（OpenTelemetry，OTLP/HTTP JSON 导出），未配置导出地址时不导出
+ */
+export const TRACING_CONFIG = {
+    TRACES_URL: Deno.env.get("OTEL_EXPORTER_OTLP_TRACES_ENDPOINT") || (OTLP_ENDPOINT ? `${OTLP_ENDPOINT}/v1/traces` : ""),
+    // 导出请求附带的请求头，格式: key1=value1,key2=value2
+    // 在创建导出器时解析（见 tracing.ts 的 parseOtlpHeaders），无效条目不会影响启动
+    HEADERS: Deno.env.get("OTEL_EXPORTER_OTLP_HEADERS") || "",
+    SERVICE_NAME: Deno.env.get("OTEL_SERVICE_NAME") || "replicate-proxy",
+    BATCH_SIZE: 200,
+    FLUSH_INTERVAL_MS: 2000,
+    // 收集器不可用时最多缓存的span数量，超出后丢弃最早的span
+    MAX_BUFFER: 5000
+};
+
+/**
+ * 优雅关闭配置
+ */
+export const SHUTDOWN_CONFIG = {
+    // 收到终止信号后等待进行中的流式响应完成的最长时间，超时后终止剩余的流
+    DRAIN_TIMEOUT_MS: parseInt(Deno.env.get("SHUTDOWN_DRAIN_TIMEOUT_MS") || "30000"),
+    // 终止剩余的流之后等待连接关闭的时间
+    FORCE_CLOSE_GRACE_MS: 1000
 };
 
 /**
  * 初始化 Replicate 客户端
  * @param apiKey 用户提供的API密钥
+ * @param getTraceparent 返回当前 traceparent 的函数（可选），上游请求将附带该请求头
  */
-export const initReplicate = (apiKey: string): Replicate => {
+export const initReplicate = (apiKey: string, getTraceparent?: () => string | null): Replicate => {
     return new Replicate({
         auth: apiKey,
+        ...(getTraceparent ? {
+            fetch: (input: string | URL | Request, init?: RequestInit) => {
+                const traceparent = getTraceparent();
+                if (!traceparent) {
+                    return fetch(input, init);
+                }
+                const headers = new Headers(init?.headers);
+                headers.set("traceparent", traceparent);
+                return fetch(input, { ...init, headers });
+            }
+        } : {})
     });
 };
 
@@ -57,17 +444,25 @@ export const initReplicate = (apiKey: string): Replicate => {
  */
 export const API_PATHS = {
     MODELS: "/v1/models",
-    CHAT_COMPLETIONS: "/v1/chat/completions"
+    CHAT_COMPLETIONS: "/v1/chat/completions",
+    MESSAGES: "/v1/messages",
+    ADMIN_KEYS: "/admin/keys",
+    ADMIN_UPSTREAM_KEYS: "/admin/upstream-keys",
+    FILES: "/files",
+    METRICS: "/metrics",
+    HEALTHZ: "/healthz",
+    READYZ: "/readyz"
 };
 
 /**
- * 响应头配置
+ * 响应头配置（可通过配置文件覆盖）
  */
-export const CORS_HEADERS = {
+export const CORS_HEADERS: Record<string, string> = {
     "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Methods": "POST, OPTIONS, GET",
-    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Methods": "POST, OPTIONS, GET, DELETE",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization, x-api-key, anthropic-version, anthropic-beta, X-Request-Id, traceparent",
     "Access-Control-Max-Age": "86400",
+    "Access-Control-Expose-Headers": "x-ratelimit-limit-requests, x-ratelimit-remaining-requests, x-ratelimit-reset-requests, x-ratelimit-limit-tokens, x-ratelimit-remaining-tokens, x-ratelimit-reset-tokens, Retry-After, X-Upstream-Attempts, X-Ignored-Parameters, X-Answering-Model, X-Request-Id",
 };
 
 /**
@@ -76,47 +471,168 @@ export const CORS_HEADERS = {
 export const ERROR_CODES = {
     MISSING_AUTH_HEADER: "missing_or_invalid_header",
     INVALID_AUTH_KEY: "invalid_auth_key",
+    REVOKED_AUTH_KEY: "revoked_api_key",
+    ADMIN_UNAUTHORIZED: "admin_unauthorized",
+    UPSTREAM_TOKEN_MISSING: "upstream_token_not_configured",
+    RATE_LIMIT_EXCEEDED: "rate_limit_exceeded",
+    REQUEST_TOO_LARGE: "request_too_large",
     INVALID_JSON: "invalid_json",
     INVALID_MESSAGES: "invalid_messages",
+    INVALID_TOOLS: "invalid_tools",
+    TOO_MANY_IMAGES: "too_many_images",
+    INVALID_IMAGE: "invalid_image",
+    INVALID_PARAMETER: "invalid_parameter",
+    UNSUPPORTED_PARAMETER: "unsupported_parameter",
+    CONTEXT_LENGTH_EXCEEDED: "context_length_exceeded",
     API_ERROR: "api_error",
     INTERNAL_ERROR: "internal_error",
-    TIMEOUT_ERROR: "request_timeout"
+    TIMEOUT_ERROR: "request_timeout",
+    FIRST_TOKEN_TIMEOUT: "first_token_timeout",
+    STREAM_IDLE_TIMEOUT: "stream_idle_timeout",
+    SERVER_SHUTTING_DOWN: "server_shutting_down"
 };
 
+/**
+ * 获取请求模型对应的模型映射目标（配置的模型映射优先，其次是模型发现得到的模型）
+ * @param requestModel - 请求中的模型名称
+ * @returns 模型映射的目标，不支持的模型返回undefined
+ */
+export function resolveModelTarget(requestModel: string): string | undefined {
+    return MODEL_MAPPING[requestModel] || (DISCOVERED_MODELS[requestModel] ? requestModel : undefined);
+}
+
 /**
  * 根据模型映射获取实际的Replicate模型ID
  * @param requestModel - 请求中的模型名称
  * @returns 实际的Replicate模型ID
  */
 export function getActualModelId(requestModel: string): string {
-    return MODEL_MAPPING[requestModel] || MODEL_MAPPING[DEFAULT_MODEL_ID];
+    return resolveModelTarget(requestModel) || MODEL_MAPPING[DEFAULT_MODEL_ID];
 }
 
 /**
- * 验证max_tokens参数并返回规范化的值
- * @param maxTokens - 用户请求的max_tokens
- * @returns 规范化后的max_tokens值
+ * 解析模型映射目标
+ * @param target - 模型映射的目标（Replicate 模型名或 "提供方名称:模型名"）
+ * @param providers - 提供方配置（默认为当前配置）
+ * @returns 提供方名称、模型名，以及 Replicate 模型版本或部署
  */
-export function validateMaxTokens(maxTokens?: number): number {
-    if (!maxTokens || maxTokens < MAX_TOKENS_CONFIG.MINIMUM) {
-        return MAX_TOKENS_CONFIG.DEFAULT;
+export function parseModelTarget(target: string, providers: Record<string, UpstreamProvider> = UPSTREAM_PROVIDERS): ModelTarget {
+    const match = target.match(PROVIDER_TARGET_PATTERN);
+    const [provider, modelId] = match ? [match[1], match[2]] : ["replicate", target];
+    if (providers[provider]?.type !== "replicate") {
+        return { provider, model: modelId };
     }
-    if (maxTokens > MAX_TOKENS_CONFIG.MAXIMUM) {
-        return MAX_TOKENS_CONFIG.MAXIMUM;
+    const deployment = modelId.match(DEPLOYMENT_TARGET_PATTERN);
+    if (deployment) {
+        return { provider, model: modelId, deployment: deployment[1] };
     }
-    return maxTokens;
+    const [model, version] = modelId.split(":");
+    return version ? { provider, model, version } : { provider, model };
+}
+
+/**
+ * 获取模型映射目标的提供方类型
+ * @param target - 模型映射的目标
+ * @param providers - 提供方配置（默认为当前配置）
+ * @returns 提供方类型，提供方不存在时返回undefined
+ */
+export function getProviderType(
+    target: string,
+    providers: Record<string, UpstreamProvider> = UPSTREAM_PROVIDERS
+): UpstreamProviderType | undefined {
+    return providers[parseModelTarget(target, providers).provider]?.type;
+}
+
+/**
+ * 获取请求模型的备用模型列表（不包含请求的模型本身）
+ * @param requestModel - 请求中的模型名称
+ * @returns 按顺序尝试的备用模型
+ */
+export function getFallbackChain(requestModel: string): string[] {
+    return (FALLBACK_CONFIG.CHAINS[requestModel] || [])
+        .filter(modelId => modelId !== requestModel && resolveModelTarget(modelId));
+}
+
+/**
+ * 获取模型档案，未配置档案的模型使用由 MAX_TOKENS_CONFIG 生成的默认档案
+ * @param actualModelId - 模型映射的目标
+ * @returns 模型档案
+ */
+export function getModelProfile(actualModelId: string): ModelProfile {
+    return findModelProfile(actualModelId, MODEL_PROFILES) ||
+        createDefaultModelProfile(MAX_TOKENS_CONFIG, getProviderType(actualModelId));
 }
 
 /**
- * 模型配置 - 返回映射后的模型列表
+ * 查找模型映射目标的档案，固定版本的模型没有单独配置档案时使用该模型的档案
+ * @param target - 模型映射的目标
+ * @param profiles - 模型档案
+ * @param providers - 提供方配置（默认为当前配置）
+ * @returns 模型档案，未配置时返回undefined
  */
-export const MODELS = Object.keys(MODEL_MAPPING)
-    .filter(modelId => !modelId.startsWith("anthropic/")) // 过滤掉兼容格式，只显示新格式
-    .map(modelId => ({
+export function findModelProfile(
+    target: string,
+    profiles: Record<string, ModelProfile>,
+    providers: Record<string, UpstreamProvider> = UPSTREAM_PROVIDERS
+): ModelProfile | undefined {
+    const { model, version } = parseModelTarget(target, providers);
+    return profiles[target] || (version ? profiles[model] : undefined);
+}
+
+/**
+ * 生成默认模型档案
+ * @param maxTokens - max_tokens 的取值范围和默认值
+ * @param providerType - 提供方类型（默认 replicate）
+ * @returns 模型档案
+ */
+export function createDefaultModelProfile(
+    maxTokens: RuntimeConfig["maxTokens"],
+    providerType: UpstreamProviderType = "replicate"
+): ModelProfile {
+    if (providerType !== "replicate") {
+        // 其他提供方直接接收采样参数与多张图片，max_tokens 没有 Replicate 的下限
+        return {
+            context_window: DEFAULT_CONTEXT_WINDOW,
+            min_output_tokens: 1,
+            max_output_tokens: maxTokens.MAXIMUM,
+            vision: { field: "image_input", max_images: PROVIDER_MAX_IMAGES },
+            sampling_parameters: { ...PROVIDER_SAMPLING_PARAMETERS[providerType] },
+            default_parameters: { max_tokens: maxTokens.DEFAULT }
+        };
+    }
+    return {
+        context_window: DEFAULT_CONTEXT_WINDOW,
+        min_output_tokens: maxTokens.MINIMUM,
+        max_output_tokens: maxTokens.MAXIMUM,
+        vision: { field: "image", max_images: 1 },
+        sampling_parameters: {},
+        default_parameters: { max_tokens: maxTokens.DEFAULT, max_image_resolution: 0.5 }
+    };
+}
+
+/**
+ * 生成模型列表中的一项
+ * @param modelId - 模型ID
+ * @param target - 模型映射的目标
+ * @param created - 创建时间（Unix 秒）
+ * @param ownedBy - 所有者
+ */
+function createModelEntry(modelId: string, target: string, created = 0, ownedBy = "anthropic") {
+    const profile = getModelProfile(target);
+    return {
         id: modelId,
         object: "model",
-        created: 0,
-        owned_by: "anthropic",
+        created,
+        owned_by: ownedBy,
+        // 请求该模型时实际调用的上游（固定版本或部署时包含 version / deployment）
+        upstream: { target, ...parseModelTarget(target) },
+        context_window: profile.context_window,
+        max_output_tokens: profile.max_output_tokens,
+        capabilities: {
+            vision: profile.vision.max_images > 0,
+            max_images: profile.vision.max_images,
+            sampling_parameters: Object.keys(profile.sampling_parameters)
+        },
         permission: [{
             id: `modelperm-${modelId}`,
             object: "model_permission",
@@ -133,4 +649,107 @@ export const MODELS = Object.keys(MODEL_MAPPING)
         }],
         root: modelId,
         parent: null,
-    }));
\ No newline at end of file
+    };
+}
+
+/**
+ * 根据当前模型映射和模型发现得到的模型生成模型列表
+ * 模型映射中已有或已被某个模型映射指向的发现模型不重复列出
+ */
+function buildModelList() {
+    const configured = Object.keys(MODEL_MAPPING)
+        .filter(modelId => !modelId.startsWith("anthropic/")) // 过滤掉兼容格式，只显示新格式
+        .map(modelId => createModelEntry(modelId, MODEL_MAPPING[modelId]));
+    const targets = new Set(Object.values(MODEL_MAPPING).map(target => parseModelTarget(target).model));
+    const discovered = Object.values(DISCOVERED_MODELS)
+        .filter(model => !MODEL_MAPPING[model.id] && !targets.has(model.id))
+        .map(model => createModelEntry(model.id, model.id, model.created, model.owner));
+    return [...configured, ...discovered];
+}
+
+/**
+ * 模型配置 - 返回映射后的模型列表（重新加载配置或刷新发现的模型后原地更新）
+ */
+export const MODELS = buildModelList();
+
+/**
+ * 获取单个模型的信息
+ * 未出现在列表中但可以请求的模型（如兼容格式的模型名）同样返回
+ * @param modelId - 模型ID
+ * @returns 模型信息，不支持的模型返回undefined
+ */
+export function getModelInfo(modelId: string): typeof MODELS[number] | undefined {
+    const listed = MODELS.find(model => model.id === modelId);
+    if (listed) {
+        return listed;
+    }
+    const target = resolveModelTarget(modelId);
+    return target ? createModelEntry(modelId, target) : undefined;
+}
+
+/**
+ * 替换模型发现得到的模型并更新模型列表
+ * @param models - 发现的模型
+ */
+export function setDiscoveredModels(models: DiscoveredModel[]): void {
+    replaceEntries(DISCOVERED_MODELS, Object.fromEntries(models.map(model => [model.id, model])));
+    MODELS.splice(0, MODELS.length, ...buildModelList());
+}
+
+/**
+ * 内置的默认配置（配置文件中未提供的部分使用这些值）
+ */
+const BUILTIN_RUNTIME_CONFIG: RuntimeConfig = structuredClone({
+    modelMapping: MODEL_MAPPING,
+    defaultModel: DEFAULT_MODEL_ID,
+    maxTokens: MAX_TOKENS_CONFIG,
+    requestTimeout: TIMEOUT_CONFIG.REQUEST_TIMEOUT,
+    firstTokenTimeout: TIMEOUT_CONFIG.FIRST_TOKEN_TIMEOUT,
+    idleTimeout: TIMEOUT_CONFIG.IDLE_TIMEOUT,
+    corsHeaders: CORS_HEADERS,
+    modelProfiles: MODEL_PROFILES,
+    fallbackChains: FALLBACK_CONFIG.CHAINS,
+    fallbackResponseModel: FALLBACK_CONFIG.RESPONSE_MODEL,
+    providers: UPSTREAM_PROVIDERS
+});
+
+/**
+ * 获取内置的默认配置
+ * @returns 默认配置的副本
+ */
+export function getBuiltinRuntimeConfig(): RuntimeConfig {
+    return structuredClone(BUILTIN_RUNTIME_CONFIG);
+}
+
+/**
+ * 用新配置替换当前配置
+ * 所有字段同步地原地更新：进行中的请求已经读取的值不受影响，之后的读取都会得到新配置
+ * @param config - 已通过校验的配置
+ */
+export function applyRuntimeConfig(config: RuntimeConfig): void {
+    replaceEntries(MODEL_MAPPING, config.modelMapping);
+    PROXY_MODEL_NAME = config.defaultModel;
+    DEFAULT_MODEL_ID = config.defaultModel;
+    Object.assign(MAX_TOKENS_CONFIG, config.maxTokens);
+    TIMEOUT_CONFIG.REQUEST_TIMEOUT = config.requestTimeout;
+    TIMEOUT_CONFIG.FIRST_TOKEN_TIMEOUT = config.firstTokenTimeout;
+    TIMEOUT_CONFIG.IDLE_TIMEOUT = config.idleTimeout;
+    replaceEntries(CORS_HEADERS, config.corsHeaders);
+    replaceEntries(MODEL_PROFILES, config.modelProfiles);
+    replaceEntries(FALLBACK_CONFIG.CHAINS, config.fallbackChains);
+    FALLBACK_CONFIG.RESPONSE_MODEL = config.fallbackResponseModel;
+    replaceEntries(UPSTREAM_PROVIDERS, config.providers);
+    MODELS.splice(0, MODELS.length, ...buildModelList());
+}
+
+/**
+ * 原地替换对象的全部键值
+ * @param target - 被替换的对象
+ * @param source - 新的键值
+ */
+function replaceEntries<T>(target: Record<string, T>, source: Record<string, T>): void {
+    for (const key of Object.keys(target)) {
+        delete target[key];
+    }
+    Object.assign(target, source);
+}
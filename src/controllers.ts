@@ -1,24 +1,89 @@
 import { 
     createSSEChunk, 
+    createUsageChunk,
+    createToolCallChunk,
     createErrorResponse, 
     createAuthErrorResponse, 
     createTimeoutErrorResponse, 
-    withTimeout, 
     logError,
     // 使用新的安全日志函数
-    generateRequestId,
-    logRequestStart,
     logRequestMetadata,
     logApiCallStart,
     logApiCallComplete,
-    logResponseComplete,
     logStreamProgress,
-    logSystem
+    logRequestEvent
 } from "./utils.ts";
-import { API_PATHS, CORS_HEADERS, ERROR_CODES, MODELS, PROXY_MODEL_NAME, MODEL_MAPPING, TIMEOUT_CONFIG } from "./config.ts";
-import { processMessages, buildModelInput } from "./message-processor.ts";
-import { createApiService, ReplicateError } from "./api-service.ts";
-import { RequestBody, ChatCompletion, ModelInput } from "./types.ts";
+import {
+    API_PATHS,
+    AUTH_CONFIG,
+    CORS_HEADERS,
+    ERROR_CODES,
+    FILE_STORE_CONFIG,
+    MODELS,
+    PROXY_MODEL_NAME,
+    MODEL_MAPPING,
+    TIMEOUT_CONFIG,
+    SAMPLING_CONFIG,
+    getModelProfile,
+    getModelInfo,
+    resolveModelTarget,
+    FALLBACK_CONFIG,
+    getUpstreamTokens,
+    parseModelTarget
+} from "./config.ts";
+import {
+    processMessages,
+    buildModelInput,
+    checkContextWindow,
+    checkImageSupport,
+    checkMaxTokens
+} from "./message-processor.ts";
+import { createApiService, ApiService, ReplicateError } from "./api-service.ts";
+import {
+    RequestBody,
+    ChatCompletion,
+    ModelInput,
+    AnthropicMessagesRequest,
+    AuthContext,
+    RateLimits,
+    TokenUsage,
+    ToolCall,
+    ModelProfile,
+    RequestContext
+} from "./types.ts";
+import { getKeyStore, sha256Hex } from "./key-store.ts";
+import { handleAdminKeysRequest, handleAdminUpstreamKeysRequest } from "./admin-controllers.ts";
+import { createRequestContext } from "./request-context.ts";
+import { getTracer } from "./tracing.ts";
+import {
+    convertAnthropicRequest,
+    generateMessageId,
+    createAnthropicMessage,
+    createAnthropicSSEEvent,
+    createAnthropicError,
+    createAnthropicErrorResponse,
+    toAnthropicErrorResponse
+} from "./anthropic-format.ts";
+import { StopSequenceDetector, applyStopSequences } from "./stop-sequences.ts";
+import { calculateUsage, estimateInputTokens } from "./usage.ts";
+import { SamplingResult, applySamplingParameters, validateSamplingParameters } from "./sampling.ts";
+import { InvalidImageError, getLocalFileHost } from "./file-store.ts";
+import {
+    ToolCallStreamParser,
+    isToolCallingEnabled,
+    parseToolCalls,
+    toToolCallDeltas,
+    validateTools
+} from "./tool-calls.ts";
+import {
+    getRateLimiter,
+    resolveRateLimits,
+    applyRateLimitHeaders,
+    createRateLimitExceededResponse
+} from "./rate-limiter.ts";
+import { getMetrics } from "./metrics.ts";
+import { UpstreamTimeoutError } from "./timeouts.ts";
+import { getHealthMonitor } from "./health.ts";
 
 /**
  * 处理CORS预检请求
@@ -51,6 +116,76 @@ export function handleModelsRequest(): Response {
     );
 }
 
+/**
+ * 处理获取单个模型请求
+ * @param modelId - 模型ID（可以包含 "/"，如 anthropic/claude-4-sonnet）
+ * @returns 模型信息响应，不支持的模型返回404
+ */
+export function handleRetrieveModelRequest(modelId: string): Response {
+    const model = getModelInfo(modelId);
+    if (!model) {
+        return createErrorResponse(
+            `The model '${modelId}' does not exist`,
+            404,
+            "invalid_request_error",
+            "model_not_found"
+        );
+    }
+
+    return new Response(JSON.stringify(model), {
+        status: 200,
+        headers: {
+            "Content-Type": "application/json",
+            ...CORS_HEADERS,
+        },
+    });
+}
+
+/**
+ * 处理获取运行指标请求（Prometheus 文本格式）
+ * @returns 指标响应
+ */
+export function handleMetricsRequest(): Response {
+    return new Response(getMetrics().render(), {
+        status: 200,
+        headers: {
+            "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+            ...CORS_HEADERS,
+        },
+    });
+}
+
+/**
+ * 处理存活检查请求（进程可以响应即为存活）
+ * @returns 存活检查响应
+ */
+export function handleHealthzRequest(): Response {
+    return new Response(JSON.stringify({ status: "ok" }), {
+        status: 200,
+        headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": "no-store",
+            ...CORS_HEADERS
+        },
+    });
+}
+
+/**
+ * 处理就绪检查请求（关闭中或上游探测失败时返回503）
+ * @returns 就绪检查响应
+ */
+export async function handleReadyzRequest(): Promise<Response> {
+    const report = await getHealthMonitor().checkReadiness();
+    return new Response(JSON.stringify(report), {
+        status: report.status === "ready" ? 200 : 503,
+        headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": "no-store",
+            ...CORS_HEADERS
+        },
+    });
+}
+
 /**
  * 处理路径不匹配的请求
  * @returns 404错误响应
@@ -65,7 +200,7 @@ export function handleNotFoundRequest(): Response {
 }
 
 /**
- * 验证并提取Replicate API密钥
+ * 验证并提取客户端提供的API密钥（直通模式下为Replicate API密钥，虚拟密钥模式下为代理签发的密钥）
  * @param authHeader - Authorization头部值
  * @param requestId - 请求ID
  * @returns 验证结果: { isValid: boolean, apiKey?: string, response?: Response }
@@ -75,13 +210,15 @@ export function validateAndExtractApiKey(authHeader: string | null, requestId: s
     apiKey?: string;
     response?: Response;
 } {
+    const keyDescription = AUTH_CONFIG.MODE === "passthrough" ? "YOUR_REPLICATE_API_KEY" : "YOUR_PROXY_API_KEY";
+
     // 检查Authorization头部是否存在且格式正确
     if (!authHeader || !authHeader.toLowerCase().startsWith("bearer ")) {
-        logSystem(`${requestId} 认证失败: 缺少或格式错误的 Authorization header`);
+        logRequestEvent(requestId, "auth", `认证失败: 缺少或格式错误的 Authorization header`);
         return {
             isValid: false,
             response: createAuthErrorResponse(
-                "Unauthorized: Missing or invalid Authorization header. Use 'Bearer <YOUR_REPLICATE_API_KEY>' format.",
+                `Unauthorized: Missing or invalid Authorization header. Use 'Bearer <${keyDescription}>' format.`,
                 ERROR_CODES.MISSING_AUTH_HEADER
             )
         };
@@ -92,37 +229,121 @@ export function validateAndExtractApiKey(authHeader: string | null, requestId: s
     
     // 基本验证API密钥格式（Replicate API密钥通常以r8_开头）
     if (!apiKey || apiKey.length < 10) {
-        logSystem(`${requestId} 认证失败: 无效的 Replicate API Key格式`);
+        logRequestEvent(requestId, "auth", `认证失败: 无效的API Key格式`);
         return {
             isValid: false,
             response: createAuthErrorResponse(
-                "Unauthorized: Invalid Replicate API Key provided.",
+                AUTH_CONFIG.MODE === "passthrough"
+                    ? "Unauthorized: Invalid Replicate API Key provided."
+                    : "Unauthorized: Invalid API Key provided.",
                 ERROR_CODES.INVALID_AUTH_KEY
             )
         };
     }
 
-    logSystem(`${requestId} API密钥验证成功`);
+    logRequestEvent(requestId, "auth", `API密钥格式验证成功`);
     return { isValid: true, apiKey };
 }
 
+/**
+ * 认证请求并解析出转发给Replicate的API密钥
+ * 虚拟密钥模式下在密钥存储中查找代理签发的密钥，并映射到服务端持有的Replicate令牌；
+ * 直通模式下直接转发客户端提供的密钥
+ * @param authHeader - Authorization头部值
+ * @param requestId - 请求ID
+ * @returns 认证结果: { isValid: boolean, auth?: AuthContext, response?: Response }
+ */
+export async function authenticateRequest(authHeader: string | null, requestId: string): Promise<{
+    isValid: boolean;
+    auth?: AuthContext;
+    response?: Response;
+}> {
+    const keyValidation = validateAndExtractApiKey(authHeader, requestId);
+    if (!keyValidation.isValid) {
+        return { isValid: false, response: keyValidation.response };
+    }
+
+    const clientKey = keyValidation.apiKey!;
+
+    // 直通模式：原样转发客户端密钥，使用密钥指纹作为调用方标识
+    if (AUTH_CONFIG.MODE === "passthrough") {
+        const fingerprint = (await sha256Hex(clientKey)).substring(0, 12);
+        return {
+            isValid: true,
+            auth: { apiKey: clientKey, keyId: `passthrough_${fingerprint}`, mode: "passthrough" }
+        };
+    }
+
+    // 虚拟密钥模式：查找代理签发的密钥
+    const record = await getKeyStore().resolve(clientKey);
+    if (!record) {
+        logRequestEvent(requestId, "auth", `认证失败: 未知的虚拟密钥`);
+        return {
+            isValid: false,
+            response: createAuthErrorResponse(
+                "Unauthorized: Invalid API Key provided.",
+                ERROR_CODES.INVALID_AUTH_KEY
+            )
+        };
+    }
+
+    if (record.revoked_at !== null) {
+        logRequestEvent(requestId, "auth", `认证失败: 虚拟密钥已吊销 ${record.id}`);
+        return {
+            isValid: false,
+            response: createAuthErrorResponse(
+                "Unauthorized: This API Key has been revoked.",
+                ERROR_CODES.REVOKED_AUTH_KEY
+            )
+        };
+    }
+
+    const upstreamApiKey = getUpstreamTokens()[record.upstream_token];
+    if (!upstreamApiKey) {
+        logError("虚拟密钥映射的服务端令牌未配置", new Error(record.upstream_token), requestId);
+        return {
+            isValid: false,
+            response: createErrorResponse(
+                "The upstream credentials for this API Key are not configured on the server.",
+                500,
+                "internal_error",
+                ERROR_CODES.UPSTREAM_TOKEN_MISSING
+            )
+        };
+    }
+
+    logRequestEvent(requestId, "auth", `虚拟密钥认证成功: ${record.id} -> ${record.upstream_token}`);
+    return {
+        isValid: true,
+        auth: {
+            apiKey: upstreamApiKey,
+            keyId: record.id,
+            mode: "virtual",
+            rateLimits: record.rate_limits,
+            upstreamToken: record.upstream_token
+        }
+    };
+}
+
 /**
  * 验证请求的模型是否支持
  * @param requestModel - 请求的模型名称
  * @param requestId - 请求ID
- * @returns 验证结果
+ * @returns 验证结果（通过时包含模型档案）
  */
 function validateRequestModel(requestModel?: string, requestId?: string): {
     isValid: boolean;
     modelName: string;
+    profile?: ModelProfile;
     response?: Response;
 } {
     const modelName = requestModel || PROXY_MODEL_NAME;
     
-    // 检查模型是否在映射列表中
-    if (!MODEL_MAPPING[modelName]) {
+    // 检查模型是否在映射列表或发现的模型中
+    const target = resolveModelTarget(modelName);
+    if (!target) {
         if (requestId) {
-            logSystem(`${requestId} 不支持的模型: ${modelName}`);
+            logRequestEvent(requestId, "request.rejected", `不支持的模型: ${modelName}`);
         }
         return {
             isValid: false,
@@ -136,16 +357,18 @@ function validateRequestModel(requestModel?: string, requestId?: string): {
         };
     }
     
-    return { isValid: true, modelName };
+    return { isValid: true, modelName, profile: getModelProfile(target) };
 }
 
 /**
  * 创建OpenAI格式的错误响应（基于Replicate错误）
  * @param error - Replicate错误对象
  * @param requestId - 请求ID
+ * @param apiService - API服务实例（用于在日志中记录出错的上游提供方）
  * @returns OpenAI格式的错误响应
  */
-function createReplicateErrorResponse(error: ReplicateError, requestId?: string): Response {
+function createReplicateErrorResponse(error: ReplicateError, requestId?: string, apiService?: ApiService): Response {
+    getMetrics().recordUpstreamError(error);
     const status = error.status || error.response?.status || 500;
     let errorType = "api_error";
     let errorCode = "replicate_error";
@@ -186,10 +409,9 @@ function createReplicateErrorResponse(error: ReplicateError, requestId?: string)
         }
     }
     
-    // 记录错误（不包含用户内容）
-    if (requestId) {
-        logError("Replicate API错误", error, requestId);
-    }
+    // 记录错误（不包含用户内容），ApiService 不再重复记录
+    const provider = apiService ? parseModelTarget(apiService.getActualModelId()).provider : "replicate";
+    logError(`上游API错误 (${provider})`, error, requestId);
     
     return new Response(
         JSON.stringify({
@@ -211,66 +433,149 @@ function createReplicateErrorResponse(error: ReplicateError, requestId?: string)
 }
 
 /**
- * 处理聊天完成请求（带超时控制）
+ * 获取上游调用相关的响应头：尝试次数（X-Upstream-Attempts）与实际回答的模型（X-Answering-Model）
+ * @param apiService - API服务实例（尚未创建时返回空对象）
+ * @returns 响应头
+ */
+function getUpstreamHeaders(apiService?: ApiService): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (apiService && apiService.getUpstreamAttempts() > 0) {
+        headers["X-Upstream-Attempts"] = String(apiService.getUpstreamAttempts());
+    }
+    const answeringModelId = apiService?.getAnsweringModelId();
+    if (answeringModelId) {
+        headers["X-Answering-Model"] = answeringModelId;
+    }
+    return headers;
+}
+
+/**
+ * 为响应添加上游调用相关的响应头
+ * @param response - 响应对象
+ * @param apiService - API服务实例（尚未创建时不添加）
+ * @returns 添加了响应头的响应
+ */
+function withUpstreamHeaders(response: Response, apiService?: ApiService): Response {
+    for (const [name, value] of Object.entries(getUpstreamHeaders(apiService))) {
+        response.headers.set(name, value);
+    }
+    return response;
+}
+
+/**
+ * 获取响应中的 model 字段
+ * 默认返回请求的模型名称；FALLBACK_CONFIG.RESPONSE_MODEL 为 answered 时返回实际回答的模型
+ * @param requestModelName - 请求的模型名称
+ * @param apiService - API服务实例
+ * @returns 模型名称
+ */
+function getResponseModelName(requestModelName: string, apiService: ApiService): string {
+    if (FALLBACK_CONFIG.RESPONSE_MODEL === "answered") {
+        return apiService.getAnsweringModelId() || requestModelName;
+    }
+    return requestModelName;
+}
+
+/**
+ * 检查模型不支持的采样参数
+ * 按 SAMPLING_CONFIG.UNSUPPORTED_PARAMETERS 配置拒绝请求，或记录日志后忽略
+ * @param sampling - 采样参数处理结果
+ * @param requestModelName - 请求的模型名称
+ * @param requestId - 请求ID
+ * @returns 需要拒绝时返回错误响应，否则返回null
+ */
+function checkUnsupportedParameters(sampling: SamplingResult, requestModelName: string, requestId: string): Response | null {
+    if (sampling.ignored.length === 0) {
+        return null;
+    }
+
+    if (SAMPLING_CONFIG.UNSUPPORTED_PARAMETERS === "reject") {
+        logRequestEvent(requestId, "request.rejected", `拒绝不支持的采样参数: ${sampling.ignored.join(", ")}`);
+        return createErrorResponse(
+            `Model '${requestModelName}' does not support the following parameters: ${sampling.ignored.join(", ")}`,
+            400,
+            "invalid_request_error",
+            ERROR_CODES.UNSUPPORTED_PARAMETER
+        );
+    }
+
+    logRequestEvent(requestId, "request.sampling", `模型不支持以下采样参数，已忽略: ${sampling.ignored.join(", ")}`);
+    return null;
+}
+
+/**
+ * 为响应添加被忽略的采样参数响应头（X-Ignored-Parameters）
+ * @param response - 响应对象
+ * @param sampling - 采样参数处理结果
+ * @returns 添加了响应头的响应
+ */
+function applyIgnoredParametersHeader(response: Response, sampling: SamplingResult): Response {
+    if (sampling.ignored.length > 0) {
+        response.headers.set("X-Ignored-Parameters", sampling.ignored.join(", "));
+    }
+    return response;
+}
+
+/**
+ * 处理聊天完成请求（请求开始与完成的日志由入口记录）
  * @param req - Request对象
+ * @param context - 请求上下文
  * @returns Response对象的Promise
  */
-export async function handleChatCompletionRequest(req: Request): Promise<Response> {
-    const requestId = generateRequestId();
-    const startTime = Date.now();
-    
-    // 记录请求开始
-    logRequestStart(req, requestId);
-    
+export async function handleChatCompletionRequest(req: Request, context: RequestContext): Promise<Response> {
+    const requestId = context.requestId;
+
     try {
-        // 使用超时控制包装整个请求处理过程
-        const response = await withTimeout(
-            handleChatCompletionRequestInternal(req, requestId, startTime),
-            TIMEOUT_CONFIG.REQUEST_TIMEOUT,
-            "请求处理超时（600秒），请稍后重试"
-        );
-        
-        // 记录响应完成
-        logResponseComplete(requestId, startTime, response.status);
-        return response;
-        
+        return await handleChatCompletionRequestInternal(req, context);
     } catch (error) {
-        // 如果是超时错误，返回特定的超时响应
-        if (error instanceof Error && error.message.includes("超时")) {
-            logError("请求处理超时", error, requestId);
-            const timeoutResponse = createTimeoutErrorResponse(error.message);
-            logResponseComplete(requestId, startTime, timeoutResponse.status, "请求超时");
-            return timeoutResponse;
-        }
-        
-        // 其他错误按原来的方式处理
         logError("请求处理出错", error, requestId);
-        const errorResponse = createErrorResponse(
+        return createErrorResponse(
             "Internal Server Error",
             500,
             "internal_error",
             ERROR_CODES.INTERNAL_ERROR
         );
-        logResponseComplete(requestId, startTime, errorResponse.status, "内部错误");
-        return errorResponse;
     }
 }
 
 /**
  * 内部的聊天完成请求处理函数
  * @param req - Request对象
- * @param requestId - 请求ID
- * @param startTime - 请求开始时间
+ * @param context - 请求上下文
  * @returns Response对象的Promise
  */
-async function handleChatCompletionRequestInternal(req: Request, requestId: string, startTime: number): Promise<Response> {
-    // 验证并提取API密钥
-    const authValidation = validateAndExtractApiKey(req.headers.get("Authorization"), requestId);
+async function handleChatCompletionRequestInternal(req: Request, context: RequestContext): Promise<Response> {
+    // 认证请求并解析上游API密钥
+    const authValidation = await authenticateRequest(req.headers.get("Authorization"), context.requestId);
     if (!authValidation.isValid) {
         return authValidation.response!;
     }
 
-    const userApiKey = authValidation.apiKey!;
+    const auth = authValidation.auth!;
+    const rateLimits = resolveRateLimits(auth.rateLimits);
+
+    const response = await processChatCompletionRequest(req, context, auth, rateLimits);
+
+    // 所有已认证请求的响应都附带限流响应头
+    return applyRateLimitHeaders(response, getRateLimiter().getState(auth.keyId, rateLimits));
+}
+
+/**
+ * 处理已认证的聊天完成请求
+ * @param req - Request对象
+ * @param context - 请求上下文
+ * @param auth - 认证信息
+ * @param rateLimits - 调用方的限额配置
+ * @returns Response对象的Promise
+ */
+async function processChatCompletionRequest(
+    req: Request,
+    context: RequestContext,
+    auth: AuthContext,
+    rateLimits: RateLimits
+): Promise<Response> {
+    const requestId = context.requestId;
+    let apiService: ApiService | undefined;
 
     try {
         // 解析请求体
@@ -296,16 +601,50 @@ async function handleChatCompletionRequestInternal(req: Request, requestId: stri
         }
 
         const requestModelName = modelValidation.modelName;
+        const profile = modelValidation.profile!;
+        getMetrics().setRequestModel(req, requestModelName);
+
+        // 验证max_tokens是否在模型允许的范围内
+        const maxTokensError = checkMaxTokens(requestBody.max_tokens, profile, requestModelName);
+        if (maxTokensError) {
+            logRequestEvent(requestId, "request.rejected", `max_tokens超出模型限制: ${requestBody.max_tokens}`);
+            return createErrorResponse(maxTokensError, 400, "invalid_request_error", ERROR_CODES.INVALID_PARAMETER);
+        }
+
+        // 验证工具定义
+        const toolsError = validateTools(requestBody.tools, requestBody.tool_choice);
+        if (toolsError) {
+            logRequestEvent(requestId, "request.rejected", `工具参数无效: ${toolsError}`);
+            return createErrorResponse(toolsError, 400, "invalid_request_error", ERROR_CODES.INVALID_TOOLS);
+        }
+
+        // 验证采样参数
+        const samplingError = validateSamplingParameters(requestBody);
+        if (samplingError) {
+            logRequestEvent(requestId, "request.rejected", `采样参数无效: ${samplingError.param}`);
+            return createErrorResponse(samplingError.message, 400, "invalid_request_error", ERROR_CODES.INVALID_PARAMETER);
+        }
 
         // 检查是否请求流式响应
         const isStream = requestBody.stream === true;
+        const includeUsage = requestBody.stream_options?.include_usage === true;
+        const toolsEnabled = isToolCallingEnabled(requestBody);
 
         // 处理消息并提取必要信息
-        const { userContent, systemPrompt, imageUrls } = processMessages(requestBody, requestId);
+        const { userContent, systemPrompt, imageUrls } = getTracer().trace(
+            "proxy.process_messages",
+            context,
+            span => {
+                const processed = processMessages(requestBody, requestId);
+                span.setAttributes({ "proxy.image_count": processed.imageUrls.length });
+                return processed;
+            },
+            { "proxy.message_count": requestBody.messages?.length }
+        );
 
         // 检查userContent是否成功生成
         if (!userContent) {
-            logSystem(`${requestId} 请求体必须包含非空的'messages'数组`);
+            logRequestEvent(requestId, "request.rejected", `请求体必须包含非空的'messages'数组`);
             return createErrorResponse(
                 "Request body must contain a non-empty 'messages' array.",
                 400,
@@ -314,28 +653,89 @@ async function handleChatCompletionRequestInternal(req: Request, requestId: stri
             );
         }
 
-        // 构建模型输入（包含max_tokens验证）
-        const input: ModelInput = buildModelInput(userContent, systemPrompt, imageUrls, requestBody.max_tokens, requestId);
+        // 检查图片数量是否超出模型能力
+        const imageError = checkImageSupport(imageUrls.length, profile.vision, requestModelName);
+        if (imageError) {
+            logRequestEvent(requestId, "request.rejected", `图片数量超出模型能力: ${imageUrls.length}`);
+            return createErrorResponse(imageError, 400, "invalid_request_error", ERROR_CODES.TOO_MANY_IMAGES);
+        }
 
-        // 为本次交互生成唯一ID
-        const chatCompletionId = `chatcmpl-${crypto.randomUUID()}`;
+        // 按模型档案构建模型输入
+        const input: ModelInput = getTracer().trace(
+            "proxy.build_model_input",
+            context,
+            () => buildModelInput(userContent, systemPrompt, imageUrls, requestBody.max_tokens, requestId, profile),
+            { "gen_ai.request.model": requestModelName }
+        );
+
+        // 检查是否超出模型上下文窗口
+        const contextError = checkContextWindow(input, profile, requestModelName);
+        if (contextError) {
+            logRequestEvent(requestId, "request.rejected", `请求超出模型上下文窗口: ${profile.context_window}`);
+            return createErrorResponse(contextError, 400, "invalid_request_error", ERROR_CODES.CONTEXT_LENGTH_EXCEEDED);
+        }
+
+        // 按模型支持情况写入采样参数
+        const sampling = applySamplingParameters(input, requestBody, profile.sampling_parameters);
+        const unsupportedResponse = checkUnsupportedParameters(sampling, requestModelName, requestId);
+        if (unsupportedResponse) {
+            return unsupportedResponse;
+        }
+
+        // 限流检查：占用一次请求额度和预估的输入token额度
+        const promptTokens = estimateInputTokens(input);
+        const rateLimit = getRateLimiter().acquire(auth.keyId, rateLimits, promptTokens);
+        if (!rateLimit.allowed) {
+            logRequestEvent(requestId, "rate_limit", `触发限流: ${auth.keyId} (${rateLimit.reason})`);
+            return createRateLimitExceededResponse(rateLimit);
+        }
 
         // 创建API服务实例
-        const apiService = createApiService(userApiKey, requestModelName, requestId);
+        apiService = createApiService(auth.apiKey, requestModelName, context, req.signal, auth.upstreamToken);
+
+        // 将 base64 data URL 图片上传到文件存储（使用与预测相同的上游密钥）
+        // 图片无效或上传失败时请求没有到达模型，退还占用的限流额度
+        try {
+            await apiService.resolveInputImages(input);
+        } catch (error) {
+            getRateLimiter().release(auth.keyId, rateLimits, promptTokens);
+            throw error;
+        }
+
+        // 输出完成后按实际输出token数量扣减额度
+        const onUsage = (usage: TokenUsage) => {
+            getRateLimiter().recordCompletion(auth.keyId, rateLimits, usage.completion_tokens);
+            getMetrics().recordTokens(requestModelName, usage);
+        };
+
+        // 为本次交互生成唯一ID
+        const chatCompletionId = `chatcmpl-${crypto.randomUUID()}`;
 
         // 记录API调用开始
         logApiCallStart(requestId, requestModelName, isStream);
 
         // 根据是否流式决定调用方式
-        if (isStream) {
-            return handleStreamResponse(chatCompletionId, requestModelName, input, apiService, requestId);
-        } else {
-            return handleNonStreamResponse(chatCompletionId, requestModelName, input, apiService, requestId);
-        }
+        const response = isStream
+            ? await handleStreamResponse(chatCompletionId, requestModelName, input, apiService, requestId, includeUsage, onUsage, toolsEnabled, sampling.localStopSequences)
+            : await handleNonStreamResponse(chatCompletionId, requestModelName, input, apiService, requestId, onUsage, toolsEnabled, sampling.localStopSequences);
+        return applyIgnoredParametersHeader(response, sampling);
     } catch (error) {
+        // 图片无法解码或不符合要求
+        if (error instanceof InvalidImageError) {
+            logRequestEvent(requestId, "request.rejected", `图片无效: ${error.message}`);
+            return createErrorResponse(error.message, 400, "invalid_request_error", ERROR_CODES.INVALID_IMAGE);
+        }
+
+        // 流式调用在首个事件之前超时
+        if (error instanceof UpstreamTimeoutError) {
+            logError(error.label, error, requestId);
+            getMetrics().recordUpstreamError(error);
+            return withUpstreamHeaders(createTimeoutErrorResponse(error.message, error.code), apiService);
+        }
+
         // 检查是否是Replicate API错误
         if (error && typeof error === 'object' && ('status' in error || 'response' in error)) {
-            return createReplicateErrorResponse(error as ReplicateError, requestId);
+            return withUpstreamHeaders(createReplicateErrorResponse(error as ReplicateError, requestId, apiService), apiService);
         }
         
         // 全局错误处理
@@ -356,86 +756,177 @@ async function handleChatCompletionRequestInternal(req: Request, requestId: stri
  * @param input - 模型输入
  * @param apiService - API服务实例
  * @param requestId - 请求ID
+ * @param includeUsage - 是否在结束前发送用量统计块（stream_options.include_usage）
+ * @param onUsage - 获得token用量后的回调（用于限流计数）
+ * @param toolsEnabled - 是否从输出中解析工具调用
+ * @param stopSequences - 需要在本地截断的停止序列
  * @returns 流式响应
  */
-function handleStreamResponse(
+async function handleStreamResponse(
     chatCompletionId: string,
     requestModelName: string,
     input: ModelInput,
-    apiService: any,
-    requestId: string
-): Response {
-    logSystem(`${requestId} 处理流式响应（带600秒超时控制）...`);
+    apiService: ApiService,
+    requestId: string,
+    includeUsage: boolean = false,
+    onUsage?: (usage: TokenUsage) => void,
+    toolsEnabled: boolean = false,
+    stopSequences: string[] = []
+): Promise<Response> {
+    logRequestEvent(requestId, "response.start", `处理流式响应（首个token ${TIMEOUT_CONFIG.FIRST_TOKEN_TIMEOUT / 1000}秒、空闲 ${TIMEOUT_CONFIG.IDLE_TIMEOUT / 1000}秒、总时长 ${TIMEOUT_CONFIG.REQUEST_TIMEOUT / 1000}秒超时）...`);
+    const upstreamStartTime = Date.now();
+
+    // 在返回响应之前开始上游调用并等待首个事件，
+    // 首个事件之前的失败（包括重试耗尽）由调用方转换为对应状态码的错误响应
+    const upstreamStream = await apiService.openStream(input);
+    const responseModelName = getResponseModelName(requestModelName, apiService);
 
     const encoder = new TextEncoder();
     let chunksCount = 0;
+    let completionText = "";
     const apiStartTime = Date.now();
+    // 开启 include_usage 时，除最后的用量块外其余块的 usage 字段均为 null
+    const chunkUsage = includeUsage ? null : undefined;
+    // 启用工具时从输出中分离工具调用块
+    const toolCallParser = toolsEnabled ? new ToolCallStreamParser() : null;
+    let toolCallIndex = 0;
+    const detector = new StopSequenceDetector(stopSequences);
     
     const stream = new ReadableStream({
         async start(controller) {
+            // 发送普通文本和工具调用增量
+            const enqueueOutput = (output: { content: string; toolCalls: ToolCall[] }) => {
+                if (output.content) {
+                    controller.enqueue(encoder.encode(
+                        createSSEChunk(chatCompletionId, responseModelName, output.content, null, null, chunkUsage)
+                    ));
+                }
+                for (const toolCall of output.toolCalls) {
+                    for (const delta of toToolCallDeltas(toolCall, toolCallIndex)) {
+                        controller.enqueue(encoder.encode(
+                            createToolCallChunk(chatCompletionId, responseModelName, [delta], chunkUsage)
+                        ));
+                    }
+                    logRequestEvent(requestId, "tool_call", `解析到工具调用: ${toolCall.function.name}`);
+                    toolCallIndex++;
+                }
+            };
+
+            // 截断停止序列后的文本交给工具调用解析器（如启用）
+            const sendText = (text: string) => {
+                completionText += text;
+                enqueueOutput(toolCallParser ? toolCallParser.push(text) : { content: text, toolCalls: [] });
+            };
+
+            getMetrics().streamStarted(API_PATHS.CHAT_COMPLETIONS);
+            let isFirstOutput = true;
+
+            // 服务器关闭且超过排空时间时，发送错误块和 [DONE] 后结束流
+            const untrackStream = getHealthMonitor().trackStream(() => {
+                logRequestEvent(requestId, "shutdown", `服务器正在关闭，终止流式响应`);
+                const errorResponse = {
+                    error: {
+                        message: "Server is shutting down, please retry the request",
+                        type: "api_error",
+                        code: ERROR_CODES.SERVER_SHUTTING_DOWN
+                    },
+                    request_id: requestId
+                };
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorResponse)}\n\n`));
+                controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+                controller.close();
+                apiService.cancel("服务器关闭");
+            });
             try {
-                // 处理流式输出，整个过程都在超时控制之下
                 let isFirstEvent = true; // 标记是否是第一个事件
 
-                // 使用超时控制包装流式API调用
-                const streamWithTimeout = withTimeout(
-                    apiService.streamModelResponse(input),
-                    TIMEOUT_CONFIG.REQUEST_TIMEOUT,
-                    "流式API调用超时"
-                );
-
-                for await (const event of await streamWithTimeout) {
+                for await (const event of upstreamStream) {
                     // 在收到第一个事件时发送角色信息
                     if (isFirstEvent) {
                         // 块 1: 发送角色信息
                         controller.enqueue(encoder.encode(
-                            createSSEChunk(chatCompletionId, requestModelName, null, "assistant", null)
+                            createSSEChunk(chatCompletionId, responseModelName, null, "assistant", null, chunkUsage)
                         ));
                         isFirstEvent = false;
                     }
 
                     // 只处理输出事件
                     if (event.event === "output" && typeof event.data === "string") {
-                        // 发送内容块
-                        controller.enqueue(encoder.encode(
-                            createSSEChunk(chatCompletionId, requestModelName, event.data, null, null)
-                        ));
+                        if (isFirstOutput) {
+                            getMetrics().recordFirstToken(API_PATHS.CHAT_COMPLETIONS, requestModelName, Date.now() - upstreamStartTime);
+                            isFirstOutput = false;
+                        }
+
+                        // 发送内容块（命中停止序列时截断）
+                        sendText(detector.push(event.data));
                         chunksCount++;
                         
                         // 记录流式进度（不记录内容）
                         logStreamProgress(requestId, chunksCount);
-                        
-                        await new Promise(resolve => setTimeout(resolve, 1)); // 微小延迟以提高并发性能
-                    } else if (event.event === "done") {
-                        // 根据OpenAI标准，在[DONE]之前发送一个带有finish_reason的结束块
+
+                        // 命中停止序列后不再继续读取上游输出
+                        if (!detector.isStopped()) {
+                            await new Promise(resolve => setTimeout(resolve, 1)); // 微小延迟以提高并发性能
+                            continue;
+                        }
+                        logRequestEvent(requestId, "stop_sequence", `命中停止序列，提前结束流式响应`);
+                        apiService.cancel("命中停止序列");
+                    } else if (event.event !== "done") {
+                        continue;
+                    }
+
+                    sendText(detector.flush());
+                    if (toolCallParser) {
+                        enqueueOutput(toolCallParser.flush());
+                    }
+
+                    // 根据OpenAI标准，在[DONE]之前发送一个带有finish_reason的结束块
+                    const finishReason = toolCallParser?.hasToolCalls() ? "tool_calls" : "stop";
+                    controller.enqueue(encoder.encode(
+                        createSSEChunk(chatCompletionId, responseModelName, null, null, finishReason, chunkUsage)
+                    ));
+
+                    // 计算token用量（优先使用Replicate指标，缺失时本地估算；命中停止序列时上游统计包含被截断的内容）
+                    const usage = calculateUsage(input, completionText, detector.isStopped() ? undefined : event.metrics);
+                    logRequestEvent(requestId, "usage", `Token用量`, usage);
+                    onUsage?.(usage);
+
+                    if (includeUsage) {
                         controller.enqueue(encoder.encode(
-                            createSSEChunk(chatCompletionId, requestModelName, null, null, "stop")
+                            createUsageChunk(chatCompletionId, responseModelName, usage)
                         ));
-                        
-                        // 然后发送 [DONE] 标记
-                        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-
-                        // 记录API调用完成
-                        const apiDuration = Date.now() - apiStartTime;
-                        logApiCallComplete(requestId, apiDuration, chunksCount);
-                        logSystem(`${requestId} 流式响应完成 - 总共发送 ${chunksCount} 个块`);
-                        break;
                     }
+                    
+                    // 然后发送 [DONE] 标记
+                    controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+
+                    // 记录API调用完成
+                    const apiDuration = Date.now() - apiStartTime;
+                    logApiCallComplete(requestId, apiDuration, chunksCount);
+                    logRequestEvent(requestId, "response.complete", `流式响应完成 - 总共发送 ${chunksCount} 个块`);
+                    break;
                 }
 
                 // 关闭流
                 controller.close();
             } catch (error) {
+                // 客户端已断开连接，流已被取消，无需发送错误信息（超时取消时仍需通知客户端）
+                if (apiService.isCancelled() && !(error instanceof UpstreamTimeoutError)) {
+                    logRequestEvent(requestId, "client.disconnect", `流式响应已因客户端断开而终止`);
+                    return;
+                }
+
                 logError("流式处理期间出错", error, requestId);
+                getMetrics().recordUpstreamError(error);
                 
                 // 发送错误信息到流中
                 let errorMessage = "Stream processing failed";
                 let errorCode = "stream_error";
                 
                 // 检查是否是超时错误
-                if (error instanceof Error && error.message.includes("超时")) {
-                    errorMessage = "流式响应超时，请稍后重试";
-                    errorCode = "stream_timeout";
+                if (error instanceof UpstreamTimeoutError) {
+                    errorMessage = error.message;
+                    errorCode = error.code;
                 } else if (error && typeof error === 'object' && ('status' in error || 'response' in error)) {
                     const replicateError = error as ReplicateError;
                     errorMessage = replicateError.message || "Stream processing failed";
@@ -446,12 +937,20 @@ function handleStreamResponse(
                         message: errorMessage,
                         type: "api_error",
                         code: errorCode
-                    }
+                    },
+                    request_id: requestId
                 };
                 controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorResponse)}\n\n`));
                 
                 controller.error(error);
+            } finally {
+                untrackStream();
+                getMetrics().streamEnded(API_PATHS.CHAT_COMPLETIONS);
             }
+        },
+        cancel() {
+            // 客户端断开连接，取消上游预测
+            apiService.cancel();
         }
     });
 
@@ -461,6 +960,7 @@ function handleStreamResponse(
             'Content-Type': 'text/event-stream',
             'Cache-Control': 'no-cache',
             'Connection': 'keep-alive',
+            ...getUpstreamHeaders(apiService),
             ...CORS_HEADERS
         },
     });
@@ -473,74 +973,94 @@ function handleStreamResponse(
  * @param input - 模型输入
  * @param apiService - API服务实例
  * @param requestId - 请求ID
+ * @param onUsage - 获得token用量后的回调（用于限流计数）
+ * @param toolsEnabled - 是否从输出中解析工具调用
+ * @param stopSequences - 需要在本地截断的停止序列
  * @returns 非流式响应
  */
 async function handleNonStreamResponse(
     chatCompletionId: string,
     requestModelName: string,
     input: ModelInput,
-    apiService: any,
-    requestId: string
+    apiService: ApiService,
+    requestId: string,
+    onUsage?: (usage: TokenUsage) => void,
+    toolsEnabled: boolean = false,
+    stopSequences: string[] = []
 ): Promise<Response> {
-    logSystem(`${requestId} 处理非流式响应（带600秒超时控制）`);
+    logRequestEvent(requestId, "response.start", `处理非流式响应（带${TIMEOUT_CONFIG.REQUEST_TIMEOUT / 1000}秒超时控制）`);
 
     const apiStartTime = Date.now();
     
     try {
-        // 使用超时控制包装API调用
-        const assistantContent = await withTimeout(
-            apiService.getModelResponse(input),
-            TIMEOUT_CONFIG.REQUEST_TIMEOUT,
-            "API调用超时，请稍后重试"
-        );
+        // 超时后 ApiService 取消预测并抛出 UpstreamTimeoutError
+        const { content: rawContent, metrics } = await apiService.getModelResponse(input);
 
         // 记录API调用完成（不记录响应内容）
         const apiDuration = Date.now() - apiStartTime;
-        logApiCallComplete(requestId, apiDuration, assistantContent.length);
+        logApiCallComplete(requestId, apiDuration, rawContent.length);
+
+        // 本地截断停止序列
+        const { text: assistantContent, matchedSequence } = applyStopSequences(rawContent, stopSequences);
+        if (matchedSequence !== null) {
+            logRequestEvent(requestId, "stop_sequence", `命中停止序列，已截断输出`);
+        }
+
+        // 计算token用量（优先使用Replicate指标，缺失时本地估算；命中停止序列时上游统计包含被截断的内容）
+        const usage = calculateUsage(input, assistantContent, matchedSequence !== null ? undefined : metrics);
+        logRequestEvent(requestId, "usage", `Token用量`, usage);
+        onUsage?.(usage);
+
+        // 启用工具时从输出中分离工具调用块
+        const { content, toolCalls } = toolsEnabled
+            ? parseToolCalls(assistantContent)
+            : { content: assistantContent, toolCalls: [] };
+        if (toolCalls.length > 0) {
+            logRequestEvent(requestId, "tool_call", `解析到 ${toolCalls.length} 个工具调用: ${toolCalls.map(call => call.function.name).join(", ")}`);
+        }
 
-        // 构建最终响应（token使用量全部设置为0）
+        // 构建最终响应
         const finalResponse: ChatCompletion = {
             id: chatCompletionId,
             object: "chat.completion",
             created: Math.floor(Date.now() / 1000),
-            model: requestModelName, // 返回请求的模型名称，而不是实际的模型名称
+            model: getResponseModelName(requestModelName, apiService),
             choices: [
                 {
                     index: 0,
                     message: {
                         role: "assistant",
-                        content: assistantContent,
+                        content,
+                        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
                     },
-                    finish_reason: "stop",
+                    finish_reason: toolCalls.length > 0 ? "tool_calls" : "stop",
                     logprobs: null,
                 }
             ],
-            usage: {
-                prompt_tokens: 0,
-                completion_tokens: 0,
-                total_tokens: 0
-            },
+            usage,
         };
 
-        logSystem(`${requestId} 非流式响应处理完成`);
+        logRequestEvent(requestId, "response.complete", `非流式响应处理完成`);
 
         return new Response(JSON.stringify(finalResponse), {
             status: 200,
             headers: {
                 'Content-Type': 'application/json',
+                ...getUpstreamHeaders(apiService),
                 ...CORS_HEADERS
             },
         });
     } catch (error) {
         // 检查是否是超时错误
-        if (error instanceof Error && error.message.includes("超时")) {
-            logError("API调用超时", error, requestId);
-            return createTimeoutErrorResponse(error.message);
+        if (error instanceof UpstreamTimeoutError) {
+            logError(error.label, error, requestId);
+            getMetrics().recordUpstreamError(error);
+            return withUpstreamHeaders(createTimeoutErrorResponse(error.message, error.code), apiService);
         }
         
         // 检查是否是Replicate API错误
         if (error && typeof error === 'object' && ('status' in error || 'response' in error)) {
-            return createReplicateErrorResponse(error as ReplicateError, requestId);
+            return withUpstreamHeaders(createReplicateErrorResponse(error as ReplicateError, requestId, apiService), apiService);
         }
         
         logError("调用API错误", error, requestId);
@@ -554,12 +1074,506 @@ async function handleNonStreamResponse(
     }
 }
 
+/**
+ * 获取认证头部
+ * Anthropic SDK 使用 x-api-key 头部传递密钥，这里统一转换为 Bearer 格式
+ * @param req - Request对象
+ * @returns Authorization头部值
+ */
+function getAuthorizationHeader(req: Request): string | null {
+    const authHeader = req.headers.get("Authorization");
+    if (authHeader) {
+        return authHeader;
+    }
+
+    const apiKey = req.headers.get("x-api-key");
+    return apiKey ? `Bearer ${apiKey}` : null;
+}
+
+/**
+ * 处理 Anthropic Messages API 请求（请求开始与完成的日志由入口记录）
+ * @param req - Request对象
+ * @param context - 请求上下文
+ * @returns Response对象的Promise
+ */
+export async function handleMessagesRequest(req: Request, context: RequestContext): Promise<Response> {
+    const requestId = context.requestId;
+
+    try {
+        return await handleMessagesRequestInternal(req, context);
+    } catch (error) {
+        logError("请求处理出错", error, requestId);
+        return createAnthropicErrorResponse("Internal Server Error", 500);
+    }
+}
+
+/**
+ * 内部的 Anthropic Messages 请求处理函数
+ * @param req - Request对象
+ * @param context - 请求上下文
+ * @returns Response对象的Promise
+ */
+async function handleMessagesRequestInternal(req: Request, context: RequestContext): Promise<Response> {
+    // 认证请求并解析上游API密钥（支持 x-api-key 与 Authorization 两种方式）
+    const authValidation = await authenticateRequest(getAuthorizationHeader(req), context.requestId);
+    if (!authValidation.isValid) {
+        return await toAnthropicErrorResponse(authValidation.response!);
+    }
+
+    const auth = authValidation.auth!;
+    const rateLimits = resolveRateLimits(auth.rateLimits);
+
+    const response = await processMessagesRequest(req, context, auth, rateLimits);
+
+    // 所有已认证请求的响应都附带限流响应头
+    return applyRateLimitHeaders(response, getRateLimiter().getState(auth.keyId, rateLimits));
+}
+
+/**
+ * 处理已认证的 Anthropic Messages 请求
+ * @param req - Request对象
+ * @param context - 请求上下文
+ * @param auth - 认证信息
+ * @param rateLimits - 调用方的限额配置
+ * @returns Response对象的Promise
+ */
+async function processMessagesRequest(
+    req: Request,
+    context: RequestContext,
+    auth: AuthContext,
+    rateLimits: RateLimits
+): Promise<Response> {
+    const requestId = context.requestId;
+    let apiService: ApiService | undefined;
+
+    try {
+        // 解析请求体
+        let messagesRequest: AnthropicMessagesRequest;
+        try {
+            messagesRequest = await req.json() as AnthropicMessagesRequest;
+            logRequestMetadata(requestId, messagesRequest);
+        } catch (e) {
+            logError("解析请求JSON失败", e, requestId);
+            return createAnthropicErrorResponse("Invalid JSON in request body", 400);
+        }
+
+        if (messagesRequest.stop_sequences !== undefined &&
+            (!Array.isArray(messagesRequest.stop_sequences) ||
+                messagesRequest.stop_sequences.some(seq => typeof seq !== "string"))) {
+            return createAnthropicErrorResponse("stop_sequences: Input should be a list of strings", 400);
+        }
+
+        // 验证请求的模型
+        const modelValidation = validateRequestModel(messagesRequest.model, requestId);
+        if (!modelValidation.isValid) {
+            return await toAnthropicErrorResponse(modelValidation.response!);
+        }
+
+        const requestModelName = modelValidation.modelName;
+        const profile = modelValidation.profile!;
+        getMetrics().setRequestModel(req, requestModelName);
+        const isStream = messagesRequest.stream === true;
+
+        const maxTokensError = checkMaxTokens(messagesRequest.max_tokens, profile, requestModelName);
+        if (maxTokensError) {
+            logRequestEvent(requestId, "request.rejected", `max_tokens超出模型限制: ${messagesRequest.max_tokens}`);
+            return createAnthropicErrorResponse(maxTokensError, 400);
+        }
+
+        // 转换为内部格式后复用消息处理逻辑
+        const requestBody = convertAnthropicRequest(messagesRequest);
+
+        // 验证采样参数（Anthropic 的 temperature 范围为 0-1）
+        const samplingError = validateSamplingParameters(requestBody, "anthropic");
+        if (samplingError) {
+            logRequestEvent(requestId, "request.rejected", `采样参数无效: ${samplingError.param}`);
+            return createAnthropicErrorResponse(samplingError.message, 400, "invalid_request_error");
+        }
+        const { userContent, systemPrompt, imageUrls } = getTracer().trace(
+            "proxy.process_messages",
+            context,
+            span => {
+                const processed = processMessages(requestBody, requestId);
+                span.setAttributes({ "proxy.image_count": processed.imageUrls.length });
+                return processed;
+            },
+            { "proxy.message_count": requestBody.messages?.length }
+        );
+
+        if (!userContent) {
+            logRequestEvent(requestId, "request.rejected", `请求体必须包含非空的'messages'数组`);
+            return createAnthropicErrorResponse("messages: Field required and must be a non-empty list", 400);
+        }
+
+        const imageError = checkImageSupport(imageUrls.length, profile.vision, requestModelName);
+        if (imageError) {
+            logRequestEvent(requestId, "request.rejected", `图片数量超出模型能力: ${imageUrls.length}`);
+            return createAnthropicErrorResponse(imageError, 400);
+        }
+
+        const input: ModelInput = getTracer().trace(
+            "proxy.build_model_input",
+            context,
+            () => buildModelInput(userContent, systemPrompt, imageUrls, requestBody.max_tokens, requestId, profile),
+            { "gen_ai.request.model": requestModelName }
+        );
+
+        const contextError = checkContextWindow(input, profile, requestModelName);
+        if (contextError) {
+            logRequestEvent(requestId, "request.rejected", `请求超出模型上下文窗口: ${profile.context_window}`);
+            return createAnthropicErrorResponse(contextError, 400);
+        }
+
+        const sampling = applySamplingParameters(input, requestBody, profile.sampling_parameters);
+        const unsupportedResponse = checkUnsupportedParameters(sampling, requestModelName, requestId);
+        if (unsupportedResponse) {
+            return await toAnthropicErrorResponse(unsupportedResponse);
+        }
+        const stopSequences = sampling.localStopSequences;
+
+        // 限流检查：占用一次请求额度和预估的输入token额度
+        const promptTokens = estimateInputTokens(input);
+        const rateLimit = getRateLimiter().acquire(auth.keyId, rateLimits, promptTokens);
+        if (!rateLimit.allowed) {
+            logRequestEvent(requestId, "rate_limit", `触发限流: ${auth.keyId} (${rateLimit.reason})`);
+            return await toAnthropicErrorResponse(createRateLimitExceededResponse(rateLimit));
+        }
+
+        apiService = createApiService(auth.apiKey, requestModelName, context, req.signal, auth.upstreamToken);
+        try {
+            await apiService.resolveInputImages(input);
+        } catch (error) {
+            getRateLimiter().release(auth.keyId, rateLimits, promptTokens);
+            throw error;
+        }
+
+        const onUsage = (usage: TokenUsage) => {
+            getRateLimiter().recordCompletion(auth.keyId, rateLimits, usage.completion_tokens);
+            getMetrics().recordTokens(requestModelName, usage);
+        };
+
+        const messageId = generateMessageId();
+
+        logApiCallStart(requestId, requestModelName, isStream);
+
+        const response = isStream
+            ? await handleMessagesStreamResponse(messageId, requestModelName, input, stopSequences, apiService, requestId, onUsage)
+            : await handleMessagesNonStreamResponse(messageId, requestModelName, input, stopSequences, apiService, requestId, onUsage);
+        return applyIgnoredParametersHeader(response, sampling);
+    } catch (error) {
+        if (error instanceof InvalidImageError) {
+            logRequestEvent(requestId, "request.rejected", `图片无效: ${error.message}`);
+            return createAnthropicErrorResponse(error.message, 400);
+        }
+
+        if (error instanceof UpstreamTimeoutError) {
+            logError(error.label, error, requestId);
+            getMetrics().recordUpstreamError(error);
+            return withUpstreamHeaders(createAnthropicErrorResponse(error.message, 408), apiService);
+        }
+
+        if (error && typeof error === 'object' && ('status' in error || 'response' in error)) {
+            return await toAnthropicErrorResponse(
+                withUpstreamHeaders(createReplicateErrorResponse(error as ReplicateError, requestId, apiService), apiService)
+            );
+        }
+
+        logError("处理程序中的未处理错误", error, requestId);
+        return createAnthropicErrorResponse("Internal Server Error", 500);
+    }
+}
+
+/**
+ * 处理 Anthropic 流式响应
+ * 事件顺序：message_start -> content_block_start -> ping -> content_block_delta* ->
+ * content_block_stop -> message_delta -> message_stop
+ * @param messageId - 消息ID
+ * @param requestModelName - 请求的模型名称
+ * @param input - 模型输入
+ * @param stopSequences - 停止序列
+ * @param apiService - API服务实例
+ * @param requestId - 请求ID
+ * @param onUsage - 获得token用量后的回调（用于限流计数）
+ * @returns 流式响应
+ */
+async function handleMessagesStreamResponse(
+    messageId: string,
+    requestModelName: string,
+    input: ModelInput,
+    stopSequences: string[],
+    apiService: ApiService,
+    requestId: string,
+    onUsage?: (usage: TokenUsage) => void
+): Promise<Response> {
+    logRequestEvent(requestId, "response.start", `处理Anthropic流式响应（首个token ${TIMEOUT_CONFIG.FIRST_TOKEN_TIMEOUT / 1000}秒、空闲 ${TIMEOUT_CONFIG.IDLE_TIMEOUT / 1000}秒、总时长 ${TIMEOUT_CONFIG.REQUEST_TIMEOUT / 1000}秒超时）...`);
+    const upstreamStartTime = Date.now();
+
+    // 在返回响应之前开始上游调用并等待首个事件
+    const upstreamStream = await apiService.openStream(input);
+    const responseModelName = getResponseModelName(requestModelName, apiService);
+
+    const encoder = new TextEncoder();
+    const detector = new StopSequenceDetector(stopSequences);
+    let chunksCount = 0;
+    const apiStartTime = Date.now();
+
+    const stream = new ReadableStream({
+        async start(controller) {
+            let isFirstEvent = true;
+            let completionText = "";
+
+            // 发送消息开始相关事件
+            const sendMessageStart = () => {
+                controller.enqueue(encoder.encode(createAnthropicSSEEvent("message_start", {
+                    message: {
+                        ...createAnthropicMessage(messageId, responseModelName, "", null, null, {
+                            input_tokens: estimateInputTokens(input),
+                            output_tokens: 0
+                        }),
+                        content: []
+                    }
+                })));
+                controller.enqueue(encoder.encode(createAnthropicSSEEvent("content_block_start", {
+                    index: 0,
+                    content_block: { type: "text", text: "" }
+                })));
+                controller.enqueue(encoder.encode(createAnthropicSSEEvent("ping")));
+                isFirstEvent = false;
+            };
+
+            // 发送文本增量
+            const sendTextDelta = (text: string) => {
+                if (!text) {
+                    return;
+                }
+                completionText += text;
+                controller.enqueue(encoder.encode(createAnthropicSSEEvent("content_block_delta", {
+                    index: 0,
+                    delta: { type: "text_delta", text }
+                })));
+                chunksCount++;
+                logStreamProgress(requestId, chunksCount);
+            };
+
+            getMetrics().streamStarted(API_PATHS.MESSAGES);
+            let isFirstOutput = true;
+
+            // 服务器关闭且超过排空时间时，发送错误事件后结束流
+            const untrackStream = getHealthMonitor().trackStream(() => {
+                logRequestEvent(requestId, "shutdown", `服务器正在关闭，终止流式响应`);
+                if (isFirstEvent) {
+                    sendMessageStart();
+                }
+                controller.enqueue(encoder.encode(
+                    `event: error\ndata: ${JSON.stringify({ ...createAnthropicError("Server is shutting down, please retry the request", "overloaded_error"), request_id: requestId })}\n\n`
+                ));
+                controller.close();
+                apiService.cancel("服务器关闭");
+            });
+            try {
+                for await (const event of upstreamStream) {
+                    if (isFirstEvent) {
+                        sendMessageStart();
+                    }
+
+                    if (event.event === "output" && typeof event.data === "string") {
+                        if (isFirstOutput) {
+                            getMetrics().recordFirstToken(API_PATHS.MESSAGES, requestModelName, Date.now() - upstreamStartTime);
+                            isFirstOutput = false;
+                        }
+                        sendTextDelta(detector.push(event.data));
+
+                        // 命中停止序列后不再继续读取上游输出
+                        if (detector.isStopped()) {
+                            logRequestEvent(requestId, "stop_sequence", `命中停止序列，提前结束流式响应`);
+                            apiService.cancel("命中停止序列");
+                        } else {
+                            await new Promise(resolve => setTimeout(resolve, 1));
+                            continue;
+                        }
+                    } else if (event.event !== "done") {
+                        continue;
+                    }
+
+                    sendTextDelta(detector.flush());
+
+                    // 命中停止序列时上游统计包含被截断的内容，改用本地估算
+                    const usage = calculateUsage(
+                        input,
+                        completionText,
+                        detector.isStopped() ? undefined : event.metrics
+                    );
+                    logRequestEvent(requestId, "usage", `Token用量`, usage);
+                    onUsage?.(usage);
+
+                    const stopSequence = detector.getMatchedSequence();
+                    controller.enqueue(encoder.encode(createAnthropicSSEEvent("content_block_stop", { index: 0 })));
+                    controller.enqueue(encoder.encode(createAnthropicSSEEvent("message_delta", {
+                        delta: {
+                            stop_reason: stopSequence !== null ? "stop_sequence" : "end_turn",
+                            stop_sequence: stopSequence
+                        },
+                        usage: { output_tokens: usage.completion_tokens }
+                    })));
+                    controller.enqueue(encoder.encode(createAnthropicSSEEvent("message_stop")));
+
+                    const apiDuration = Date.now() - apiStartTime;
+                    logApiCallComplete(requestId, apiDuration, chunksCount);
+                    logRequestEvent(requestId, "response.complete", `Anthropic流式响应完成 - 总共发送 ${chunksCount} 个块`);
+                    break;
+                }
+
+                controller.close();
+            } catch (error) {
+                if (apiService.isCancelled() && !(error instanceof UpstreamTimeoutError)) {
+                    logRequestEvent(requestId, "client.disconnect", `流式响应已因客户端断开而终止`);
+                    return;
+                }
+
+                logError("流式处理期间出错", error, requestId);
+                getMetrics().recordUpstreamError(error);
+
+                let errorMessage = "Stream processing failed";
+                let errorType = "api_error";
+
+                if (error instanceof UpstreamTimeoutError) {
+                    errorMessage = error.message;
+                    errorType = "timeout_error";
+                } else if (error && typeof error === 'object' && ('status' in error || 'response' in error)) {
+                    const replicateError = error as ReplicateError;
+                    errorMessage = replicateError.message || "Stream processing failed";
+                }
+
+                controller.enqueue(encoder.encode(
+                    `event: error\ndata: ${JSON.stringify({ ...createAnthropicError(errorMessage, errorType), request_id: requestId })}\n\n`
+                ));
+                controller.close();
+            } finally {
+                untrackStream();
+                getMetrics().streamEnded(API_PATHS.MESSAGES);
+            }
+        },
+        cancel() {
+            apiService.cancel();
+        }
+    });
+
+    return new Response(stream, {
+        status: 200,
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            ...getUpstreamHeaders(apiService),
+            ...CORS_HEADERS
+        },
+    });
+}
+
+/**
+ * 处理 Anthropic 非流式响应
+ * @param messageId - 消息ID
+ * @param requestModelName - 请求的模型名称
+ * @param input - 模型输入
+ * @param stopSequences - 停止序列
+ * @param apiService - API服务实例
+ * @param requestId - 请求ID
+ * @param onUsage - 获得token用量后的回调（用于限流计数）
+ * @returns message 响应
+ */
+async function handleMessagesNonStreamResponse(
+    messageId: string,
+    requestModelName: string,
+    input: ModelInput,
+    stopSequences: string[],
+    apiService: ApiService,
+    requestId: string,
+    onUsage?: (usage: TokenUsage) => void
+): Promise<Response> {
+    logRequestEvent(requestId, "response.start", `处理Anthropic非流式响应（带${TIMEOUT_CONFIG.REQUEST_TIMEOUT / 1000}秒超时控制）`);
+
+    const apiStartTime = Date.now();
+
+    try {
+        const { content: assistantContent, metrics } = await apiService.getModelResponse(input);
+
+        const apiDuration = Date.now() - apiStartTime;
+        logApiCallComplete(requestId, apiDuration, assistantContent.length);
+
+        // 本地应用停止序列
+        const { text, matchedSequence } = applyStopSequences(assistantContent, stopSequences);
+
+        // 命中停止序列时上游统计包含被截断的内容，改用本地估算
+        const usage = calculateUsage(input, text, matchedSequence !== null ? undefined : metrics);
+        logRequestEvent(requestId, "usage", `Token用量`, usage);
+        onUsage?.(usage);
+
+        const message = createAnthropicMessage(
+            messageId,
+            getResponseModelName(requestModelName, apiService),
+            text,
+            matchedSequence !== null ? "stop_sequence" : "end_turn",
+            matchedSequence,
+            { input_tokens: usage.prompt_tokens, output_tokens: usage.completion_tokens }
+        );
+
+        logRequestEvent(requestId, "response.complete", `Anthropic非流式响应处理完成`);
+
+        return new Response(JSON.stringify(message), {
+            status: 200,
+            headers: {
+                'Content-Type': 'application/json',
+                ...getUpstreamHeaders(apiService),
+                ...CORS_HEADERS
+            },
+        });
+    } catch (error) {
+        if (error instanceof UpstreamTimeoutError) {
+            logError(error.label, error, requestId);
+            getMetrics().recordUpstreamError(error);
+            return withUpstreamHeaders(createAnthropicErrorResponse(error.message, 408), apiService);
+        }
+
+        if (error && typeof error === 'object' && ('status' in error || 'response' in error)) {
+            return await toAnthropicErrorResponse(
+                withUpstreamHeaders(createReplicateErrorResponse(error as ReplicateError, requestId, apiService), apiService)
+            );
+        }
+
+        logError("调用API错误", error, requestId);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return createAnthropicErrorResponse(`Failed to get response from API: ${errorMessage}`, 500);
+    }
+}
+
+/**
+ * 处理本地托管图片文件的读取请求
+ * @param fileId - 文件ID
+ * @returns 文件内容响应
+ */
+function handleFileRequest(fileId: string): Response {
+    const file = getLocalFileHost().get(fileId);
+    if (!file) {
+        return handleNotFoundRequest();
+    }
+
+    return new Response(file.data, {
+        status: 200,
+        headers: {
+            "Content-Type": file.mimeType,
+            "Cache-Control": "public, max-age=3600",
+            ...CORS_HEADERS
+        },
+    });
+}
+
 /**
  * 路由请求到相应的处理函数
  * @param req - Request对象
+ * @param context - 请求上下文（未传入时根据请求创建）
  * @returns Response对象的Promise
  */
-export async function routeRequest(req: Request): Promise<Response> {
+export async function routeRequest(req: Request, context: RequestContext = createRequestContext(req)): Promise<Response> {
     const url = new URL(req.url);
 
     // CORS预检请求处理
@@ -571,10 +1585,54 @@ export async function routeRequest(req: Request): Promise<Response> {
     if (url.pathname === API_PATHS.MODELS && req.method === "GET") {
         return handleModelsRequest();
     }
+    if (url.pathname.startsWith(`${API_PATHS.MODELS}/`) && req.method === "GET") {
+        const encodedModelId = url.pathname.substring(API_PATHS.MODELS.length + 1);
+        let modelId: string;
+        try {
+            modelId = decodeURIComponent(encodedModelId);
+        } catch {
+            // 百分号编码无效时按原样查找（不会匹配任何模型，返回404）
+            modelId = encodedModelId;
+        }
+        return handleRetrieveModelRequest(modelId);
+    }
 
     // 聊天完成接口
     if (url.pathname === API_PATHS.CHAT_COMPLETIONS && req.method === "POST") {
-        return await handleChatCompletionRequest(req);
+        return await handleChatCompletionRequest(req, context);
+    }
+
+    // Anthropic Messages 接口
+    if (url.pathname === API_PATHS.MESSAGES && req.method === "POST") {
+        return await handleMessagesRequest(req, context);
+    }
+
+    // 存活与就绪检查接口
+    if (url.pathname === API_PATHS.HEALTHZ && req.method === "GET") {
+        return handleHealthzRequest();
+    }
+    if (url.pathname === API_PATHS.READYZ && req.method === "GET") {
+        return await handleReadyzRequest();
+    }
+
+    // Prometheus 指标接口
+    if (url.pathname === API_PATHS.METRICS && req.method === "GET") {
+        return handleMetricsRequest();
+    }
+
+    // 虚拟密钥管理接口
+    if (url.pathname === API_PATHS.ADMIN_KEYS || url.pathname.startsWith(`${API_PATHS.ADMIN_KEYS}/`)) {
+        return await handleAdminKeysRequest(req, url, context);
+    }
+
+    // 上游密钥池状态接口
+    if (url.pathname === API_PATHS.ADMIN_UPSTREAM_KEYS) {
+        return await handleAdminUpstreamKeysRequest(req, context);
+    }
+
+    // 本地托管的图片文件（FILE_STORE=local）
+    if (url.pathname.startsWith(`${API_PATHS.FILES}/`) && req.method === "GET" && FILE_STORE_CONFIG.BACKEND === "local") {
+        return handleFileRequest(url.pathname.substring(API_PATHS.FILES.length + 1));
     }
 
     // 处理其他路径或方法
@@ -0,0 +1,436 @@
+import {
+    ReplicateModelInfo,
+    UpstreamBackend,
+    UpstreamMetrics,
+    UpstreamPrediction,
+    UpstreamPredictionRequest
+} from "./types.ts";
+import { ReplicateError } from "./api-service.ts";
+import { formatServerSentEvent } from "./sse.ts";
+
+/**
+ * 模拟上游的一次预测的行为
+ */
+export interface FakeScenario {
+    // 输出块（非流式时拼接为完整输出）
+    chunks?: string[];
+    // 每个输出块之前的延迟（非流式时为总处理时间 = 延迟 x 块数）
+    chunkDelayMs?: number;
+    // 创建预测的延迟
+    createDelayMs?: number;
+    // 创建预测时返回的HTTP错误状态码
+    createStatus?: number;
+    // 打开流式输出时返回的HTTP错误状态码
+    streamStatus?: number;
+    // HTTP错误的 Retry-After（秒）
+    retryAfterSeconds?: number;
+    // 输出所有块之后发送的 error 事件内容（模型执行出错）
+    streamError?: string;
+    // 为false时预测不提供流式URL
+    supportsStream?: boolean;
+    // 非流式预测的最终状态
+    status?: "succeeded" | "failed";
+    // status 为 failed 时的错误信息
+    error?: string;
+    // 预测指标，为null时不返回指标（默认输入10个token、每个输出块1个token）
+    metrics?: UpstreamMetrics | null;
+}
+
+/**
+ * 模拟上游收到的调用
+ */
+export interface FakeUpstreamCall {
+    type: "create" | "get" | "cancel" | "stream" | "list_models";
+    apiKey: string;
+    predictionId?: string;
+    model?: string;
+    version?: string;
+    deployment?: string;
+    stream?: boolean;
+    input?: UpstreamPredictionRequest["input"];
+}
+
+/**
+ * 模拟的预测及其场景
+ */
+interface FakePrediction {
+    prediction: UpstreamPrediction;
+    scenario: FakeScenario;
+    createdAt: number;
+}
+
+/**
+ * 未指定场景时的默认输出
+ */
+const DEFAULT_CHUNKS = ["Hello", " world"];
+
+/**
+ * 创建与 Replicate API 错误相同形式的HTTP错误
+ * @param status - 状态码
+ * @param detail - 错误详情
+ * @param retryAfterSeconds - Retry-After（秒，可选）
+ * @returns 错误对象
+ */
+function createHttpError(status: number, detail: string, retryAfterSeconds?: number): ReplicateError {
+    const error = new Error(`Fake upstream request failed with status ${status}: ${JSON.stringify({ detail })}`) as ReplicateError;
+    error.name = "ApiError";
+    error.status = status;
+    error.response = {
+        status,
+        statusText: "",
+        headers: new Headers(retryAfterSeconds !== undefined ? { "Retry-After": String(retryAfterSeconds) } : {})
+    };
+    return error;
+}
+
+/**
+ * 等待指定时间，信号中止时立即以 AbortError 拒绝
+ * @param ms - 毫秒
+ * @param signal - 中止信号（可选）
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const abortError = () => new DOMException("The operation was aborted.", "AbortError");
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        if (ms <= 0) {
+            resolve();
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * 预测是否已结束
+ * @param prediction - 预测
+ */
+function isFinished(prediction: UpstreamPrediction): boolean {
+    return prediction.status === "succeeded" || prediction.status === "failed" || prediction.status === "canceled";
+}
+
+/**
+ * 进程内模拟的 Replicate
+ * 按 script() 排队的场景依次处理创建的预测，队列为空时使用默认场景；记录收到的所有调用
+ */
+export class FakeUpstream {
+    /**
+     * 收到的调用
+     */
+    readonly calls: FakeUpstreamCall[] = [];
+
+    /**
+     * 等待使用的场景
+     */
+    private scenarios: FakeScenario[] = [];
+
+    /**
+     * 默认场景
+     */
+    private defaultScenario: FakeScenario = {};
+
+    /**
+     * 预测ID -> 预测
+     */
+    private predictions = new Map<string, FakePrediction>();
+
+    /**
+     * 下一个预测的序号
+     */
+    private nextId = 1;
+
+    /**
+     * 模型集合中的模型（模型发现使用）
+     */
+    private models: ReplicateModelInfo[] = [];
+
+    /**
+     * 查询模型集合时返回的HTTP错误状态码
+     */
+    private modelsStatus?: number;
+
+    /**
+     * 排队场景，每次创建预测（包括重试）使用一个
+     * @param scenarios - 场景
+     */
+    script(...scenarios: FakeScenario[]): void {
+        this.scenarios.push(...scenarios);
+    }
+
+    /**
+     * 设置默认场景
+     * @param scenario - 场景
+     */
+    setDefault(scenario: FakeScenario): void {
+        this.defaultScenario = scenario;
+    }
+
+    /**
+     * 清空场景、预测与调用记录
+     */
+    reset(): void {
+        this.scenarios = [];
+        this.defaultScenario = {};
+        this.models = [];
+        this.modelsStatus = undefined;
+        this.predictions.clear();
+        this.calls.length = 0;
+    }
+
+    /**
+     * 设置模型集合中的模型
+     * @param models - 模型
+     * @param status - 查询时返回的HTTP错误状态码（可选）
+     */
+    setModels(models: ReplicateModelInfo[], status?: number): void {
+        this.models = models;
+        this.modelsStatus = status;
+    }
+
+    /**
+     * 查询模型集合
+     * @param apiKey - 调用方的API密钥
+     * @returns 模型
+     */
+    listModels(apiKey: string): ReplicateModelInfo[] {
+        this.calls.push({ type: "list_models", apiKey });
+        if (this.modelsStatus) {
+            throw createHttpError(this.modelsStatus, "Fake upstream error");
+        }
+        return structuredClone(this.models);
+    }
+
+    /**
+     * 获取指定类型的调用
+     * @param type - 调用类型
+     * @returns 调用记录
+     */
+    callsOf(type: FakeUpstreamCall["type"]): FakeUpstreamCall[] {
+        return this.calls.filter(call => call.type === type);
+    }
+
+    /**
+     * 创建预测
+     * @param apiKey - 调用方的API密钥
+     * @param request - 创建参数
+     * @returns 预测
+     */
+    async create(apiKey: string, request: UpstreamPredictionRequest): Promise<UpstreamPrediction> {
+        const scenario = this.scenarios.shift() || this.defaultScenario;
+        this.calls.push({ type: "create", apiKey, ...request });
+
+        await delay(scenario.createDelayMs || 0);
+        if (scenario.createStatus) {
+            throw createHttpError(scenario.createStatus, "Fake upstream error", scenario.retryAfterSeconds);
+        }
+
+        const id = `fake-${this.nextId++}`;
+        const prediction: UpstreamPrediction = {
+            id,
+            status: "starting",
+            urls: request.stream && scenario.supportsStream !== false ? { stream: `fake://stream/${id}` } : {}
+        };
+        this.predictions.set(id, { prediction, scenario, createdAt: Date.now() });
+        return { ...prediction };
+    }
+
+    /**
+     * 获取预测的当前状态
+     * @param apiKey - 调用方的API密钥
+     * @param id - 预测ID
+     * @returns 预测
+     */
+    get(apiKey: string, id: string): UpstreamPrediction {
+        this.calls.push({ type: "get", apiKey, predictionId: id });
+        const entry = this.predictions.get(id);
+        if (!entry) {
+            throw createHttpError(404, "Prediction not found");
+        }
+
+        const { prediction, scenario, createdAt } = entry;
+        const chunks = scenario.chunks || DEFAULT_CHUNKS;
+        if (!isFinished(prediction) && Date.now() - createdAt >= (scenario.chunkDelayMs || 0) * chunks.length) {
+            this.complete(entry);
+        }
+        return { ...prediction };
+    }
+
+    /**
+     * 取消预测
+     * @param apiKey - 调用方的API密钥
+     * @param id - 预测ID
+     */
+    cancel(apiKey: string, id: string): void {
+        this.calls.push({ type: "cancel", apiKey, predictionId: id });
+        const entry = this.predictions.get(id);
+        if (entry && (entry.prediction.status === "starting" || entry.prediction.status === "processing")) {
+            entry.prediction.status = "canceled";
+        }
+    }
+
+    /**
+     * 按场景完成预测（写入输出、指标或错误）
+     * @param entry - 预测
+     */
+    private complete(entry: FakePrediction): void {
+        const { prediction, scenario } = entry;
+        const chunks = scenario.chunks || DEFAULT_CHUNKS;
+        prediction.status = scenario.status || "succeeded";
+        prediction.output = chunks;
+        if (prediction.status === "failed") {
+            prediction.error = scenario.error || "Fake prediction failed";
+        }
+        if (scenario.metrics !== null) {
+            prediction.metrics = scenario.metrics || { input_token_count: 10, output_token_count: chunks.length };
+        }
+    }
+
+    /**
+     * 打开预测的流式输出
+     * @param apiKey - 调用方的API密钥
+     * @param id - 预测ID
+     * @param signal - 中止信号
+     * @returns SSE响应
+     */
+    stream(apiKey: string, id: string, signal: AbortSignal): Response {
+        this.calls.push({ type: "stream", apiKey, predictionId: id });
+        const entry = this.predictions.get(id);
+        if (!entry) {
+            return new Response("Prediction not found", { status: 404 });
+        }
+
+        const { scenario } = entry;
+        if (scenario.streamStatus) {
+            return new Response(JSON.stringify({ detail: "Fake stream error" }), { status: scenario.streamStatus });
+        }
+
+        const encoder = new TextEncoder();
+        let closed = false;
+        const body = new ReadableStream<Uint8Array>({
+            start: async controller => {
+                try {
+                    entry.prediction.status = "processing";
+                    for (const chunk of scenario.chunks || DEFAULT_CHUNKS) {
+                        await delay(scenario.chunkDelayMs || 0, signal);
+                        if (closed || isFinished(entry.prediction)) {
+                            return;
+                        }
+                        controller.enqueue(encoder.encode(formatServerSentEvent("output", chunk)));
+                    }
+                    if (scenario.streamError) {
+                        entry.prediction.status = "failed";
+                        entry.prediction.error = scenario.streamError;
+                        controller.enqueue(encoder.encode(formatServerSentEvent("error", scenario.streamError)));
+                    } else {
+                        this.complete(entry);
+                        controller.enqueue(encoder.encode(formatServerSentEvent("done", "{}")));
+                    }
+                    controller.close();
+                } catch (error) {
+                    if (!closed) {
+                        controller.error(error);
+                    }
+                }
+            },
+            cancel: () => {
+                closed = true;
+            }
+        });
+        return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+    }
+}
+
+/**
+ * 使用进程内模拟上游的后端（UPSTREAM_BACKEND=fake）
+ */
+export class FakeUpstreamBackend implements UpstreamBackend {
+    readonly name = "fake";
+
+    /**
+     * 构造函数
+     * @param upstream - 模拟上游
+     * @param apiKey - 调用方的API密钥（记录在调用中）
+     */
+    constructor(private readonly upstream: FakeUpstream, private readonly apiKey: string) {}
+
+    /**
+     * 创建预测
+     * @param request - 创建参数
+     * @returns 预测
+     */
+    createPrediction(request: UpstreamPredictionRequest): Promise<UpstreamPrediction> {
+        return this.upstream.create(this.apiKey, request);
+    }
+
+    /**
+     * 获取预测
+     * @param id - 预测ID
+     * @returns 预测
+     */
+    getPrediction(id: string): Promise<UpstreamPrediction> {
+        return Promise.resolve().then(() => this.upstream.get(this.apiKey, id));
+    }
+
+    /**
+     * 取消预测
+     * @param id - 预测ID
+     */
+    cancelPrediction(id: string): Promise<void> {
+        this.upstream.cancel(this.apiKey, id);
+        return Promise.resolve();
+    }
+
+    /**
+     * 轮询直到预测结束或 stop 返回true，预测失败时抛出错误（与 replicate 客户端的 wait 一致）
+     * @param prediction - 预测
+     * @param stop - 是否停止等待
+     * @returns 结束时的预测
+     */
+    async waitForPrediction(prediction: UpstreamPrediction, stop: () => boolean): Promise<UpstreamPrediction> {
+        let current = await this.getPrediction(prediction.id);
+        while (current.status === "starting" || current.status === "processing") {
+            if (stop()) {
+                return current;
+            }
+            await delay(10);
+            current = await this.getPrediction(prediction.id);
+        }
+        if (current.status === "failed") {
+            throw new Error(`Prediction failed: ${current.error}`);
+        }
+        return current;
+    }
+
+    /**
+     * 打开预测的流式输出
+     * @param prediction - 预测
+     * @param signal - 中止信号
+     * @returns SSE响应
+     */
+    openStream(prediction: UpstreamPrediction, signal: AbortSignal): Promise<Response> {
+        return Promise.resolve(this.upstream.stream(this.apiKey, prediction.id, signal));
+    }
+}
+
+/**
+ * 全局模拟上游实例
+ */
+const fakeUpstream = new FakeUpstream();
+
+/**
+ * 获取全局模拟上游实例（测试中用于编排场景和检查调用）
+ * @returns FakeUpstream实例
+ */
+export function getFakeUpstream(): FakeUpstream {
+    return fakeUpstream;
+}
@@ -0,0 +1,336 @@
+import { FILE_STORE_CONFIG } from "./config.ts";
+import { FileHost, ModelInput } from "./types.ts";
+import { ReplicateError } from "./api-service.ts";
+import { formatBytes, logRequestEvent } from "./utils.ts";
+import { withRetry } from "./retry.ts";
+import { sha256Hex } from "./key-store.ts";
+
+/**
+ * Replicate Files API 地址
+ */
+const REPLICATE_FILES_URL = "https://api.replicate.com/v1/files";
+
+/**
+ * 图片格式错误（data URL 无法解码、类型不支持或超出大小限制），应返回 400
+ */
+export class InvalidImageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "InvalidImageError";
+    }
+}
+
+/**
+ * 解码后的图片
+ */
+interface DecodedImage {
+    data: ArrayBuffer;
+    mimeType: string;
+}
+
+/**
+ * 计算二进制数据的 SHA-256 十六进制摘要
+ * @param data - 二进制数据
+ * @returns 十六进制摘要
+ */
+async function sha256Bytes(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", data);
+    return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, "0"))
+        .join("");
+}
+
+/**
+ * 根据文件头识别图片类型
+ * @param data - 图片数据
+ * @returns MIME类型，无法识别时返回null
+ */
+function detectImageType(data: ArrayBuffer): string | null {
+    const header = new Uint8Array(data, 0, Math.min(12, data.byteLength));
+    const startsWith = (bytes: number[], offset = 0) => bytes.every((byte, i) => header[offset + i] === byte);
+
+    if (startsWith([0x89, 0x50, 0x4e, 0x47])) {
+        return "image/png";
+    }
+    if (startsWith([0xff, 0xd8, 0xff])) {
+        return "image/jpeg";
+    }
+    if (startsWith([0x47, 0x49, 0x46, 0x38])) {
+        return "image/gif";
+    }
+    // RIFF....WEBP
+    if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+        return "image/webp";
+    }
+    return null;
+}
+
+/**
+ * 是否为 data URL
+ * @param url - 图片地址
+ */
+export function isDataUrl(url: string): boolean {
+    return url.startsWith("data:");
+}
+
+/**
+ * 解码并校验 data URL 图片
+ * @param url - data URL
+ * @returns 解码后的图片
+ */
+export function decodeImageDataUrl(url: string): DecodedImage {
+    const match = url.match(/^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s);
+    if (!match) {
+        throw new InvalidImageError("Invalid image data URL.");
+    }
+
+    const declaredType = (match[1] || "").toLowerCase();
+    const isBase64 = match[2].split(";").includes("base64");
+
+    if (!FILE_STORE_CONFIG.ALLOWED_IMAGE_TYPES.includes(declaredType)) {
+        throw new InvalidImageError(
+            `Unsupported image type '${declaredType || "unknown"}'. Supported types: ${FILE_STORE_CONFIG.ALLOWED_IMAGE_TYPES.join(", ")}.`
+        );
+    }
+
+    // 先按编码长度粗略判断，避免解码超大图片
+    const estimatedSize = isBase64 ? Math.floor(match[3].length * 3 / 4) : match[3].length;
+    if (estimatedSize > FILE_STORE_CONFIG.MAX_IMAGE_BYTES * 1.1) {
+        throw new InvalidImageError(`Image exceeds the maximum size of ${formatBytes(FILE_STORE_CONFIG.MAX_IMAGE_BYTES)}.`);
+    }
+
+    let data: ArrayBuffer;
+    try {
+        data = (isBase64
+            ? Uint8Array.from(atob(match[3].replace(/\s/g, "")), char => char.charCodeAt(0))
+            : new TextEncoder().encode(decodeURIComponent(match[3]))).buffer as ArrayBuffer;
+    } catch {
+        throw new InvalidImageError("Image data URL is not valid base64.");
+    }
+
+    if (data.byteLength === 0) {
+        throw new InvalidImageError("Image data URL is empty.");
+    }
+    if (data.byteLength > FILE_STORE_CONFIG.MAX_IMAGE_BYTES) {
+        throw new InvalidImageError(`Image exceeds the maximum size of ${formatBytes(FILE_STORE_CONFIG.MAX_IMAGE_BYTES)}.`);
+    }
+
+    // 以文件内容为准，客户端声明的类型错误时使用实际类型
+    const detectedType = detectImageType(data);
+    if (!detectedType) {
+        throw new InvalidImageError(`Image data does not match a supported image format (declared '${declaredType}').`);
+    }
+
+    return { data, mimeType: detectedType };
+}
+
+/**
+ * 通过 Replicate Files API 上传文件
+ * 返回的URL只有同一账号创建的预测可以访问
+ */
+class ReplicateFileHost implements FileHost {
+    /**
+     * 缓存作用域
+     */
+    readonly scope: string;
+
+    /**
+     * Replicate API密钥
+     */
+    private apiKey: string;
+
+    /**
+     * 构造函数
+     * @param apiKey - Replicate API密钥
+     * @param scope - 缓存作用域（由API密钥哈希得到）
+     */
+    constructor(apiKey: string, scope: string) {
+        this.apiKey = apiKey;
+        this.scope = scope;
+    }
+
+    /**
+     * 上传文件
+     * @param data - 文件内容
+     * @param mimeType - MIME类型
+     * @param filename - 文件名
+     * @returns 文件URL
+     */
+    async upload(data: ArrayBuffer, mimeType: string, filename: string): Promise<string> {
+        const form = new FormData();
+        form.append("content", new Blob([data], { type: mimeType }), filename);
+
+        const response = await fetch(REPLICATE_FILES_URL, {
+            method: "POST",
+            headers: { "Authorization": `Bearer ${this.apiKey}` },
+            body: form
+        });
+
+        if (!response.ok) {
+            const responseText = await response.text();
+            const error = new Error(
+                `Failed to upload image to Replicate: status ${response.status}: ${responseText}`
+            ) as ReplicateError;
+            error.status = response.status;
+            error.response = {
+                status: response.status,
+                statusText: response.statusText,
+                headers: response.headers
+            };
+            throw error;
+        }
+
+        const file = await response.json() as { urls?: { get?: string } };
+        if (!file.urls?.get) {
+            throw new Error("Replicate Files API response does not contain a file URL");
+        }
+        return file.urls.get;
+    }
+}
+
+/**
+ * 在内存中托管文件，通过代理自身的 /files/{id} 路由提供访问
+ */
+export class LocalFileHost implements FileHost {
+    /**
+     * 缓存作用域
+     */
+    readonly scope = "local";
+
+    /**
+     * 文件ID -> 文件内容（按写入顺序淘汰）
+     */
+    private files = new Map<string, DecodedImage>();
+
+    /**
+     * 上传文件
+     * @param data - 文件内容
+     * @param mimeType - MIME类型
+     * @returns 文件URL
+     */
+    async upload(data: ArrayBuffer, mimeType: string): Promise<string> {
+        const id = (await sha256Bytes(data)).substring(0, 32);
+
+        this.files.delete(id);
+        this.files.set(id, { data, mimeType });
+        while (this.files.size > FILE_STORE_CONFIG.LOCAL_MAX_FILES) {
+            this.files.delete(this.files.keys().next().value!);
+        }
+
+        return `${FILE_STORE_CONFIG.PUBLIC_BASE_URL.replace(/\/$/, "")}/files/${id}`;
+    }
+
+    /**
+     * 读取文件
+     * @param id - 文件ID
+     * @returns 文件内容，不存在时返回null
+     */
+    get(id: string): DecodedImage | null {
+        return this.files.get(id) || null;
+    }
+}
+
+/**
+ * 全局本地文件托管实例
+ */
+const localFileHost = new LocalFileHost();
+
+/**
+ * 获取全局本地文件托管实例
+ * @returns LocalFileHost实例
+ */
+export function getLocalFileHost(): LocalFileHost {
+    return localFileHost;
+}
+
+/**
+ * 根据配置创建文件托管实例
+ * @param apiKey - Replicate API密钥（replicate 后端使用）
+ * @returns FileHost实例
+ */
+export async function createFileHost(apiKey: string): Promise<FileHost> {
+    if (FILE_STORE_CONFIG.BACKEND === "local") {
+        return localFileHost;
+    }
+    const scope = `replicate:${(await sha256Hex(apiKey)).substring(0, 16)}`;
+    return new ReplicateFileHost(apiKey, scope);
+}
+
+/**
+ * 上传结果缓存：作用域 + 内容哈希 -> 文件URL
+ * 保存 Promise 以便同一图片的并发上传只执行一次
+ */
+const uploadCache = new Map<string, Promise<string>>();
+
+/**
+ * 上传图片（相同内容只上传一次）
+ * @param image - 解码后的图片
+ * @param fileHost - 文件托管实例
+ * @param requestId - 请求ID（用于日志）
+ * @returns 文件URL
+ */
+async function uploadImage(image: DecodedImage, fileHost: FileHost, requestId?: string): Promise<string> {
+    const hash = await sha256Bytes(image.data);
+    const cacheKey = `${fileHost.scope}:${hash}`;
+
+    const cached = uploadCache.get(cacheKey);
+    if (cached) {
+        // 移到末尾，按最近使用顺序淘汰
+        uploadCache.delete(cacheKey);
+        uploadCache.set(cacheKey, cached);
+        logRequestEvent(requestId, "file_store.upload", `图片已上传过，复用缓存: ${hash.substring(0, 12)}`);
+        return cached;
+    }
+
+    const extension = image.mimeType.split("/")[1];
+    const upload = withRetry(
+        "上传图片",
+        () => fileHost.upload(image.data, image.mimeType, `${hash.substring(0, 16)}.${extension}`),
+        requestId
+    );
+    uploadCache.set(cacheKey, upload);
+    while (uploadCache.size > FILE_STORE_CONFIG.CACHE_MAX_ENTRIES) {
+        uploadCache.delete(uploadCache.keys().next().value!);
+    }
+
+    try {
+        const url = await upload;
+        logRequestEvent(requestId, "file_store.upload", `图片上传完成: ${hash.substring(0, 12)} (${formatBytes(image.data.byteLength)})`);
+        return url;
+    } catch (error) {
+        // 上传失败不缓存
+        uploadCache.delete(cacheKey);
+        throw error;
+    }
+}
+
+/**
+ * 将图片地址转换为模型可以访问的URL（data URL 解码、校验并上传，其他地址原样返回）
+ * @param url - 图片地址
+ * @param fileHost - 文件托管实例
+ * @param requestId - 请求ID（用于日志）
+ * @returns 图片URL
+ */
+export async function resolveImageUrl(url: string, fileHost: FileHost, requestId?: string): Promise<string> {
+    if (!isDataUrl(url)) {
+        return url;
+    }
+    return await uploadImage(decodeImageDataUrl(url), fileHost, requestId);
+}
+
+/**
+ * 将模型输入中的 data URL 图片替换为上传后的URL
+ * @param input - 模型输入（原地修改）
+ * @param fileHost - 文件托管实例
+ * @param requestId - 请求ID（用于日志）
+ */
+export async function resolveModelInputImages(input: ModelInput, fileHost: FileHost, requestId?: string): Promise<void> {
+    if (input.image) {
+        input.image = await resolveImageUrl(input.image, fileHost, requestId);
+    }
+    if (input.image_input) {
+        input.image_input = await Promise.all(
+            input.image_input.map(url => resolveImageUrl(url, fileHost, requestId))
+        );
+    }
+}
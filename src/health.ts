@@ -0,0 +1,234 @@
+import {
+    API_PATHS,
+    DISCOVERED_MODELS,
+    getProviderType,
+    getUpstreamTokens,
+    HEALTH_CONFIG,
+    MODEL_MAPPING,
+    UPSTREAM_CONFIG
+} from "./config.ts";
+import { ReadinessReport, UpstreamProbeResult } from "./types.ts";
+import { getConfigFileStatus } from "./config-file.ts";
+import { getMetrics } from "./metrics.ts";
+import { getModelDiscovery } from "./model-discovery.ts";
+import { logError, logSystem } from "./utils.ts";
+
+/**
+ * 探测上游连通性使用的地址（只读取当前账号信息，不产生费用）
+ */
+const REPLICATE_ACCOUNT_URL = "https://api.replicate.com/v1/account";
+
+/**
+ * 是否有模型由 Replicate 处理（模型映射的目标为 Replicate 模型，或有发现的模型）
+ */
+function usesReplicate(): boolean {
+    return Object.keys(DISCOVERED_MODELS).length > 0 ||
+        Object.values(MODEL_MAPPING).some(target => getProviderType(target) === "replicate");
+}
+
+/**
+ * 是否为健康检查路径（不计入进行中的请求）
+ * @param pathname - 请求路径
+ */
+export function isHealthCheckPath(pathname: string): boolean {
+    return pathname === API_PATHS.HEALTHZ || pathname === API_PATHS.READYZ;
+}
+
+/**
+ * 服务健康状态：进行中的请求、关闭状态和上游探测结果
+ */
+export class HealthMonitor {
+    /**
+     * 进行中的请求数量（处理函数返回响应之前）
+     */
+    private inFlightRequests = 0;
+
+    /**
+     * 是否正在关闭
+     */
+    private shuttingDown = false;
+
+    /**
+     * 最近一次上游探测结果
+     */
+    private lastProbe: UpstreamProbeResult | null = null;
+
+    /**
+     * 进行中的上游探测（并发的就绪检查共用同一次探测）
+     */
+    private pendingProbe: Promise<UpstreamProbeResult> | null = null;
+
+    /**
+     * 进行中的流式响应的终止回调（关闭时超过排空时间后调用）
+     */
+    private streamTerminators = new Set<() => void>();
+
+    /**
+     * 请求开始处理
+     */
+    requestStarted(): void {
+        this.inFlightRequests++;
+    }
+
+    /**
+     * 请求处理完成
+     */
+    requestFinished(): void {
+        this.inFlightRequests--;
+    }
+
+    /**
+     * 获取进行中的请求数量
+     * @returns 请求数量
+     */
+    getInFlightRequests(): number {
+        return this.inFlightRequests;
+    }
+
+    /**
+     * 标记服务正在关闭，之后的就绪检查返回未就绪
+     */
+    markShuttingDown(): void {
+        this.shuttingDown = true;
+    }
+
+    /**
+     * 是否正在关闭
+     */
+    isShuttingDown(): boolean {
+        return this.shuttingDown;
+    }
+
+    /**
+     * 登记进行中的流式响应
+     * @param terminate - 终止回调：向客户端发送错误事件并结束流
+     * @returns 取消登记的函数（流结束时调用）
+     */
+    trackStream(terminate: () => void): () => void {
+        this.streamTerminators.add(terminate);
+        return () => {
+            this.streamTerminators.delete(terminate);
+        };
+    }
+
+    /**
+     * 终止所有进行中的流式响应
+     * @returns 被终止的流数量
+     */
+    terminateStreams(): number {
+        const terminators = [...this.streamTerminators];
+        this.streamTerminators.clear();
+        for (const terminate of terminators) {
+            try {
+                terminate();
+            } catch (error) {
+                logError("终止流式响应失败", error);
+            }
+        }
+        return terminators.length;
+    }
+
+    /**
+     * 探测Replicate连通性（结果缓存 PROBE_CACHE_MS）
+     * 使用模拟上游或所有模型都由其他提供方处理时不探测
+     * @returns 探测结果
+     */
+    async probeUpstream(): Promise<UpstreamProbeResult> {
+        if (!HEALTH_CONFIG.PROBE_TOKEN || UPSTREAM_CONFIG.BACKEND === "fake" || !usesReplicate()) {
+            return { status: "disabled" };
+        }
+
+        if (this.lastProbe && Date.now() - this.lastProbe.checked_at! < HEALTH_CONFIG.PROBE_CACHE_MS) {
+            return this.lastProbe;
+        }
+
+        if (!this.pendingProbe) {
+            this.pendingProbe = this.runProbe().finally(() => {
+                this.pendingProbe = null;
+            });
+        }
+        return await this.pendingProbe;
+    }
+
+    /**
+     * 执行一次上游探测
+     * @returns 探测结果
+     */
+    private async runProbe(): Promise<UpstreamProbeResult> {
+        const token = getUpstreamTokens()[HEALTH_CONFIG.PROBE_TOKEN];
+        const startTime = Date.now();
+
+        if (!token) {
+            this.lastProbe = {
+                status: "error",
+                error: `Upstream token '${HEALTH_CONFIG.PROBE_TOKEN}' is not configured.`,
+                checked_at: startTime
+            };
+            return this.lastProbe;
+        }
+
+        let result: UpstreamProbeResult;
+        try {
+            const response = await fetch(REPLICATE_ACCOUNT_URL, {
+                headers: { "Authorization": `Bearer ${token}` },
+                signal: AbortSignal.timeout(HEALTH_CONFIG.PROBE_TIMEOUT_MS)
+            });
+            await response.body?.cancel();
+            result = response.ok
+                ? { status: "ok", latency_ms: Date.now() - startTime, checked_at: startTime }
+                : {
+                    status: "error",
+                    latency_ms: Date.now() - startTime,
+                    error: `Replicate responded with status ${response.status}.`,
+                    checked_at: startTime
+                };
+        } catch (error) {
+            result = {
+                status: "error",
+                latency_ms: Date.now() - startTime,
+                error: error instanceof Error ? error.message : String(error),
+                checked_at: startTime
+            };
+        }
+
+        if (result.status !== "ok") {
+            logError("上游连通性探测失败", result.error);
+        } else if (this.lastProbe?.status === "error") {
+            logSystem("上游连通性已恢复");
+        }
+        this.lastProbe = result;
+        return result;
+    }
+
+    /**
+     * 生成就绪检查结果
+     * @returns 就绪检查结果
+     */
+    async checkReadiness(): Promise<ReadinessReport> {
+        const upstream = this.shuttingDown ? (this.lastProbe || { status: "disabled" as const }) : await this.probeUpstream();
+        const ready = !this.shuttingDown && upstream.status !== "error";
+
+        return {
+            status: ready ? "ready" : "not_ready",
+            shutting_down: this.shuttingDown,
+            in_flight_requests: this.inFlightRequests,
+            active_streams: getMetrics().getActiveStreams(),
+            config: getConfigFileStatus(),
+            upstream,
+            model_discovery: getModelDiscovery().getStatus()
+        };
+    }
+}
+
+/**
+ * 全局健康状态实例
+ */
+const healthMonitor = new HealthMonitor();
+
+/**
+ * 获取全局健康状态实例
+ * @returns HealthMonitor实例
+ */
+export function getHealthMonitor(): HealthMonitor {
+    return healthMonitor;
+}
@@ -0,0 +1,231 @@
+import { getUpstreamTokenPools, KEY_POOL_CONFIG } from "./config.ts";
+import { UpstreamKeyLease, UpstreamKeyPoolStatus, UpstreamKeyStatus } from "./types.ts";
+import { sha256Hex } from "./key-store.ts";
+import { logSystem, logWarn } from "./utils.ts";
+
+/**
+ * 密钥池中的密钥及其状态
+ */
+interface PooledKey {
+    token: string;
+    fingerprint: string;
+    inFlight: number;
+    requests: number;
+    failures: number;
+    cooldownUntil: number;
+    lastErrorStatus: number | null;
+    lastErrorAt: number | null;
+}
+
+/**
+ * 计算密钥指纹
+ * @param token - 密钥
+ * @returns SHA-256 的前12位
+ */
+async function fingerprintToken(token: string): Promise<string> {
+    return (await sha256Hex(token)).substring(0, 12);
+}
+
+/**
+ * 同一服务端令牌名称下的多个Replicate令牌
+ * 按 KEY_POOL_CONFIG.STRATEGY 选择密钥，上游返回 401/429 的密钥在冷却期间不再被选择；
+ * 所有密钥都在冷却时选择最早结束冷却的密钥，而不是直接拒绝请求
+ */
+export class UpstreamKeyPool {
+    /**
+     * 池中的密钥
+     */
+    private keys: PooledKey[] = [];
+
+    /**
+     * 轮换位置
+     */
+    private cursor = 0;
+
+    /**
+     * 构造函数
+     * @param name - 服务端令牌名称
+     */
+    constructor(readonly name: string) {}
+
+    /**
+     * 按当前配置更新池中的密钥，保留仍在池中的密钥的状态
+     * @param tokens - 密钥列表
+     */
+    async sync(tokens: string[]): Promise<void> {
+        if (tokens.length === this.keys.length && tokens.every((token, index) => this.keys[index].token === token)) {
+            return;
+        }
+
+        const previous = new Map(this.keys.map(key => [key.token, key]));
+        this.keys = await Promise.all(tokens.map(async token => previous.get(token) || {
+            token,
+            fingerprint: await fingerprintToken(token),
+            inFlight: 0,
+            requests: 0,
+            failures: 0,
+            cooldownUntil: 0,
+            lastErrorStatus: null,
+            lastErrorAt: null
+        }));
+        this.cursor = 0;
+        logSystem(`上游密钥池 ${this.name}: ${this.keys.map(key => key.fingerprint).join(", ")}`);
+    }
+
+    /**
+     * 借出一个密钥，调用结束后需要通过 release 归还
+     * @returns 借出的密钥
+     */
+    acquire(): UpstreamKeyLease {
+        const now = Date.now();
+        const ordered = this.keys.map((_, offset) => this.keys[(this.cursor + offset) % this.keys.length]);
+        const available = ordered.filter(key => key.cooldownUntil <= now);
+
+        let key: PooledKey;
+        if (available.length === 0) {
+            key = ordered.reduce((earliest, candidate) => candidate.cooldownUntil < earliest.cooldownUntil ? candidate : earliest);
+            logWarn(`上游密钥池 ${this.name} 的所有密钥都在冷却中，使用最早结束冷却的密钥 ${key.fingerprint}`);
+        } else if (KEY_POOL_CONFIG.STRATEGY === "least_loaded") {
+            key = available.reduce((least, candidate) => candidate.inFlight < least.inFlight ? candidate : least);
+        } else {
+            key = available[0];
+        }
+
+        this.cursor = (this.keys.indexOf(key) + 1) % this.keys.length;
+        key.inFlight++;
+        key.requests++;
+        return { token: key.token, fingerprint: key.fingerprint };
+    }
+
+    /**
+     * 归还借出的密钥
+     * @param lease - 借出的密钥
+     */
+    release(lease: UpstreamKeyLease): void {
+        const key = this.find(lease);
+        if (key && key.inFlight > 0) {
+            key.inFlight--;
+        }
+    }
+
+    /**
+     * 记录上游对该密钥返回的错误状态码，401/429 时开始冷却
+     * @param lease - 借出的密钥
+     * @param status - 状态码
+     * @param retryAfterMs - 上游返回的 Retry-After（毫秒，可选）
+     */
+    reportFailure(lease: UpstreamKeyLease, status: number, retryAfterMs?: number | null): void {
+        const key = this.find(lease);
+        if (!key || (status !== 401 && status !== 429)) {
+            return;
+        }
+
+        const cooldownMs = status === 401
+            ? KEY_POOL_CONFIG.AUTH_COOLDOWN_MS
+            : Math.max(KEY_POOL_CONFIG.RATE_LIMIT_COOLDOWN_MS, retryAfterMs ?? 0);
+        const now = Date.now();
+        key.failures++;
+        key.lastErrorStatus = status;
+        key.lastErrorAt = now;
+        key.cooldownUntil = Math.max(key.cooldownUntil, now + cooldownMs);
+        logWarn(`上游密钥 ${this.name}/${key.fingerprint} 返回 ${status}，冷却 ${Math.ceil(cooldownMs / 1000)} 秒`);
+    }
+
+    /**
+     * 除指定密钥外是否还有不在冷却中的密钥
+     * @param lease - 排除的密钥
+     */
+    hasOtherAvailableKey(lease: UpstreamKeyLease): boolean {
+        const now = Date.now();
+        return this.keys.some(key => key.fingerprint !== lease.fingerprint && key.cooldownUntil <= now);
+    }
+
+    /**
+     * 获取池的状态（只包含密钥指纹）
+     * @returns 状态
+     */
+    getStatus(): UpstreamKeyPoolStatus {
+        const now = Date.now();
+        return {
+            name: this.name,
+            keys: this.keys.map((key): UpstreamKeyStatus => ({
+                fingerprint: key.fingerprint,
+                status: key.cooldownUntil > now ? "cooling_down" : "available",
+                in_flight: key.inFlight,
+                requests: key.requests,
+                failures: key.failures,
+                cooldown_until: key.cooldownUntil > now ? key.cooldownUntil : null,
+                last_error_status: key.lastErrorStatus,
+                last_error_at: key.lastErrorAt
+            }))
+        };
+    }
+
+    /**
+     * 查找借出的密钥（配置更新后已移出池的密钥返回undefined）
+     * @param lease - 借出的密钥
+     */
+    private find(lease: UpstreamKeyLease): PooledKey | undefined {
+        return this.keys.find(key => key.token === lease.token);
+    }
+}
+
+/**
+ * 所有服务端令牌名称的密钥池
+ * 每次获取时按当前环境变量同步池中的密钥
+ */
+export class UpstreamKeyPools {
+    /**
+     * 令牌名称 -> 密钥池
+     */
+    private pools = new Map<string, UpstreamKeyPool>();
+
+    /**
+     * 获取密钥池
+     * @param name - 服务端令牌名称
+     * @returns 密钥池，名称未配置时返回undefined
+     */
+    async get(name: string): Promise<UpstreamKeyPool | undefined> {
+        const tokens = getUpstreamTokenPools()[name];
+        if (!tokens) {
+            this.pools.delete(name);
+            return undefined;
+        }
+
+        let pool = this.pools.get(name);
+        if (!pool) {
+            pool = new UpstreamKeyPool(name);
+            this.pools.set(name, pool);
+        }
+        await pool.sync(tokens);
+        return pool;
+    }
+
+    /**
+     * 获取所有已配置的密钥池的状态
+     * @returns 状态列表
+     */
+    async getStatus(): Promise<UpstreamKeyPoolStatus[]> {
+        const statuses: UpstreamKeyPoolStatus[] = [];
+        for (const name of Object.keys(getUpstreamTokenPools())) {
+            const pool = await this.get(name);
+            if (pool) {
+                statuses.push(pool.getStatus());
+            }
+        }
+        return statuses;
+    }
+}
+
+/**
+ * 全局密钥池实例
+ */
+const upstreamKeyPools = new UpstreamKeyPools();
+
+/**
+ * 获取全局密钥池实例
+ * @returns UpstreamKeyPools实例
+ */
+export function getUpstreamKeyPools(): UpstreamKeyPools {
+    return upstreamKeyPools;
+}
@@ -0,0 +1,231 @@
+import { AUTH_CONFIG } from "./config.ts";
+import { RateLimits, VirtualKeyRecord } from "./types.ts";
+import { logError, logSystem } from "./utils.ts";
+
+/**
+ * 密钥存储文件格式
+ */
+interface KeyStoreFile {
+    version: number;
+    keys: VirtualKeyRecord[];
+}
+
+/**
+ * 计算字符串的 SHA-256 十六进制摘要
+ * @param value - 原始字符串
+ * @returns 十六进制摘要
+ */
+export async function sha256Hex(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, "0"))
+        .join("");
+}
+
+/**
+ * 生成随机十六进制字符串
+ * @param bytes - 字节数
+ * @returns 十六进制字符串
+ */
+function randomHex(bytes: number): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(bytes)))
+        .map(byte => byte.toString(16).padStart(2, "0"))
+        .join("");
+}
+
+/**
+ * 生成用于展示的密钥预览（只保留首尾少量字符）
+ * @param key - 明文密钥
+ * @returns 密钥预览
+ */
+function createKeyPreview(key: string): string {
+    return `${key.substring(0, AUTH_CONFIG.KEY_PREFIX.length + 4)}...${key.substring(key.length - 4)}`;
+}
+
+/**
+ * 虚拟API密钥存储
+ * 基于JSON文件持久化，只保存密钥的SHA-256哈希；明文密钥仅在创建时返回一次
+ */
+export class KeyStore {
+    /**
+     * 存储文件路径
+     */
+    private path: string;
+
+    /**
+     * 内存中的密钥记录
+     */
+    private records: VirtualKeyRecord[] = [];
+
+    /**
+     * 加载状态
+     */
+    private loadPromise: Promise<void> | null = null;
+
+    /**
+     * 写入队列，保证并发修改按顺序落盘
+     */
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    /**
+     * 构造函数
+     * @param path - 存储文件路径
+     */
+    constructor(path: string) {
+        this.path = path;
+    }
+
+    /**
+     * 确保已从文件加载密钥记录
+     */
+    private ensureLoaded(): Promise<void> {
+        if (!this.loadPromise) {
+            this.loadPromise = this.load();
+        }
+        return this.loadPromise;
+    }
+
+    /**
+     * 从文件加载密钥记录，文件不存在时视为空存储
+     */
+    private async load(): Promise<void> {
+        try {
+            const content = await Deno.readTextFile(this.path);
+            const parsed = JSON.parse(content) as KeyStoreFile;
+            this.records = Array.isArray(parsed.keys) ? parsed.keys : [];
+            logSystem(`已加载虚拟密钥存储: ${this.records.length} 个密钥`);
+        } catch (error) {
+            if (error instanceof Deno.errors.NotFound) {
+                this.records = [];
+                logSystem(`虚拟密钥存储文件不存在，将在创建密钥时生成: ${this.path}`);
+                return;
+            }
+            // 文件损坏时不覆盖，避免丢失已有密钥
+            this.loadPromise = null;
+            throw error;
+        }
+    }
+
+    /**
+     * 将密钥记录写入文件（先写临时文件再重命名，避免写入中断导致文件损坏）
+     */
+    private persist(): Promise<void> {
+        const data: KeyStoreFile = { version: 1, keys: this.records };
+        const task = this.writeQueue.then(async () => {
+            const directory = this.path.substring(0, this.path.lastIndexOf("/"));
+            if (directory) {
+                await Deno.mkdir(directory, { recursive: true });
+            }
+            const tempPath = `${this.path}.tmp`;
+            await Deno.writeTextFile(tempPath, JSON.stringify(data, null, 2));
+            await Deno.rename(tempPath, this.path);
+        });
+        // 写入失败不阻塞后续写入
+        this.writeQueue = task.catch(error => logError("写入虚拟密钥存储失败", error));
+        return task;
+    }
+
+    /**
+     * 创建新的虚拟密钥
+     * @param name - 密钥名称（便于识别使用者）
+     * @param upstreamToken - 映射的服务端Replicate令牌名称
+     * @param rateLimits - 单独配置的限额（可选，未配置时使用全局默认值）
+     * @returns 密钥记录与明文密钥
+     */
+    async create(
+        name: string,
+        upstreamToken: string,
+        rateLimits?: RateLimits
+    ): Promise<{ record: VirtualKeyRecord; key: string }> {
+        await this.ensureLoaded();
+
+        const key = `${AUTH_CONFIG.KEY_PREFIX}${randomHex(24)}`;
+        const record: VirtualKeyRecord = {
+            id: `key_${randomHex(8)}`,
+            name,
+            key_hash: await sha256Hex(key),
+            key_preview: createKeyPreview(key),
+            upstream_token: upstreamToken,
+            ...(rateLimits ? { rate_limits: rateLimits } : {}),
+            created_at: Math.floor(Date.now() / 1000),
+            revoked_at: null
+        };
+
+        this.records.push(record);
+        try {
+            await this.persist();
+        } catch (error) {
+            // 写入失败时移除记录，避免调用方收到错误后该密钥仍然可以使用
+            this.records.splice(this.records.indexOf(record), 1);
+            throw error;
+        }
+
+        logSystem(`已创建虚拟密钥: ${record.id} (${record.key_preview}) -> ${upstreamToken}`);
+        return { record, key };
+    }
+
+    /**
+     * 吊销虚拟密钥
+     * @param id - 密钥ID
+     * @returns 被吊销的记录，不存在时返回null
+     */
+    async revoke(id: string): Promise<VirtualKeyRecord | null> {
+        await this.ensureLoaded();
+
+        const record = this.records.find(item => item.id === id);
+        if (!record) {
+            return null;
+        }
+
+        if (record.revoked_at === null) {
+            record.revoked_at = Math.floor(Date.now() / 1000);
+            try {
+                await this.persist();
+            } catch (error) {
+                // 写入失败时恢复为未吊销，避免只在内存中吊销、重启后密钥又可以使用
+                record.revoked_at = null;
+                throw error;
+            }
+            logSystem(`已吊销虚拟密钥: ${record.id} (${record.key_preview})`);
+        }
+
+        return record;
+    }
+
+    /**
+     * 列出所有虚拟密钥记录
+     * @returns 密钥记录列表
+     */
+    async list(): Promise<VirtualKeyRecord[]> {
+        await this.ensureLoaded();
+        return [...this.records];
+    }
+
+    /**
+     * 根据明文密钥查找记录
+     * @param key - 客户端提供的明文密钥
+     * @returns 密钥记录，不存在时返回null（已吊销的记录也会返回，由调用方判断）
+     */
+    async resolve(key: string): Promise<VirtualKeyRecord | null> {
+        await this.ensureLoaded();
+
+        const keyHash = await sha256Hex(key);
+        return this.records.find(item => item.key_hash === keyHash) || null;
+    }
+}
+
+/**
+ * 全局密钥存储实例
+ */
+let keyStore: KeyStore | null = null;
+
+/**
+ * 获取全局密钥存储实例
+ * @returns KeyStore实例
+ */
+export function getKeyStore(): KeyStore {
+    if (!keyStore) {
+        keyStore = new KeyStore(AUTH_CONFIG.KEY_STORE_PATH);
+    }
+    return keyStore;
+}
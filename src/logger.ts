@@ -0,0 +1,325 @@
+import { LOG_CONFIG } from "./config.ts";
+import { LogEntry, LogLevel, LogSink } from "./types.ts";
+
+/**
+ * 日志级别的优先级
+ */
+const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40
+};
+
+/**
+ * 将日志事件格式化为便于阅读的单行文本
+ * @param entry - 日志事件
+ * @returns 文本
+ */
+function formatText(entry: LogEntry): string {
+    const requestId = entry.request_id ? ` ${entry.request_id}` : "";
+    const fields = entry.fields && Object.keys(entry.fields).length > 0 ? ` ${JSON.stringify(entry.fields)}` : "";
+    return `[${entry.timestamp}] [${entry.level.toUpperCase()}] [${entry.event}]${requestId} ${entry.message}${fields}`;
+}
+
+/**
+ * 输出到标准输出（warn/error 输出到标准错误）
+ */
+class StdoutSink implements LogSink {
+    readonly name = "stdout";
+
+    /**
+     * 构造函数
+     * @param format - 输出格式
+     */
+    constructor(private readonly format: "json" | "text") {}
+
+    /**
+     * 写入日志
+     * @param entry - 日志事件
+     */
+    write(entry: LogEntry): void {
+        const line = this.format === "json" ? JSON.stringify(entry) : formatText(entry);
+        if (entry.level === "error") {
+            console.error(line);
+        } else if (entry.level === "warn") {
+            console.warn(line);
+        } else {
+            console.log(line);
+        }
+    }
+}
+
+/**
+ * 输出到文件，超过大小限制时轮转（proxy.log -> proxy.log.1 -> proxy.log.2 ...）
+ */
+export class RotatingFileSink implements LogSink {
+    readonly name = "file";
+
+    /**
+     * 当前文件大小（字节）
+     */
+    private size: number;
+
+    /**
+     * 构造函数
+     * @param path - 文件路径
+     * @param maxBytes - 单个文件的最大字节数
+     * @param maxFiles - 保留的历史文件数量
+     */
+    constructor(
+        private readonly path: string,
+        private readonly maxBytes: number,
+        private readonly maxFiles: number
+    ) {
+        const separator = path.lastIndexOf("/");
+        if (separator > 0) {
+            Deno.mkdirSync(path.substring(0, separator), { recursive: true });
+        }
+        try {
+            this.size = Deno.statSync(path).size;
+        } catch {
+            this.size = 0;
+        }
+    }
+
+    /**
+     * 写入日志
+     * @param entry - 日志事件
+     */
+    write(entry: LogEntry): void {
+        const line = `${JSON.stringify(entry)}\n`;
+        const bytes = new TextEncoder().encode(line).byteLength;
+        if (this.size > 0 && this.size + bytes > this.maxBytes) {
+            this.rotate();
+        }
+        Deno.writeTextFileSync(this.path, line, { append: true });
+        this.size += bytes;
+    }
+
+    /**
+     * 轮转日志文件，删除最旧的文件
+     */
+    private rotate(): void {
+        try {
+            Deno.removeSync(`${this.path}.${this.maxFiles}`);
+        } catch {
+            // 文件不存在
+        }
+        for (let index = this.maxFiles - 1; index >= 1; index--) {
+            try {
+                Deno.renameSync(`${this.path}.${index}`, `${this.path}.${index + 1}`);
+            } catch {
+                // 文件不存在
+            }
+        }
+        Deno.renameSync(this.path, `${this.path}.1`);
+        this.size = 0;
+    }
+}
+
+/**
+ * 批量POST到HTTP日志收集器（JSON数组），发送失败时保留在缓冲中等待下次发送
+ */
+export class HttpSink implements LogSink {
+    readonly name = "http";
+
+    /**
+     * 等待发送的日志
+     */
+    private buffer: LogEntry[] = [];
+
+    /**
+     * 正在进行的发送
+     */
+    private sending: Promise<void> | null = null;
+
+    /**
+     * 构造函数
+     * @param url - 收集器地址
+     * @param batchSize - 每批发送的条数，缓冲达到该数量时立即发送
+     * @param flushIntervalMs - 定时发送的间隔
+     * @param maxBuffer - 最多缓存的条数
+     */
+    constructor(
+        private readonly url: string,
+        private readonly batchSize: number,
+        flushIntervalMs: number,
+        private readonly maxBuffer: number
+    ) {
+        const timer = setInterval(() => void this.flush(), flushIntervalMs);
+        // 定时发送不阻止进程退出
+        Deno.unrefTimer(timer);
+    }
+
+    /**
+     * 写入日志
+     * @param entry - 日志事件
+     */
+    write(entry: LogEntry): void {
+        this.buffer.push(entry);
+        if (this.buffer.length > this.maxBuffer) {
+            this.buffer.splice(0, this.buffer.length - this.maxBuffer);
+        }
+        if (this.buffer.length >= this.batchSize) {
+            void this.flush();
+        }
+    }
+
+    /**
+     * 发送缓冲中的日志
+     */
+    async flush(): Promise<void> {
+        while (this.sending) {
+            await this.sending;
+        }
+        if (this.buffer.length === 0) {
+            return;
+        }
+
+        const batch = this.buffer.splice(0, this.batchSize);
+        this.sending = this.send(batch).finally(() => {
+            this.sending = null;
+        });
+        await this.sending;
+    }
+
+    /**
+     * 发送一批日志，失败时放回缓冲
+     * @param batch - 日志
+     */
+    private async send(batch: LogEntry[]): Promise<void> {
+        try {
+            const response = await fetch(this.url, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(batch),
+                signal: AbortSignal.timeout(5000)
+            });
+            await response.body?.cancel();
+            if (!response.ok) {
+                throw new Error(`status ${response.status}`);
+            }
+        } catch (error) {
+            this.buffer.unshift(...batch.slice(0, this.maxBuffer - this.buffer.length));
+            // 不能通过日志系统记录，避免递归
+            console.error(`日志发送失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
+
+/**
+ * 结构化日志记录器
+ */
+export class Logger {
+    /**
+     * 构造函数
+     * @param level - 最低输出级别
+     * @param sinks - 输出目标
+     */
+    constructor(private level: LogLevel, private sinks: LogSink[]) {}
+
+    /**
+     * 添加输出目标
+     * @param sink - 输出目标
+     */
+    addSink(sink: LogSink): void {
+        this.sinks.push(sink);
+    }
+
+    /**
+     * 设置最低输出级别
+     * @param level - 日志级别
+     */
+    setLevel(level: LogLevel): void {
+        this.level = level;
+    }
+
+    /**
+     * 是否输出该级别的日志
+     * @param level - 日志级别
+     */
+    isEnabled(level: LogLevel): boolean {
+        return LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[this.level];
+    }
+
+    /**
+     * 记录日志事件
+     * @param level - 日志级别
+     * @param event - 事件名称
+     * @param message - 说明（不得包含用户内容）
+     * @param fields - 附加字段（不得包含用户内容）
+     * @param requestId - 请求ID
+     */
+    log(level: LogLevel, event: string, message: string, fields?: Record<string, unknown>, requestId?: string): void {
+        if (!this.isEnabled(level)) {
+            return;
+        }
+
+        const entry: LogEntry = {
+            timestamp: new Date().toISOString(),
+            level,
+            event,
+            ...(requestId ? { request_id: requestId } : {}),
+            message,
+            ...(fields && Object.keys(fields).length > 0 ? { fields } : {})
+        };
+
+        for (const sink of this.sinks) {
+            try {
+                sink.write(entry);
+            } catch (error) {
+                console.error(`日志输出失败 (${sink.name}): ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    }
+
+    /**
+     * 输出所有缓冲中的日志（关闭前调用）
+     */
+    async flush(): Promise<void> {
+        await Promise.all(this.sinks.map(sink => sink.flush?.()));
+    }
+}
+
+/**
+ * 根据 LOG_CONFIG 创建输出目标
+ * @returns 输出目标
+ */
+function createSinks(): LogSink[] {
+    const sinks: LogSink[] = [];
+    for (const name of LOG_CONFIG.SINKS) {
+        if (name === "stdout") {
+            sinks.push(new StdoutSink(LOG_CONFIG.FORMAT));
+        } else if (name === "file") {
+            sinks.push(new RotatingFileSink(LOG_CONFIG.FILE_PATH, LOG_CONFIG.FILE_MAX_BYTES, LOG_CONFIG.FILE_MAX_FILES));
+        } else if (name === "http" && LOG_CONFIG.HTTP_URL) {
+            sinks.push(new HttpSink(
+                LOG_CONFIG.HTTP_URL,
+                LOG_CONFIG.HTTP_BATCH_SIZE,
+                LOG_CONFIG.HTTP_FLUSH_INTERVAL_MS,
+                LOG_CONFIG.HTTP_MAX_BUFFER
+            ));
+        } else {
+            console.error(`未知或未配置的日志输出目标: ${name}`);
+        }
+    }
+    return sinks.length > 0 ? sinks : [new StdoutSink(LOG_CONFIG.FORMAT)];
+}
+
+/**
+ * 全局日志记录器（首次使用时创建，避免模块循环依赖时 LOG_CONFIG 尚未初始化）
+ */
+let logger: Logger | null = null;
+
+/**
+ * 获取全局日志记录器
+ * @returns Logger实例
+ */
+export function getLogger(): Logger {
+    if (!logger) {
+        const level = LOG_CONFIG.LEVEL in LOG_LEVEL_PRIORITY ? LOG_CONFIG.LEVEL : "info";
+        logger = new Logger(level, createSinks());
+    }
+    return logger;
+}
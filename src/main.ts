@@ -1,53 +1,76 @@
 import { routeRequest } from "./controllers.ts";
 import { 
     logError, 
-    withTimeout, 
     createTimeoutErrorResponse, 
     logSystem,
-    generateRequestId,
     logRequestStart,
     logResponseComplete
 } from "./utils.ts";
-import { TIMEOUT_CONFIG } from "./config.ts";
+import { MODEL_DISCOVERY_CONFIG, SHUTDOWN_CONFIG, TIMEOUT_CONFIG, TRACING_CONFIG } from "./config.ts";
+import { initConfigFile } from "./config-file.ts";
+import { getModelDiscovery } from "./model-discovery.ts";
+import { getMetrics, normalizeRoute } from "./metrics.ts";
+import { getHealthMonitor, isHealthCheckPath } from "./health.ts";
+import { getLogger } from "./logger.ts";
+import { createRequestContext, withRequestId } from "./request-context.ts";
+import { getTracer } from "./tracing.ts";
+import { UpstreamTimeoutError } from "./timeouts.ts";
 
 /**
- * 主请求处理函数（带600秒超时控制）
+ * 主请求处理函数
  * 接收所有传入的HTTP请求并将其路由到相应的处理函数
+ * 在此创建请求上下文与入口span（健康检查除外），所有响应都带有 X-Request-Id 响应头
+ * 超时由 ApiService 按整个请求计时（见 timeouts.ts），这里不再包装整体超时
  * 
  * @param req - 传入的Request对象
  * @returns Promise<Response> - 响应对象
  */
 async function handler(req: Request): Promise<Response> {
-    const requestId = generateRequestId();
-    const startTime = Date.now();
+    const context = createRequestContext(req);
+    const { requestId, startTime } = context;
+    const pathname = new URL(req.url).pathname;
+    const tracked = !isHealthCheckPath(pathname);
+    if (tracked) {
+        getHealthMonitor().requestStarted();
+    }
+    const route = normalizeRoute(pathname);
+    const span = tracked
+        ? getTracer().startRequestSpan(`${req.method} ${route}`, context, {
+            "http.request.method": req.method,
+            "http.route": route,
+            "url.path": pathname
+        })
+        : null;
+    let status = 500;
     
     try {
         // 记录请求开始
         logRequestStart(req, requestId);
         
-        // 使用超时控制将请求路由到合适的处理函数
-        // 设置600秒（10分钟）的全局超时时间
-        const response = await withTimeout(
-            routeRequest(req),
-            TIMEOUT_CONFIG.REQUEST_TIMEOUT,
-            "请求处理总体超时（600秒），请稍后重试"
-        );
+        // 将请求路由到合适的处理函数
+        const response = await routeRequest(req, context);
         
         // 记录响应完成
+        status = response.status;
         logResponseComplete(requestId, startTime, response.status);
-        return response;
+        getMetrics().recordRequest(req, response.status, Date.now() - startTime);
+        return await withRequestId(response, context);
         
     } catch (error) {
-        // 检查是否是超时错误
-        if (error instanceof Error && error.message.includes("超时")) {
-            logError("请求处理超时", error, requestId);
-            const timeoutResponse = createTimeoutErrorResponse(error.message);
+        // 控制器未处理的上游超时错误
+        if (error instanceof UpstreamTimeoutError) {
+            logError(error.label, error, requestId);
+            const timeoutResponse = createTimeoutErrorResponse(error.message, error.code);
+            status = timeoutResponse.status;
+            span?.recordError(error);
             logResponseComplete(requestId, startTime, timeoutResponse.status, "请求超时");
-            return timeoutResponse;
+            getMetrics().recordRequest(req, timeoutResponse.status, Date.now() - startTime);
+            return await withRequestId(timeoutResponse, context);
         }
         
         // 全局错误处理，确保服务不会因为未处理的异常而中断
         logError("主处理程序中的未处理错误", error, requestId);
+        span?.recordError(error);
         const errorResponse = new Response(JSON.stringify({ 
             error: "Internal Server Error",
             message: "服务器内部错误，请稍后重试"
@@ -60,21 +83,91 @@ async function handler(req: Request): Promise<Response> {
         });
         
         logResponseComplete(requestId, startTime, errorResponse.status, "内部错误");
-        return errorResponse;
+        getMetrics().recordRequest(req, errorResponse.status, Date.now() - startTime);
+        return await withRequestId(errorResponse, context);
+    } finally {
+        if (tracked) {
+            getHealthMonitor().requestFinished();
+        }
+        // 流式响应的入口span在响应头返回时结束，上游读取的span在流结束时结束
+        span?.setAttributes({ "http.response.status_code": status });
+        span?.end();
     }
 }
 
+// 加载外部配置文件（CONFIG_FILE），配置无效时终止启动
+try {
+    await initConfigFile();
+} catch {
+    await getLogger().flush();
+    Deno.exit(1);
+}
+
+// 启用模型发现时在后台查询模型（不阻塞启动）
+getModelDiscovery().start();
+
 // 获取端口配置
 const port = parseInt(Deno.env.get("PORT") || "8000");
 
 // 启动Deno服务器并监听传入请求
 logSystem(`正在启动Claude API代理服务器...`);
 logSystem(`服务器将在端口 ${port} 上运行`);
-logSystem(`请求超时时间: ${TIMEOUT_CONFIG.REQUEST_TIMEOUT / 1000} 秒`);
+logSystem(`请求超时时间: ${TIMEOUT_CONFIG.REQUEST_TIMEOUT / 1000} 秒（首个token ${TIMEOUT_CONFIG.FIRST_TOKEN_TIMEOUT / 1000} 秒，流式空闲 ${TIMEOUT_CONFIG.IDLE_TIMEOUT / 1000} 秒）`);
 logSystem(`访问地址: http://localhost:${port}`);
 logSystem(`模型列表: http://localhost:${port}/v1/models`);
 logSystem(`聊天接口: http://localhost:${port}/v1/chat/completions`);
+logSystem(`运行指标: http://localhost:${port}/metrics`);
+logSystem(`健康检查: http://localhost:${port}/healthz, http://localhost:${port}/readyz`);
+logSystem(`模型发现: ${MODEL_DISCOVERY_CONFIG.ENABLED
+    ? `集合 ${MODEL_DISCOVERY_CONFIG.COLLECTION}，每 ${MODEL_DISCOVERY_CONFIG.INTERVAL_MS / 1000} 秒刷新`
+    : "未启用（设置 MODEL_DISCOVERY=true 启用）"}`);
+logSystem(`追踪导出: ${TRACING_CONFIG.TRACES_URL || "未启用（设置 OTEL_EXPORTER_OTLP_ENDPOINT 启用）"}`);
 logSystem(`环境: ${Deno.env.get("DENO_ENV") || "development"}`);
 
 // 启动服务器
-Deno.serve({ port }, handler);
\ No newline at end of file
+const server = Deno.serve({ port }, handler);
+
+/**
+ * 等待指定时间
+ * @param ms - 毫秒
+ * @returns 到时后返回false
+ */
+function delay(ms: number): Promise<false> {
+    return new Promise(resolve => setTimeout(() => resolve(false), ms));
+}
+
+/**
+ * 收到终止信号后标记为未就绪并停止接受新连接，
+ * 等待进行中的请求和流式响应完成（最长 SHUTDOWN_DRAIN_TIMEOUT_MS），超时后终止剩余的流再退出
+ * @param signal - 信号名称
+ */
+async function shutdown(signal: Deno.Signal): Promise<void> {
+    const healthMonitor = getHealthMonitor();
+    if (healthMonitor.isShuttingDown()) {
+        return;
+    }
+    healthMonitor.markShuttingDown();
+    logSystem(`收到 ${signal}，正在关闭服务器，最长等待 ${SHUTDOWN_CONFIG.DRAIN_TIMEOUT_MS / 1000} 秒...`);
+
+    const finished = server.shutdown().then(() => true);
+    const drained = await Promise.race([finished, delay(SHUTDOWN_CONFIG.DRAIN_TIMEOUT_MS)]);
+
+    if (!drained) {
+        const terminated = healthMonitor.terminateStreams();
+        logSystem(`排空超时，已终止 ${terminated} 个流式响应，剩余 ${healthMonitor.getInFlightRequests()} 个请求未完成`);
+        await Promise.race([finished, delay(SHUTDOWN_CONFIG.FORCE_CLOSE_GRACE_MS)]);
+    }
+
+    logSystem("服务器已关闭");
+    await getTracer().flush();
+    await getLogger().flush();
+    Deno.exit(0);
+}
+
+for (const signal of ["SIGTERM", "SIGINT"] as Deno.Signal[]) {
+    try {
+        Deno.addSignalListener(signal, () => shutdown(signal));
+    } catch {
+        // 不支持该信号的平台（如 Windows 上的 SIGTERM）
+    }
+}
\ No newline at end of file
@@ -1,6 +1,8 @@
-import { Message, ContentItem, ModelInput, RequestBody } from "./types.ts";
-import { logError, logSystem } from "./utils.ts";
-import { validateMaxTokens } from "./config.ts";
+import { Message, ContentItem, ImageCapability, ModelInput, ModelProfile, RequestBody } from "./types.ts";
+import { logError, logRequestEvent } from "./utils.ts";
+import { DEFAULT_MODEL_ID, getActualModelId, getModelProfile } from "./config.ts";
+import { estimateInputTokens } from "./usage.ts";
+import { buildToolsPrompt, formatToolCallsForPrompt, formatToolResultForPrompt, isToolCallingEnabled } from "./tool-calls.ts";
 
 /**
  * 处理消息并提取系统提示、图片URL和格式化对话内容
@@ -28,6 +30,15 @@ export function processMessages(requestBody: RequestBody, requestId?: string): {
         // 提取并合并所有系统消息
         systemPrompt = extractSystemPrompt(messagesClone, requestId);
 
+        // 将可用工具的说明追加到系统提示中
+        if (isToolCallingEnabled(requestBody)) {
+            const toolsPrompt = buildToolsPrompt(requestBody.tools!, requestBody.tool_choice);
+            systemPrompt = systemPrompt ? `${systemPrompt}\n\n${toolsPrompt}` : toolsPrompt;
+            if (requestId) {
+                logRequestEvent(requestId, "message.processing", `已添加 ${requestBody.tools!.length} 个工具定义到系统提示`);
+            }
+        }
+
         // 提取图片URL
         extractImageUrls(messagesClone, imageUrls, requestId);
 
@@ -36,7 +47,7 @@ export function processMessages(requestBody: RequestBody, requestId?: string): {
 
         // 安全地记录处理结果的元数据（不记录实际内容）
         if (requestId) {
-            logSystem(`${requestId} 消息处理完成 - 图片数量: ${imageUrls.length}, 系统提示长度: ${systemPrompt.length}字符, 对话内容长度: ${userContent?.length || 0}字符`);
+            logRequestEvent(requestId, "message.processing", `消息处理完成 - 图片数量: ${imageUrls.length}, 系统提示长度: ${systemPrompt.length}字符, 对话内容长度: ${userContent?.length || 0}字符`);
         }
 
         return { userContent, systemPrompt, imageUrls };
@@ -60,7 +71,7 @@ function extractSystemPrompt(messages: Message[], requestId?: string): string {
 
     if (systemMessages.length > 0) {
         if (requestId) {
-            logSystem(`${requestId} 发现 ${systemMessages.length} 个系统消息，正在合并...`);
+            logRequestEvent(requestId, "message.processing", `发现 ${systemMessages.length} 个系统消息，正在合并...`);
         }
         
         // 处理每个系统消息并合并
@@ -83,21 +94,35 @@ function extractSystemPrompt(messages: Message[], requestId?: string): string {
         messages.push(...nonSystemMessages); // 添加非系统消息
 
         if (requestId) {
-            logSystem(`${requestId} 所有系统提示已合并 - 总长度: ${systemPrompt.trim().length}字符`);
+            logRequestEvent(requestId, "message.processing", `所有系统提示已合并 - 总长度: ${systemPrompt.trim().length}字符`);
         }
     }
 
     return systemPrompt.trim();
 }
 
+/**
+ * 判断内容项是否为有效的图片
+ * @param contentItem - 内容项
+ */
+function isImageItem(contentItem: ContentItem): boolean {
+    return contentItem.type === "image_url" && !!contentItem.image_url?.url;
+}
+
 /**
  * 从消息中提取图片URL
+ * 有多张图片时，在原位置插入 [Image N] 标记，便于模型区分对话中引用的是哪一张图片
  * @param messages - 消息数组
  * @param imageUrls - 存储图片URL的数组
  * @param requestId - 请求ID（用于日志）
  */
 function extractImageUrls(messages: Message[], imageUrls: string[], requestId?: string): void {
     let totalImages = 0;
+
+    // 先统计图片数量，决定是否需要插入标记
+    const imageCount = messages
+        .filter(message => message.role === "user" && Array.isArray(message.content))
+        .reduce((count, message) => count + (message.content as ContentItem[]).filter(isImageItem).length, 0);
     
     // 遍历消息，提取图片URL
     for (const message of messages) {
@@ -107,10 +132,13 @@ function extractImageUrls(messages: Message[], imageUrls: string[], requestId?:
 
             for (const contentItem of message.content as ContentItem[]) {
                 // 提取图片URL
-                if (contentItem.type === "image_url" && contentItem.image_url && contentItem.image_url.url) {
-                    imageUrls.push(contentItem.image_url.url);
+                if (isImageItem(contentItem)) {
+                    imageUrls.push(contentItem.image_url!.url);
                     totalImages++;
-                    // 不将图片添加到文本内容中
+                    // 不将图片添加到文本内容中，多张图片时保留位置标记
+                    if (imageCount > 1) {
+                        textOnlyContent.push({ type: "text", text: `[Image ${totalImages}]` });
+                    }
                 } else if (contentItem.type === "text") {
                     // 保留文本内容
                     textOnlyContent.push(contentItem);
@@ -123,13 +151,13 @@ function extractImageUrls(messages: Message[], imageUrls: string[], requestId?:
     }
     
     if (totalImages > 0 && requestId) {
-        logSystem(`${requestId} 提取了 ${totalImages} 张图片`);
+        logRequestEvent(requestId, "message.processing", `提取了 ${totalImages} 张图片`);
     }
 }
 
 /**
  * 将消息数组格式化为 Anthropic 旧版 Completions API 格式
- * 角色映射：user -> Human, assistant -> Assistant
+ * 角色映射：user -> Human, assistant -> Assistant, tool -> Human（以 <tool_result> 块呈现）
  * 格式：Human: xxx\nAssistant: xxx\n
  * 智能处理最后的 Assistant 角色
  * @param messages - 消息数组
@@ -144,12 +172,16 @@ function formatMessagesToAnthropicFormat(messages: Message[], requestId?: string
     // 角色映射
     const roleMapping: Record<string, string> = {
         "user": "Human",
-        "assistant": "Assistant"
+        "assistant": "Assistant",
+        "tool": "Human"
     };
 
+    // 工具调用ID -> 工具名称（用于标注工具执行结果）
+    const toolNames = new Map<string, string>();
+
     // 处理每条消息
     for (const message of messages) {
-        if (message.role && (message.content || Array.isArray(message.content))) {
+        if (message.role && (message.content || Array.isArray(message.content) || message.tool_calls?.length)) {
             // 获取映射后的角色名称，如果没有映射则保持原样
             const mappedRole = roleMapping[message.role] || message.role;
             
@@ -166,7 +198,22 @@ function formatMessagesToAnthropicFormat(messages: Message[], requestId?: string
                     .join(" ");
             } else {
                 // 如果是字符串，直接使用
-                messageText = message.content;
+                messageText = message.content || "";
+            }
+
+            // 助手消息中的工具调用按约定格式渲染
+            if (message.role === "assistant" && message.tool_calls?.length) {
+                for (const toolCall of message.tool_calls) {
+                    toolNames.set(toolCall.id, toolCall.function.name);
+                }
+                const renderedCalls = formatToolCallsForPrompt(message.tool_calls);
+                messageText = messageText ? `${messageText}\n${renderedCalls}` : renderedCalls;
+            }
+
+            // 工具执行结果
+            if (message.role === "tool") {
+                const toolName = message.name || toolNames.get(message.tool_call_id || "");
+                messageText = formatToolResultForPrompt(message, toolName, messageText);
             }
 
             formattedContent += messageText;
@@ -186,30 +233,91 @@ function formatMessagesToAnthropicFormat(messages: Message[], requestId?: string
         formattedContent += "Assistant:";
         
         if (requestId) {
-            logSystem(`${requestId} 最后一条消息不是assistant角色，已添加Assistant:提示`);
+            logRequestEvent(requestId, "message.processing", `最后一条消息不是assistant角色，已添加Assistant:提示`);
         }
     } else {
         // 如果最后一条消息是 assistant 角色，已经在上面的循环中处理为 Assistant: 了
         if (requestId) {
-            logSystem(`${requestId} 最后一条消息是assistant角色，已保留并替换为Assistant:`);
+            logRequestEvent(requestId, "message.processing", `最后一条消息是assistant角色，已保留并替换为Assistant:`);
         }
     }
 
     // 安全地记录格式化结果（不记录实际内容）
     if (requestId) {
-        logSystem(`${requestId} Anthropic格式化完成 - 消息数量: ${messageCount}, 总长度: ${totalLength}字符`);
+        logRequestEvent(requestId, "message.processing", `Anthropic格式化完成 - 消息数量: ${messageCount}, 总长度: ${totalLength}字符`);
     }
 
     return formattedContent;
 }
 
+/**
+ * 检查图片数量是否超出模型的图片输入能力
+ * @param imageCount - 图片数量
+ * @param capability - 模型图片输入能力
+ * @param requestModelName - 请求的模型名称（用于错误消息）
+ * @returns 错误消息，检查通过时返回null
+ */
+export function checkImageSupport(imageCount: number, capability: ImageCapability, requestModelName: string): string | null {
+    if (imageCount <= capability.max_images) {
+        return null;
+    }
+
+    if (capability.max_images === 0) {
+        return `Model '${requestModelName}' does not support image input.`;
+    }
+
+    return `Model '${requestModelName}' accepts at most ${capability.max_images} image(s) per request, but ${imageCount} were provided.`;
+}
+
+/**
+ * 检查请求的 max_tokens 是否在模型允许的范围内
+ * @param maxTokens - 请求中的 max_tokens（未提供时使用模型默认值）
+ * @param profile - 模型档案
+ * @param requestModelName - 请求的模型名称（用于错误消息）
+ * @returns 错误消息，检查通过时返回null
+ */
+export function checkMaxTokens(maxTokens: unknown, profile: ModelProfile, requestModelName: string): string | null {
+    if (maxTokens === undefined || maxTokens === null) {
+        return null;
+    }
+
+    if (typeof maxTokens !== "number" || !Number.isInteger(maxTokens)) {
+        return "'max_tokens' must be an integer.";
+    }
+
+    if (maxTokens < profile.min_output_tokens || maxTokens > profile.max_output_tokens) {
+        return `'max_tokens' must be between ${profile.min_output_tokens} and ${profile.max_output_tokens} for model '${requestModelName}', got ${maxTokens}.`;
+    }
+
+    return null;
+}
+
+/**
+ * 检查预估的输入token数与 max_tokens 之和是否超出模型的上下文窗口
+ * @param input - 模型输入
+ * @param profile - 模型档案
+ * @param requestModelName - 请求的模型名称（用于错误消息）
+ * @returns 错误消息，检查通过时返回null
+ */
+export function checkContextWindow(input: ModelInput, profile: ModelProfile, requestModelName: string): string | null {
+    const inputTokens = estimateInputTokens(input);
+    if (inputTokens + input.max_tokens <= profile.context_window) {
+        return null;
+    }
+
+    return `This model's maximum context length is ${profile.context_window} tokens. However, you requested about ` +
+        `${inputTokens + input.max_tokens} tokens (about ${inputTokens} in the messages, ${input.max_tokens} in the completion) ` +
+        `for model '${requestModelName}'. Please reduce the length of the messages or completion.`;
+}
+
 /**
  * 构建模型API输入
  * @param userContent - 用户内容（已格式化为Anthropic格式）
  * @param systemPrompt - 系统提示
- * @param imageUrls - 图片URL数组
- * @param maxTokens - 最大token数量（可选）
+ * @param imageUrls - 图片URL数组（调用前应已通过 checkImageSupport 检查数量）
+ * @param maxTokens - 最大token数量（可选，调用前应已通过 checkMaxTokens 检查）
  * @param requestId - 请求ID（用于日志）
+ * @param profile - 模型档案（提供默认参数，并决定图片放入哪个字段）
  * @returns 模型输入对象
  */
 export function buildModelInput(
@@ -217,32 +325,31 @@ export function buildModelInput(
     systemPrompt: string,
     imageUrls: string[],
     maxTokens?: number,
-    requestId?: string
+    requestId?: string,
+    profile: ModelProfile = getModelProfile(getActualModelId(DEFAULT_MODEL_ID))
 ): ModelInput {
-    const validatedMaxTokens = validateMaxTokens(maxTokens);
-    
+    const { max_tokens: defaultMaxTokens, ...defaultParameters } = profile.default_parameters;
+    const resolvedMaxTokens = maxTokens ?? defaultMaxTokens ?? profile.max_output_tokens;
+    const imageCapability = profile.vision;
+
     const input: ModelInput = {
+        ...defaultParameters,
         prompt: userContent,
-        max_tokens: validatedMaxTokens,
-        system_prompt: systemPrompt,
-        max_image_resolution: 0.5
+        max_tokens: resolvedMaxTokens,
+        system_prompt: systemPrompt
     };
 
-    // 如果有图片，添加到input中
+    // 如果有图片，按模型的图片输入能力添加到input中
     if (imageUrls.length > 0) {
-        // 如果只有一张图片，直接设置 image 字段
-        if (imageUrls.length === 1) {
-            input.image = imageUrls[0];
+        if (imageCapability.field === "image_input") {
+            // 模型接受图片数组，保留全部图片
+            input.image_input = [...imageUrls];
         } else {
-            // 如果有多张图片，使用最后一张
-            const lastImage = imageUrls[imageUrls.length - 1];
-            input.image = lastImage;
-            if (requestId) {
-                logSystem(`${requestId} 发现多张图片，使用最后一张`);
-            }
+            // 模型只有单个 image 字段
+            input.image = imageUrls[0];
         }
         if (requestId) {
-            logSystem(`${requestId} 已将图片添加到输入中`);
+            logRequestEvent(requestId, "message.processing", `已将 ${imageUrls.length} 张图片添加到输入字段 ${imageCapability.field}`);
         }
     }
 
@@ -251,15 +358,15 @@ export function buildModelInput(
         const inputMetadata = {
             prompt_length: userContent.length,
             system_prompt_length: systemPrompt.length,
-            max_tokens: validatedMaxTokens,
-            has_image: !!input.image,
+            max_tokens: resolvedMaxTokens,
+            image_count: imageUrls.length,
             max_image_resolution: input.max_image_resolution,
             format: "anthropic_completions_api"
         };
-        logSystem(`${requestId} 构建模型输入完成`, inputMetadata);
-        
-        if (maxTokens !== validatedMaxTokens) {
-            logSystem(`${requestId} max_tokens已调整: ${maxTokens} -> ${validatedMaxTokens}`);
+        logRequestEvent(requestId, "message.processing", `构建模型输入完成`, inputMetadata);
+
+        if (maxTokens !== resolvedMaxTokens) {
+            logRequestEvent(requestId, "message.processing", `未指定max_tokens，使用模型默认值: ${resolvedMaxTokens}`);
         }
     }
 
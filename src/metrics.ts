@@ -0,0 +1,344 @@
+import { API_PATHS, ERROR_CODES } from "./config.ts";
+import { TokenUsage } from "./types.ts";
+import { getErrorStatus } from "./retry.ts";
+import { UpstreamTimeoutError } from "./timeouts.ts";
+
+/**
+ * 指标标签
+ */
+type Labels = Record<string, string>;
+
+/**
+ * 指标名称前缀
+ */
+const METRIC_PREFIX = "replicate_proxy_";
+
+/**
+ * 请求耗时直方图的分桶（秒）
+ */
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+/**
+ * 首个token耗时直方图的分桶（秒）
+ */
+const FIRST_TOKEN_BUCKETS = [0.25, 0.5, 1, 2, 3, 5, 10, 20, 30, 60];
+
+/**
+ * 转义标签值（Prometheus 文本格式）
+ * @param value - 标签值
+ */
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/**
+ * 将标签格式化为 {name="value",...}
+ * @param labels - 标签
+ */
+function formatLabels(labels: Labels): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) {
+        return "";
+    }
+    return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+/**
+ * 计数器与仪表盘
+ */
+class Counter {
+    /**
+     * 标签组合 -> 当前值
+     */
+    private values = new Map<string, { labels: Labels; value: number }>();
+
+    /**
+     * 构造函数
+     * @param name - 指标名称（不含前缀）
+     * @param help - 指标说明
+     * @param type - 指标类型
+     */
+    constructor(
+        private readonly name: string,
+        private readonly help: string,
+        private readonly type: "counter" | "gauge" = "counter"
+    ) {}
+
+    /**
+     * 增加指标值
+     * @param labels - 标签
+     * @param value - 增加的值
+     */
+    inc(labels: Labels = {}, value: number = 1): void {
+        const key = formatLabels(labels);
+        const entry = this.values.get(key);
+        if (entry) {
+            entry.value += value;
+        } else {
+            this.values.set(key, { labels, value });
+        }
+    }
+
+    /**
+     * 所有标签组合的值之和
+     * @returns 合计值
+     */
+    total(): number {
+        let sum = 0;
+        for (const entry of this.values.values()) {
+            sum += entry.value;
+        }
+        return sum;
+    }
+
+    /**
+     * 输出为 Prometheus 文本格式
+     * @returns 文本行
+     */
+    render(): string[] {
+        const name = `${METRIC_PREFIX}${this.name}`;
+        const lines = [`# HELP ${name} ${this.help}`, `# TYPE ${name} ${this.type}`];
+        for (const [key, entry] of this.values) {
+            lines.push(`${name}${key} ${entry.value}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * 直方图
+ */
+class Histogram {
+    /**
+     * 标签组合 -> 各分桶计数、总和与总数
+     */
+    private values = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+    /**
+     * 构造函数
+     * @param name - 指标名称（不含前缀）
+     * @param help - 指标说明
+     * @param buckets - 分桶上界（升序）
+     */
+    constructor(
+        private readonly name: string,
+        private readonly help: string,
+        private readonly buckets: number[]
+    ) {}
+
+    /**
+     * 记录一次观测值
+     * @param labels - 标签
+     * @param value - 观测值
+     */
+    observe(labels: Labels, value: number): void {
+        const key = formatLabels(labels);
+        let entry = this.values.get(key);
+        if (!entry) {
+            entry = { labels, buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.values.set(key, entry);
+        }
+        this.buckets.forEach((bound, index) => {
+            if (value <= bound) {
+                entry!.buckets[index]++;
+            }
+        });
+        entry.sum += value;
+        entry.count++;
+    }
+
+    /**
+     * 输出为 Prometheus 文本格式
+     * @returns 文本行
+     */
+    render(): string[] {
+        const name = `${METRIC_PREFIX}${this.name}`;
+        const lines = [`# HELP ${name} ${this.help}`, `# TYPE ${name} histogram`];
+        for (const entry of this.values.values()) {
+            this.buckets.forEach((bound, index) => {
+                lines.push(`${name}_bucket${formatLabels({ ...entry.labels, le: String(bound) })} ${entry.buckets[index]}`);
+            });
+            lines.push(`${name}_bucket${formatLabels({ ...entry.labels, le: "+Inf" })} ${entry.count}`);
+            lines.push(`${name}_sum${formatLabels(entry.labels)} ${entry.sum}`);
+            lines.push(`${name}_count${formatLabels(entry.labels)} ${entry.count}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * 将请求路径归一化为路由标签（带ID的路径合并为同一路由，未知路径统一为 other）
+ * @param pathname - 请求路径
+ * @returns 路由标签
+ */
+export function normalizeRoute(pathname: string): string {
+    for (const path of Object.values(API_PATHS)) {
+        if (pathname === path || pathname.startsWith(`${path}/`)) {
+            return path;
+        }
+    }
+    return "other";
+}
+
+/**
+ * 代理运行指标
+ */
+export class Metrics {
+    /**
+     * 请求 -> 请求的模型（由控制器在校验模型后设置）
+     */
+    private requestModels = new WeakMap<Request, string>();
+
+    /**
+     * 请求总数（route、model、status）
+     */
+    private requestsTotal = new Counter("requests_total", "Total HTTP requests by route, model and status.");
+
+    /**
+     * 请求耗时（到响应头返回为止）
+     */
+    private requestDuration = new Histogram(
+        "request_duration_seconds",
+        "Time until the response headers are ready, by route and model.",
+        DURATION_BUCKETS
+    );
+
+    /**
+     * 流式响应的首个token耗时
+     */
+    private timeToFirstToken = new Histogram(
+        "time_to_first_token_seconds",
+        "Time from starting the upstream call to the first streamed token, by route and model.",
+        FIRST_TOKEN_BUCKETS
+    );
+
+    /**
+     * 进行中的流式响应数量
+     */
+    private activeStreams = new Counter("active_streams", "Streaming responses currently in progress, by route.", "gauge");
+
+    /**
+     * 上游调用失败次数（按 ERROR_CODES 分类）
+     */
+    private upstreamErrors = new Counter("upstream_errors_total", "Failed upstream calls by error code.");
+
+    /**
+     * token总数
+     */
+    private tokensTotal = new Counter("tokens_total", "Tokens processed, by model and type (prompt or completion).");
+
+    /**
+     * 记录请求对应的模型
+     * @param req - 请求对象
+     * @param model - 请求的模型名称
+     */
+    setRequestModel(req: Request, model: string): void {
+        this.requestModels.set(req, model);
+    }
+
+    /**
+     * 记录一次请求
+     * @param req - 请求对象
+     * @param status - 响应状态码
+     * @param durationMs - 处理耗时（毫秒）
+     */
+    recordRequest(req: Request, status: number, durationMs: number): void {
+        const route = normalizeRoute(new URL(req.url).pathname);
+        const model = this.requestModels.get(req) || "";
+        this.requestsTotal.inc({ route, model, status: String(status) });
+        this.requestDuration.observe({ route, model }, durationMs / 1000);
+    }
+
+    /**
+     * 记录流式响应的首个token耗时
+     * @param route - 路由
+     * @param model - 请求的模型名称
+     * @param durationMs - 耗时（毫秒）
+     */
+    recordFirstToken(route: string, model: string, durationMs: number): void {
+        this.timeToFirstToken.observe({ route, model }, durationMs / 1000);
+    }
+
+    /**
+     * 流式响应开始
+     * @param route - 路由
+     */
+    streamStarted(route: string): void {
+        this.activeStreams.inc({ route });
+    }
+
+    /**
+     * 流式响应结束（正常完成、出错或客户端断开）
+     * @param route - 路由
+     */
+    streamEnded(route: string): void {
+        this.activeStreams.inc({ route }, -1);
+    }
+
+    /**
+     * 获取进行中的流式响应总数
+     * @returns 流式响应数量
+     */
+    getActiveStreams(): number {
+        return this.activeStreams.total();
+    }
+
+    /**
+     * 记录一次上游调用失败（客户端主动取消的不计入）
+     * @param error - 错误对象
+     */
+    recordUpstreamError(error: unknown): void {
+        if (error instanceof Error && error.name === "CancelledError") {
+            return;
+        }
+
+        const status = getErrorStatus(error);
+        let code = ERROR_CODES.API_ERROR;
+        if (error instanceof UpstreamTimeoutError) {
+            code = error.code;
+        } else if (status === 429) {
+            code = ERROR_CODES.RATE_LIMIT_EXCEEDED;
+        } else if (status === 408) {
+            code = ERROR_CODES.TIMEOUT_ERROR;
+        }
+        this.upstreamErrors.inc({ code });
+    }
+
+    /**
+     * 记录token用量
+     * @param model - 请求的模型名称
+     * @param usage - token用量
+     */
+    recordTokens(model: string, usage: TokenUsage): void {
+        this.tokensTotal.inc({ model, type: "prompt" }, usage.prompt_tokens);
+        this.tokensTotal.inc({ model, type: "completion" }, usage.completion_tokens);
+    }
+
+    /**
+     * 输出全部指标（Prometheus 文本格式）
+     * @returns 指标文本
+     */
+    render(): string {
+        return [
+            ...this.requestsTotal.render(),
+            ...this.requestDuration.render(),
+            ...this.timeToFirstToken.render(),
+            ...this.activeStreams.render(),
+            ...this.upstreamErrors.render(),
+            ...this.tokensTotal.render()
+        ].join("\n") + "\n";
+    }
+}
+
+/**
+ * 全局指标实例
+ */
+const metrics = new Metrics();
+
+/**
+ * 获取全局指标实例
+ * @returns Metrics实例
+ */
+export function getMetrics(): Metrics {
+    return metrics;
+}
@@ -0,0 +1,149 @@
+import { getUpstreamTokens, MODEL_DISCOVERY_CONFIG, setDiscoveredModels, UPSTREAM_CONFIG } from "./config.ts";
+import { DiscoveredModel, ModelDiscoveryStatus, ReplicateModelInfo } from "./types.ts";
+import { getFakeUpstream } from "./fake-upstream.ts";
+import { logError, logSystem } from "./utils.ts";
+
+/**
+ * 转换为发现的模型
+ * @param model - Replicate 模型
+ * @returns 发现的模型
+ */
+function toDiscoveredModel(model: ReplicateModelInfo): DiscoveredModel {
+    const createdAt = Date.parse(model.latest_version?.created_at || "");
+    return {
+        id: `${model.owner}/${model.name}`,
+        owner: model.owner,
+        ...(model.description ? { description: model.description } : {}),
+        created: Number.isNaN(createdAt) ? 0 : Math.floor(createdAt / 1000)
+    };
+}
+
+/**
+ * 模型发现：按 MODEL_DISCOVERY_CONFIG 定期查询 Replicate 模型集合并更新模型列表
+ * 查询失败时保留上次成功获取的模型
+ */
+export class ModelDiscovery {
+    /**
+     * 当前状态
+     */
+    private status: ModelDiscoveryStatus = {
+        status: MODEL_DISCOVERY_CONFIG.ENABLED ? "pending" : "disabled",
+        models: 0
+    };
+
+    /**
+     * 进行中的刷新（并发的刷新共用同一次查询）
+     */
+    private pendingRefresh: Promise<ModelDiscoveryStatus> | null = null;
+
+    /**
+     * 定时刷新的计时器
+     */
+    private timer?: ReturnType<typeof setInterval>;
+
+    /**
+     * 启用时立即刷新一次并按 INTERVAL_MS 定期刷新（不阻止进程退出）
+     */
+    start(): void {
+        if (!MODEL_DISCOVERY_CONFIG.ENABLED || this.timer !== undefined) {
+            return;
+        }
+        void this.refresh();
+        const timer = setInterval(() => void this.refresh(), MODEL_DISCOVERY_CONFIG.INTERVAL_MS);
+        Deno.unrefTimer(timer);
+        this.timer = timer;
+    }
+
+    /**
+     * 刷新发现的模型
+     * @returns 刷新后的状态
+     */
+    async refresh(): Promise<ModelDiscoveryStatus> {
+        if (!this.pendingRefresh) {
+            this.pendingRefresh = this.runRefresh().finally(() => {
+                this.pendingRefresh = null;
+            });
+        }
+        return await this.pendingRefresh;
+    }
+
+    /**
+     * 获取当前状态
+     * @returns 状态的副本
+     */
+    getStatus(): ModelDiscoveryStatus {
+        return { ...this.status };
+    }
+
+    /**
+     * 执行一次刷新
+     * @returns 刷新后的状态
+     */
+    private async runRefresh(): Promise<ModelDiscoveryStatus> {
+        const startTime = Date.now();
+        try {
+            const owners = MODEL_DISCOVERY_CONFIG.OWNERS;
+            const models = (await this.fetchModels())
+                .filter(model => owners.length === 0 || owners.includes(model.owner))
+                .map(toDiscoveredModel);
+            setDiscoveredModels(models);
+            if (this.status.status === "error") {
+                logSystem("模型发现已恢复");
+            }
+            this.status = { status: "ok", models: models.length, refreshed_at: startTime };
+            logSystem(`模型发现已刷新: ${models.length} 个模型`);
+        } catch (error) {
+            logError("模型发现失败，继续使用缓存的模型", error);
+            this.status = {
+                ...this.status,
+                status: "error",
+                error: error instanceof Error ? error.message : String(error)
+            };
+        }
+        return this.getStatus();
+    }
+
+    /**
+     * 查询模型集合中的模型
+     * @returns Replicate 模型
+     */
+    private async fetchModels(): Promise<ReplicateModelInfo[]> {
+        const token = getUpstreamTokens()[MODEL_DISCOVERY_CONFIG.TOKEN];
+        if (UPSTREAM_CONFIG.BACKEND === "fake") {
+            return getFakeUpstream().listModels(token || "");
+        }
+        if (!token) {
+            throw new Error(`Upstream token '${MODEL_DISCOVERY_CONFIG.TOKEN}' is not configured.`);
+        }
+
+        const response = await fetch(
+            `${MODEL_DISCOVERY_CONFIG.BASE_URL}/collections/${encodeURIComponent(MODEL_DISCOVERY_CONFIG.COLLECTION)}`,
+            {
+                headers: { "Authorization": `Bearer ${token}` },
+                signal: AbortSignal.timeout(MODEL_DISCOVERY_CONFIG.TIMEOUT_MS)
+            }
+        );
+        if (!response.ok) {
+            await response.body?.cancel();
+            throw new Error(`Replicate responded with status ${response.status}.`);
+        }
+        const collection = await response.json();
+        if (!Array.isArray(collection?.models)) {
+            throw new Error("Replicate collection response has no models array.");
+        }
+        return collection.models;
+    }
+}
+
+/**
+ * 全局模型发现实例
+ */
+const modelDiscovery = new ModelDiscovery();
+
+/**
+ * 获取全局模型发现实例
+ * @returns ModelDiscovery实例
+ */
+export function getModelDiscovery(): ModelDiscovery {
+    return modelDiscovery;
+}
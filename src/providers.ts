@@ -0,0 +1,508 @@
+import { ModelInput, UpstreamBackend, UpstreamMetrics, UpstreamPrediction, UpstreamPredictionRequest } from "./types.ts";
+import { ReplicateError } from "./api-service.ts";
+import { formatServerSentEvent, readServerSentEvents, ServerSentEvent } from "./sse.ts";
+
+/**
+ * Anthropic Messages API 版本
+ */
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/**
+ * Anthropic 过载状态码（按 503 处理，以便重试或改用备用模型）
+ */
+const ANTHROPIC_OVERLOADED_STATUS = 529;
+
+/**
+ * 对话API的一次调用（对应一个预测）
+ */
+interface ChatCall {
+    prediction: UpstreamPrediction;
+    // 中止该调用的控制器
+    controller: AbortController;
+    // 流式调用尚未读取的响应体
+    body?: ReadableStream<Uint8Array>;
+}
+
+/**
+ * 对话API的HTTP请求
+ */
+interface ChatRequest {
+    url: string;
+    headers: Record<string, string>;
+    body: Record<string, unknown>;
+}
+
+/**
+ * 流式事件的解析结果
+ */
+interface ChatStreamEvent {
+    // 输出的文本
+    text?: string;
+    // 模型执行出错时的错误信息
+    error?: string;
+    // 输出结束
+    done?: boolean;
+}
+
+/**
+ * Anthropic Messages API 的响应与流式事件（只列出用到的字段）
+ */
+interface AnthropicPayload {
+    content?: { type: string; text?: string }[];
+    message?: { usage?: AnthropicPayload["usage"] };
+    delta?: { type?: string; text?: string };
+    usage?: { input_tokens?: number; output_tokens?: number };
+    error?: { type?: string; message?: string };
+}
+
+/**
+ * OpenAI Chat Completions API 的响应与流式块（只列出用到的字段）
+ */
+interface OpenAIPayload {
+    choices?: { message?: { content?: string | null }; delta?: { content?: string | null } }[];
+    usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+    error?: { message?: string } | string;
+    detail?: string;
+    message?: string;
+}
+
+/**
+ * 解析JSON，失败时返回undefined
+ * @param text - JSON文本
+ */
+function parseJson(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * 创建与 Replicate API 错误相同形式的HTTP错误（错误详情放在 response.data.detail 中）
+ * @param provider - 提供方名称
+ * @param status - 状态码
+ * @param message - 错误信息
+ * @param headers - 响应头（用于读取 Retry-After）
+ * @returns 错误对象
+ */
+function createHttpError(provider: string, status: number, message: string, headers: Headers = new Headers()): ReplicateError {
+    const error = new Error(`${provider} request failed with status ${status}: ${message}`) as ReplicateError;
+    error.name = "ApiError";
+    error.status = status;
+    error.response = { status, statusText: "", headers, data: { detail: message } };
+    return error;
+}
+
+/**
+ * 获取模型输入中的图片URL
+ * @param input - 模型输入
+ */
+function getImageUrls(input: ModelInput): string[] {
+    return input.image_input ?? (input.image ? [input.image] : []);
+}
+
+/**
+ * 从模型输入中取出已设置的字段
+ * @param input - 模型输入
+ * @param fields - 字段
+ */
+function pickFields(input: ModelInput, fields: (keyof ModelInput)[]): Partial<ModelInput> {
+    const result: Record<string, unknown> = {};
+    for (const field of fields) {
+        if (input[field] !== undefined) {
+            result[field] = input[field];
+        }
+    }
+    return result as Partial<ModelInput>;
+}
+
+/**
+ * 通过对话API调用的提供方的公共实现
+ * 对话API没有预测：创建预测时直接发起请求（HTTP错误在创建时抛出，与 Replicate 一样参与重试），
+ * 非流式请求等待完整响应，流式请求保留响应体，由 openStream 转换为 Replicate 形式的 output/done/error 事件。
+ * 每个 ApiService 使用自己的后端实例，调用记录随请求结束释放
+ */
+abstract class ChatApiBackend implements UpstreamBackend {
+    /**
+     * 预测ID -> 调用
+     */
+    private calls = new Map<string, ChatCall>();
+
+    /**
+     * 构造函数
+     * @param name - 提供方名称
+     * @param baseUrl - API基础地址
+     * @param apiKey - API密钥（为空字符串时不发送认证请求头，为null时拒绝请求）
+     * @param getTraceparent - 返回当前 traceparent 的函数（上游请求附带该请求头）
+     */
+    constructor(
+        readonly name: string,
+        protected readonly baseUrl: string,
+        protected readonly apiKey: string | null,
+        private readonly getTraceparent?: () => string | null
+    ) {}
+
+    /**
+     * 将模型输入转换为提供方的请求
+     * @param model - 提供方的模型名
+     * @param input - 模型输入
+     * @param stream - 是否流式
+     */
+    protected abstract buildRequest(model: string, input: ModelInput, stream: boolean): ChatRequest;
+
+    /**
+     * 读取非流式响应的输出文本与token数量
+     * @param data - 响应体
+     */
+    protected abstract readResponse(data: unknown): { text: string; metrics: UpstreamMetrics };
+
+    /**
+     * 解析一个流式事件，token数量写入 metrics
+     * @param event - SSE事件
+     * @param metrics - 预测指标（原地更新）
+     */
+    protected abstract readStreamEvent(event: ServerSentEvent, metrics: UpstreamMetrics): ChatStreamEvent;
+
+    /**
+     * 读取错误响应中的错误信息
+     * @param data - 响应体
+     */
+    protected abstract readErrorMessage(data: unknown): string | undefined;
+
+    /**
+     * 将提供方的错误状态码转换为代理使用的状态码（默认不转换）
+     * @param status - 状态码
+     */
+    protected mapStatus(status: number): number {
+        return status;
+    }
+
+    /**
+     * 创建预测：发起对话请求
+     * @param request - 创建参数（model 为提供方的模型名）
+     * @returns 预测（非流式时已完成）
+     */
+    async createPrediction(request: UpstreamPredictionRequest): Promise<UpstreamPrediction> {
+        if (this.apiKey === null) {
+            // 直通模式下未配置提供方的密钥，不转发客户端的 Replicate 令牌
+            const error = createHttpError(this.name, 500, `No API key is configured for provider '${this.name}'.`);
+            error.retryable = false;
+            throw error;
+        }
+
+        const controller = new AbortController();
+        const signal = request.signal ? AbortSignal.any([request.signal, controller.signal]) : controller.signal;
+        const { url, headers, body } = this.buildRequest(request.model!, request.input, request.stream);
+        const traceparent = this.getTraceparent?.();
+
+        const response = await fetch(url, {
+            method: "POST",
+            headers: { ...headers, "Content-Type": "application/json", ...(traceparent ? { traceparent } : {}) },
+            body: JSON.stringify(body),
+            signal
+        });
+        if (!response.ok) {
+            const text = await response.text();
+            const message = this.readErrorMessage(parseJson(text)) || text || response.statusText;
+            throw createHttpError(this.name, this.mapStatus(response.status), message, response.headers);
+        }
+
+        const id = `${this.name}-${crypto.randomUUID()}`;
+        let call: ChatCall;
+        if (request.stream) {
+            call = {
+                prediction: { id, status: "processing", urls: { stream: `${this.name}://stream/${id}` } },
+                controller,
+                body: response.body ?? undefined
+            };
+        } else {
+            const { text, metrics } = this.readResponse(await response.json());
+            call = { prediction: { id, status: "succeeded", output: text, metrics }, controller };
+        }
+        this.calls.set(id, call);
+        return { ...call.prediction };
+    }
+
+    /**
+     * 获取预测（流式输出结束后包含token数量）
+     * @param id - 预测ID
+     * @returns 预测
+     */
+    getPrediction(id: string): Promise<UpstreamPrediction> {
+        const call = this.calls.get(id);
+        if (!call) {
+            return Promise.reject(createHttpError(this.name, 404, "Prediction not found"));
+        }
+        return Promise.resolve({ ...call.prediction });
+    }
+
+    /**
+     * 取消预测：中止进行中的请求
+     * @param id - 预测ID
+     */
+    cancelPrediction(id: string): Promise<void> {
+        const call = this.calls.get(id);
+        if (call) {
+            call.controller.abort();
+            if (call.prediction.status === "starting" || call.prediction.status === "processing") {
+                call.prediction.status = "canceled";
+            }
+        }
+        return Promise.resolve();
+    }
+
+    /**
+     * 等待预测结束（非流式预测在创建时已完成）
+     * @param prediction - 预测
+     * @returns 结束时的预测
+     */
+    async waitForPrediction(prediction: UpstreamPrediction): Promise<UpstreamPrediction> {
+        const current = await this.getPrediction(prediction.id);
+        if (current.status === "failed") {
+            throw new Error(`Prediction failed: ${current.error}`);
+        }
+        return current;
+    }
+
+    /**
+     * 读取流式响应，转换为 Replicate 形式的SSE事件
+     * @param prediction - 预测
+     * @param signal - 中止信号
+     * @returns SSE响应
+     */
+    openStream(prediction: UpstreamPrediction, signal: AbortSignal): Promise<Response> {
+        const call = this.calls.get(prediction.id);
+        const body = call?.body;
+        if (!call || !body) {
+            return Promise.resolve(new Response("Stream not found", { status: 404 }));
+        }
+        call.body = undefined;
+        signal.addEventListener("abort", () => call.controller.abort(), { once: true });
+
+        const encoder = new TextEncoder();
+        const metrics: UpstreamMetrics = {};
+        const stream = new ReadableStream<Uint8Array>({
+            start: async controller => {
+                try {
+                    for await (const event of readServerSentEvents(body)) {
+                        const result = this.readStreamEvent(event, metrics);
+                        if (result.error !== undefined) {
+                            call.prediction.status = "failed";
+                            call.prediction.error = result.error;
+                            controller.enqueue(encoder.encode(formatServerSentEvent("error", result.error)));
+                            controller.close();
+                            return;
+                        }
+                        if (result.text) {
+                            controller.enqueue(encoder.encode(formatServerSentEvent("output", result.text)));
+                        }
+                        if (result.done) {
+                            break;
+                        }
+                    }
+                    call.prediction.status = "succeeded";
+                    call.prediction.metrics = metrics;
+                    controller.enqueue(encoder.encode(formatServerSentEvent("done", "{}")));
+                    controller.close();
+                } catch (error) {
+                    controller.error(error);
+                }
+            },
+            cancel: () => {
+                call.controller.abort();
+            }
+        });
+        return Promise.resolve(new Response(stream, { headers: { "Content-Type": "text/event-stream" } }));
+    }
+}
+
+/**
+ * Anthropic Messages API
+ * 对话内容作为一条用户消息发送，系统提示放在 system 字段，图片放在文本之前
+ */
+export class AnthropicBackend extends ChatApiBackend {
+    /**
+     * 构建 /v1/messages 请求
+     * @param model - 模型名
+     * @param input - 模型输入
+     * @param stream - 是否流式
+     */
+    protected buildRequest(model: string, input: ModelInput, stream: boolean): ChatRequest {
+        const content: Record<string, unknown>[] = getImageUrls(input).map(url => {
+            const dataUrl = url.match(/^data:([^;,]+);base64,(.*)$/s);
+            return {
+                type: "image",
+                source: dataUrl
+                    ? { type: "base64", media_type: dataUrl[1], data: dataUrl[2] }
+                    : { type: "url", url }
+            };
+        });
+        content.push({ type: "text", text: input.prompt });
+
+        return {
+            url: `${this.baseUrl}/v1/messages`,
+            headers: {
+                "anthropic-version": ANTHROPIC_VERSION,
+                ...(this.apiKey ? { "x-api-key": this.apiKey } : {})
+            },
+            body: {
+                model,
+                max_tokens: input.max_tokens,
+                ...(input.system_prompt ? { system: input.system_prompt } : {}),
+                messages: [{ role: "user", content }],
+                ...pickFields(input, ["temperature", "top_p", "top_k"]),
+                ...(stream ? { stream: true } : {})
+            }
+        };
+    }
+
+    /**
+     * 读取 message 响应的文本块与用量
+     * @param data - 响应体
+     */
+    protected readResponse(data: unknown): { text: string; metrics: UpstreamMetrics } {
+        const message = data as AnthropicPayload;
+        return {
+            text: (message.content || []).filter(block => block.type === "text").map(block => block.text || "").join(""),
+            metrics: {
+                input_token_count: message.usage?.input_tokens,
+                output_token_count: message.usage?.output_tokens
+            }
+        };
+    }
+
+    /**
+     * 解析流式事件：message_start / message_delta 携带用量，content_block_delta 携带文本
+     * @param event - SSE事件
+     * @param metrics - 预测指标
+     */
+    protected readStreamEvent(event: ServerSentEvent, metrics: UpstreamMetrics): ChatStreamEvent {
+        const payload = (parseJson(event.data) || {}) as AnthropicPayload;
+        switch (event.event) {
+            case "message_start":
+                metrics.input_token_count = payload.message?.usage?.input_tokens;
+                return {};
+            case "content_block_delta":
+                return payload.delta?.type === "text_delta" ? { text: payload.delta.text } : {};
+            case "message_delta":
+                metrics.output_token_count = payload.usage?.output_tokens;
+                return {};
+            case "message_stop":
+                return { done: true };
+            case "error":
+                return { error: payload.error?.message || event.data || "Stream error" };
+            default:
+                return {};
+        }
+    }
+
+    /**
+     * 读取错误响应: { type: "error", error: { type, message } }
+     * @param data - 响应体
+     */
+    protected readErrorMessage(data: unknown): string | undefined {
+        return (data as AnthropicPayload | undefined)?.error?.message;
+    }
+
+    /**
+     * 529（overloaded_error）按 503 处理
+     * @param status - 状态码
+     */
+    protected override mapStatus(status: number): number {
+        return status === ANTHROPIC_OVERLOADED_STATUS ? 503 : status;
+    }
+}
+
+/**
+ * OpenAI 兼容的 Chat Completions API（OpenAI 或本地推理服务）
+ * 系统提示作为 system 消息，对话内容与图片作为一条用户消息
+ */
+export class OpenAICompatibleBackend extends ChatApiBackend {
+    /**
+     * 构建 /chat/completions 请求
+     * @param model - 模型名
+     * @param input - 模型输入
+     * @param stream - 是否流式
+     */
+    protected buildRequest(model: string, input: ModelInput, stream: boolean): ChatRequest {
+        const imageUrls = getImageUrls(input);
+        const messages: Record<string, unknown>[] = [];
+        if (input.system_prompt) {
+            messages.push({ role: "system", content: input.system_prompt });
+        }
+        messages.push({
+            role: "user",
+            content: imageUrls.length > 0
+                ? [
+                    { type: "text", text: input.prompt },
+                    ...imageUrls.map(url => ({ type: "image_url", image_url: { url } }))
+                ]
+                : input.prompt
+        });
+
+        return {
+            url: `${this.baseUrl}/chat/completions`,
+            headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+            body: {
+                model,
+                messages,
+                max_tokens: input.max_tokens,
+                ...pickFields(input, ["temperature", "top_p", "seed", "presence_penalty", "frequency_penalty"]),
+                // 流式请求在最后一个块中返回用量
+                ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+            }
+        };
+    }
+
+    /**
+     * 读取 chat.completion 响应的内容与用量
+     * @param data - 响应体
+     */
+    protected readResponse(data: unknown): { text: string; metrics: UpstreamMetrics } {
+        const completion = data as OpenAIPayload;
+        return {
+            text: completion.choices?.[0]?.message?.content || "",
+            metrics: {
+                input_token_count: completion.usage?.prompt_tokens,
+                output_token_count: completion.usage?.completion_tokens
+            }
+        };
+    }
+
+    /**
+     * 解析流式块：data 为 [DONE] 时结束，带 usage 的块写入用量
+     * @param event - SSE事件
+     * @param metrics - 预测指标
+     */
+    protected readStreamEvent(event: ServerSentEvent, metrics: UpstreamMetrics): ChatStreamEvent {
+        if (event.data === "[DONE]") {
+            return { done: true };
+        }
+        const chunk = parseJson(event.data) as OpenAIPayload | undefined;
+        if (!chunk) {
+            return {};
+        }
+        if (chunk.error) {
+            return { error: this.readErrorMessage(chunk) || "Stream error" };
+        }
+        if (chunk.usage) {
+            metrics.input_token_count = chunk.usage.prompt_tokens;
+            metrics.output_token_count = chunk.usage.completion_tokens;
+        }
+        return { text: chunk.choices?.[0]?.delta?.content || undefined };
+    }
+
+    /**
+     * 读取错误响应（OpenAI 为 { error: { message } }，兼容服务可能使用 detail 或 message）
+     * @param data - 响应体
+     */
+    protected readErrorMessage(data: unknown): string | undefined {
+        const payload = data as OpenAIPayload | undefined;
+        if (!payload || typeof payload !== "object") {
+            return undefined;
+        }
+        const error = typeof payload.error === "string" ? payload.error : payload.error?.message;
+        return error || payload.detail || payload.message;
+    }
+}
@@ -0,0 +1,384 @@
+import { ERROR_CODES, RATE_LIMIT_CONFIG } from "./config.ts";
+import { RateLimits } from "./types.ts";
+import { createErrorResponse } from "./utils.ts";
+
+/**
+ * 令牌桶
+ * 容量为每分钟限额，按 容量/60秒 的速率持续补充
+ */
+class TokenBucket {
+    /**
+     * 桶容量（每分钟限额）
+     */
+    readonly capacity: number;
+
+    /**
+     * 当前可用量（允许为负数，表示超额使用需要等待补充）
+     */
+    private available: number;
+
+    /**
+     * 上次补充时间
+     */
+    private lastRefill: number;
+
+    /**
+     * 构造函数
+     * @param capacity - 每分钟限额
+     */
+    constructor(capacity: number) {
+        this.capacity = capacity;
+        this.available = capacity;
+        this.lastRefill = Date.now();
+    }
+
+    /**
+     * 每毫秒补充量
+     */
+    private get refillRate(): number {
+        return this.capacity / 60000;
+    }
+
+    /**
+     * 按经过的时间补充
+     */
+    private refill(): void {
+        const now = Date.now();
+        this.available = Math.min(this.capacity, this.available + (now - this.lastRefill) * this.refillRate);
+        this.lastRefill = now;
+    }
+
+    /**
+     * 是否有足够的可用量
+     * @param amount - 需要的数量
+     */
+    canConsume(amount: number): boolean {
+        this.refill();
+        return this.available >= amount;
+    }
+
+    /**
+     * 扣减可用量（不做检查，可扣成负数）
+     * @param amount - 扣减数量
+     */
+    consume(amount: number): void {
+        this.refill();
+        this.available -= amount;
+    }
+
+    /**
+     * 退还已扣减的数量（不超过桶容量）
+     * @param amount - 退还数量
+     */
+    refund(amount: number): void {
+        this.refill();
+        this.available = Math.min(this.capacity, this.available + amount);
+    }
+
+    /**
+     * 剩余可用量
+     */
+    getRemaining(): number {
+        this.refill();
+        return Math.max(0, Math.floor(this.available));
+    }
+
+    /**
+     * 距离可用量达到指定数量还需等待的毫秒数
+     * @param amount - 目标数量（默认为桶满）
+     */
+    getWaitMs(amount: number = this.capacity): number {
+        this.refill();
+        const target = Math.min(amount, this.capacity);
+        return this.available >= target ? 0 : Math.ceil((target - this.available) / this.refillRate);
+    }
+
+    /**
+     * 桶是否已满（可以被清理）
+     */
+    isFull(): boolean {
+        this.refill();
+        return this.available >= this.capacity;
+    }
+}
+
+/**
+ * 单个调用方的限流状态
+ */
+interface KeyBuckets {
+    requests: TokenBucket | null;
+    tokens: TokenBucket | null;
+    lastSeen: number;
+}
+
+/**
+ * 限流状态快照（用于生成响应头）
+ */
+export interface RateLimitState {
+    requests: { limit: number; remaining: number; resetMs: number } | null;
+    tokens: { limit: number; remaining: number; resetMs: number } | null;
+}
+
+/**
+ * 限流检查结果
+ */
+export interface RateLimitResult {
+    allowed: boolean;
+    state: RateLimitState;
+    // 被拒绝时的原因与建议等待时间（too_large 表示预估的输入token超过每分钟限额，等待也无法通过）
+    reason?: "requests" | "tokens" | "too_large";
+    retryAfterMs?: number;
+    // 预估的输入token数量（reason 为 too_large 时）
+    requestedTokens?: number;
+}
+
+/**
+ * 按调用方（API密钥）进行限流
+ * 分别对每分钟请求数（RPM）和每分钟token数（TPM）使用令牌桶算法
+ */
+export class RateLimiter {
+    /**
+     * 调用方标识 -> 令牌桶
+     */
+    private buckets = new Map<string, KeyBuckets>();
+
+    /**
+     * 获取或创建调用方的令牌桶（限额变化时重新创建）
+     * @param keyId - 调用方标识
+     * @param limits - 限额配置
+     */
+    private getBuckets(keyId: string, limits: RateLimits): KeyBuckets {
+        const requestLimit = limits.requests_per_minute || 0;
+        const tokenLimit = limits.tokens_per_minute || 0;
+
+        let entry = this.buckets.get(keyId);
+        if (!entry ||
+            (entry.requests?.capacity || 0) !== requestLimit ||
+            (entry.tokens?.capacity || 0) !== tokenLimit) {
+            entry = {
+                requests: requestLimit > 0 ? new TokenBucket(requestLimit) : null,
+                tokens: tokenLimit > 0 ? new TokenBucket(tokenLimit) : null,
+                lastSeen: Date.now()
+            };
+            this.buckets.set(keyId, entry);
+            this.cleanup();
+        }
+
+        entry.lastSeen = Date.now();
+        return entry;
+    }
+
+    /**
+     * 清理长时间未使用且已恢复满额的令牌桶，避免内存无限增长
+     */
+    private cleanup(): void {
+        if (this.buckets.size <= RATE_LIMIT_CONFIG.MAX_TRACKED_KEYS) {
+            return;
+        }
+
+        const idleBefore = Date.now() - 60000;
+        for (const [keyId, entry] of this.buckets) {
+            if (entry.lastSeen < idleBefore &&
+                (entry.requests?.isFull() ?? true) &&
+                (entry.tokens?.isFull() ?? true)) {
+                this.buckets.delete(keyId);
+            }
+        }
+    }
+
+    /**
+     * 生成限流状态快照
+     * @param entry - 调用方令牌桶
+     */
+    private snapshot(entry: KeyBuckets): RateLimitState {
+        return {
+            requests: entry.requests ? {
+                limit: entry.requests.capacity,
+                remaining: entry.requests.getRemaining(),
+                resetMs: entry.requests.getWaitMs()
+            } : null,
+            tokens: entry.tokens ? {
+                limit: entry.tokens.capacity,
+                remaining: entry.tokens.getRemaining(),
+                resetMs: entry.tokens.getWaitMs()
+            } : null
+        };
+    }
+
+    /**
+     * 检查并占用一次请求额度和预估的输入token额度
+     * @param keyId - 调用方标识
+     * @param limits - 限额配置
+     * @param promptTokens - 预估的输入token数量
+     * @returns 检查结果
+     */
+    acquire(keyId: string, limits: RateLimits, promptTokens: number): RateLimitResult {
+        const entry = this.getBuckets(keyId, limits);
+
+        if (entry.requests && !entry.requests.canConsume(1)) {
+            return {
+                allowed: false,
+                state: this.snapshot(entry),
+                reason: "requests",
+                retryAfterMs: entry.requests.getWaitMs(1)
+            };
+        }
+
+        if (entry.tokens && promptTokens > entry.tokens.capacity) {
+            return {
+                allowed: false,
+                state: this.snapshot(entry),
+                reason: "too_large",
+                requestedTokens: promptTokens
+            };
+        }
+
+        if (entry.tokens && !entry.tokens.canConsume(promptTokens)) {
+            return {
+                allowed: false,
+                state: this.snapshot(entry),
+                reason: "tokens",
+                retryAfterMs: entry.tokens.getWaitMs(promptTokens)
+            };
+        }
+
+        entry.requests?.consume(1);
+        entry.tokens?.consume(promptTokens);
+
+        return { allowed: true, state: this.snapshot(entry) };
+    }
+
+    /**
+     * 退还 acquire 占用的额度（请求在调用上游之前失败时使用）
+     * @param keyId - 调用方标识
+     * @param limits - 限额配置
+     * @param promptTokens - acquire 时占用的输入token数量
+     */
+    release(keyId: string, limits: RateLimits, promptTokens: number): void {
+        const entry = this.getBuckets(keyId, limits);
+        entry.requests?.refund(1);
+        entry.tokens?.refund(promptTokens);
+    }
+
+    /**
+     * 记录请求完成后的输出token用量
+     * @param keyId - 调用方标识
+     * @param limits - 限额配置
+     * @param completionTokens - 输出token数量
+     */
+    recordCompletion(keyId: string, limits: RateLimits, completionTokens: number): void {
+        const entry = this.getBuckets(keyId, limits);
+        entry.tokens?.consume(completionTokens);
+    }
+
+    /**
+     * 获取当前限流状态（不占用额度）
+     * @param keyId - 调用方标识
+     * @param limits - 限额配置
+     */
+    getState(keyId: string, limits: RateLimits): RateLimitState {
+        return this.snapshot(this.getBuckets(keyId, limits));
+    }
+}
+
+/**
+ * 将毫秒数格式化为 OpenAI 风格的时长（如 "20ms"、"1s"、"6m0s"）
+ * @param ms - 毫秒数
+ * @returns 时长字符串
+ */
+export function formatResetDuration(ms: number): string {
+    if (ms < 1000) {
+        return `${Math.max(0, Math.ceil(ms))}ms`;
+    }
+
+    const totalSeconds = Math.ceil(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return minutes > 0 ? `${minutes}m${seconds}s` : `${seconds}s`;
+}
+
+/**
+ * 根据限流状态生成 OpenAI 风格的限流响应头
+ * @param state - 限流状态
+ * @returns 响应头
+ */
+export function createRateLimitHeaders(state: RateLimitState): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    if (state.requests) {
+        headers["x-ratelimit-limit-requests"] = String(state.requests.limit);
+        headers["x-ratelimit-remaining-requests"] = String(state.requests.remaining);
+        headers["x-ratelimit-reset-requests"] = formatResetDuration(state.requests.resetMs);
+    }
+
+    if (state.tokens) {
+        headers["x-ratelimit-limit-tokens"] = String(state.tokens.limit);
+        headers["x-ratelimit-remaining-tokens"] = String(state.tokens.remaining);
+        headers["x-ratelimit-reset-tokens"] = formatResetDuration(state.tokens.resetMs);
+    }
+
+    return headers;
+}
+
+/**
+ * 为响应添加限流响应头
+ * @param response - 原始响应
+ * @param state - 限流状态
+ * @returns 添加了响应头的响应
+ */
+export function applyRateLimitHeaders(response: Response, state: RateLimitState): Response {
+    for (const [name, value] of Object.entries(createRateLimitHeaders(state))) {
+        response.headers.set(name, value);
+    }
+    return response;
+}
+
+/**
+ * 获取调用方的限额配置（虚拟密钥可以单独配置，未配置时使用全局默认值）
+ * @param overrides - 密钥单独配置的限额
+ * @returns 限额配置
+ */
+export function resolveRateLimits(overrides?: RateLimits): RateLimits {
+    return {
+        requests_per_minute: overrides?.requests_per_minute ?? RATE_LIMIT_CONFIG.REQUESTS_PER_MINUTE,
+        tokens_per_minute: overrides?.tokens_per_minute ?? RATE_LIMIT_CONFIG.TOKENS_PER_MINUTE
+    };
+}
+
+/**
+ * 全局限流器实例
+ */
+const rateLimiter = new RateLimiter();
+
+/**
+ * 获取全局限流器实例
+ * @returns RateLimiter实例
+ */
+export function getRateLimiter(): RateLimiter {
+    return rateLimiter;
+}
+
+/**
+ * 创建限流错误响应（沿用 rate_limit_error 错误格式）
+ * 请求本身超过每分钟token限额时返回 400（重试也无法通过，不带 Retry-After）
+ * @param result - 限流检查结果
+ * @returns 429 或 400 响应
+ */
+export function createRateLimitExceededResponse(result: RateLimitResult): Response {
+    if (result.reason === "too_large") {
+        const message = `Request too large for tokens per minute limit: limit ${result.state.tokens?.limit}, requested ${result.requestedTokens}.`;
+        return applyRateLimitHeaders(
+            createErrorResponse(message, 400, "invalid_request_error", ERROR_CODES.REQUEST_TOO_LARGE),
+            result.state
+        );
+    }
+
+    const retryAfterMs = result.retryAfterMs || 0;
+    const message = result.reason === "tokens"
+        ? `Rate limit reached for tokens per minute. Please try again in ${formatResetDuration(retryAfterMs)}.`
+        : `Rate limit reached for requests per minute. Please try again in ${formatResetDuration(retryAfterMs)}.`;
+
+    const response = createErrorResponse(message, 429, "rate_limit_error", ERROR_CODES.RATE_LIMIT_EXCEEDED);
+    response.headers.set("Retry-After", String(Math.max(1, Math.ceil(retryAfterMs / 1000))));
+    return applyRateLimitHeaders(response, result.state);
+}
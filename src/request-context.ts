@@ -0,0 +1,92 @@
+import { RequestContext } from "./types.ts";
+import { generateSpanId, generateTraceId } from "./tracing.ts";
+
+/**
+ * 请求ID响应头
+ */
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+/**
+ * 接受的请求ID格式（客户端传入的ID不符合时重新生成，避免日志注入）
+ */
+export const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * 生成请求唯一标识符
+ */
+export function generateRequestId(): string {
+    return `req_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * W3C traceparent 格式: version-traceid-parentid-flags
+ */
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * 解析 traceparent 请求头（全零的 trace-id / parent-id 无效）
+ * @param header - traceparent 请求头
+ * @returns trace-id、parent-id 与采样标志，无效时返回null
+ */
+export function parseTraceparent(header: string | null): { traceId: string; parentSpanId: string; sampled: boolean } | null {
+    const match = header?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+    if (!match || match[1] === "ff" || /^0+$/.test(match[2]) || /^0+$/.test(match[3])) {
+        return null;
+    }
+    return { traceId: match[2], parentSpanId: match[3], sampled: (parseInt(match[4], 16) & 1) === 1 };
+}
+
+/**
+ * 为传入的请求创建上下文
+ * 请求ID优先使用客户端的 X-Request-Id，其次使用 traceparent 的 trace-id，都没有时自动生成；
+ * 携带有效 traceparent 时沿用其 trace-id 与采样标志，否则开始新的追踪
+ * @param req - Request对象
+ * @returns 请求上下文
+ */
+export function createRequestContext(req: Request): RequestContext {
+    const trace = parseTraceparent(req.headers.get("traceparent"));
+    const incomingId = req.headers.get(REQUEST_ID_HEADER)?.trim();
+
+    return {
+        requestId: incomingId && REQUEST_ID_PATTERN.test(incomingId)
+            ? incomingId
+            : trace?.traceId || generateRequestId(),
+        startTime: Date.now(),
+        traceId: trace?.traceId || generateTraceId(),
+        spanId: generateSpanId(),
+        sampled: trace ? trace.sampled : true,
+        ...(trace ? { parentSpanId: trace.parentSpanId } : {})
+    };
+}
+
+/**
+ * 为响应添加 X-Request-Id 响应头，JSON 错误响应体中同时加入 request_id 字段
+ * @param response - 响应对象
+ * @param context - 请求上下文
+ * @returns 添加了请求ID的响应
+ */
+export async function withRequestId(response: Response, context: RequestContext): Promise<Response> {
+    const isJsonError = response.status >= 400 &&
+        (response.headers.get("Content-Type") || "").includes("application/json");
+
+    if (isJsonError) {
+        const text = await response.text();
+        let body = text;
+        try {
+            const parsed = JSON.parse(text);
+            if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+                body = JSON.stringify({ ...parsed, request_id: context.requestId });
+            }
+        } catch {
+            // 不是有效的JSON，保持原样
+        }
+        response = new Response(body, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers
+        });
+    }
+
+    response.headers.set(REQUEST_ID_HEADER, context.requestId);
+    return response;
+}
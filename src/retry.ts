@@ -0,0 +1,154 @@
+import { RETRY_CONFIG } from "./config.ts";
+import { logRequestEvent, sleep } from "./utils.ts";
+
+/**
+ * 带状态码的上游错误（Replicate ApiError 或包装后的 ReplicateError）
+ */
+interface UpstreamErrorLike {
+    status?: number;
+    retryable?: boolean;
+    response?: {
+        status?: number;
+        headers?: Headers;
+    };
+}
+
+/**
+ * 获取错误对应的HTTP状态码
+ * @param error - 错误对象
+ * @returns 状态码，没有时返回undefined
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+    if (!error || typeof error !== "object") {
+        return undefined;
+    }
+    const upstreamError = error as UpstreamErrorLike;
+    return upstreamError.status ?? upstreamError.response?.status;
+}
+
+/**
+ * 判断上游错误是否为可重试的瞬时错误（429、5xx 或网络错误）
+ * @param error - 错误对象
+ * @returns 是否可以重试
+ */
+export function isRetryableError(error: unknown): boolean {
+    if (!error || typeof error !== "object") {
+        return false;
+    }
+
+    // 明确标记为不可重试的错误（如预测本身执行失败）
+    if ((error as UpstreamErrorLike).retryable === false) {
+        return false;
+    }
+    // 明确标记为可重试的错误（如密钥池中还有其他可用密钥时的 401）
+    if ((error as UpstreamErrorLike).retryable === true) {
+        return true;
+    }
+
+    const status = getErrorStatus(error);
+    if (status !== undefined) {
+        return RETRY_CONFIG.RETRYABLE_STATUS.includes(status);
+    }
+
+    // fetch 网络错误
+    return error instanceof TypeError;
+}
+
+/**
+ * 判断上游错误是否应改用备用模型（可重试的瞬时错误或上游超时）
+ * @param error - 错误对象
+ * @returns 是否可以改用备用模型
+ */
+export function isFallbackError(error: unknown): boolean {
+    if (isRetryableError(error)) {
+        return true;
+    }
+    if (getErrorStatus(error) === 408) {
+        return true;
+    }
+    return error instanceof Error && error.name === "TimeoutError";
+}
+
+/**
+ * 解析错误响应中的 Retry-After 头部
+ * @param error - 错误对象
+ * @returns 等待毫秒数，没有时返回null
+ */
+export function getRetryAfterMs(error: unknown): number | null {
+    if (!error || typeof error !== "object") {
+        return null;
+    }
+
+    const headers = (error as UpstreamErrorLike).response?.headers;
+    const retryAfter = typeof headers?.get === "function" ? headers.get("Retry-After") : null;
+    if (!retryAfter) {
+        return null;
+    }
+
+    // Retry-After 可以是秒数或HTTP日期
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = new Date(retryAfter).getTime();
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * 计算第N次失败后的等待时间
+ * 指数退避加随机抖动；上游返回 Retry-After 时至少等待该时长（不超过上限）
+ * @param attempt - 已经失败的次数（从1开始）
+ * @param error - 失败的错误对象
+ * @returns 等待毫秒数
+ */
+export function getRetryDelay(attempt: number, error?: unknown): number {
+    const exponential = Math.min(RETRY_CONFIG.MAX_DELAY_MS, RETRY_CONFIG.BASE_DELAY_MS * 2 ** (attempt - 1));
+    // 在 [exponential/2, exponential] 区间内随机抖动，避免多个请求同时重试
+    const jittered = Math.round(exponential / 2 + Math.random() * exponential / 2);
+
+    const retryAfterMs = getRetryAfterMs(error);
+    if (retryAfterMs === null) {
+        return jittered;
+    }
+    return Math.min(RETRY_CONFIG.MAX_RETRY_AFTER_MS, Math.max(jittered, retryAfterMs));
+}
+
+/**
+ * 记录重试日志并等待退避时间
+ * @param label - 操作名称
+ * @param attempt - 已经失败的次数
+ * @param error - 失败的错误对象
+ * @param requestId - 请求ID（用于日志）
+ */
+export async function waitBeforeRetry(label: string, attempt: number, error: unknown, requestId?: string): Promise<void> {
+    const delay = getRetryDelay(attempt, error);
+    const status = getErrorStatus(error) ?? "network";
+    logRequestEvent(requestId, "retry", `${label}失败（第 ${attempt}/${RETRY_CONFIG.MAX_ATTEMPTS} 次，状态: ${status}），${delay}ms 后重试`);
+    await sleep(delay);
+}
+
+/**
+ * 按重试策略执行异步操作
+ * 仅对瞬时错误（429、5xx、网络错误）重试，最多 RETRY_CONFIG.MAX_ATTEMPTS 次
+ * @param label - 操作名称（用于日志）
+ * @param operation - 要执行的操作，参数为当前尝试次数（从1开始）
+ * @param requestId - 请求ID（用于日志）
+ * @returns 操作结果
+ */
+export async function withRetry<T>(
+    label: string,
+    operation: (attempt: number) => Promise<T>,
+    requestId?: string
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation(attempt);
+        } catch (error) {
+            if (attempt >= RETRY_CONFIG.MAX_ATTEMPTS || !isRetryableError(error)) {
+                throw error;
+            }
+            await waitBeforeRetry(label, attempt, error, requestId);
+        }
+    }
+}
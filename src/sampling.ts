@@ -0,0 +1,144 @@
+import { ModelInput, RequestBody, SamplingParameter, SamplingParameterMapping } from "./types.ts";
+
+/**
+ * OpenAI 允许的最大停止序列数量
+ */
+const MAX_STOP_SEQUENCES = 4;
+
+/**
+ * 数值型采样参数的取值范围
+ */
+const NUMERIC_RANGES: Record<Exclude<SamplingParameter, "stop">, { min: number; max: number; integer: boolean }> = {
+    temperature: { min: 0, max: 2, integer: false },
+    top_p: { min: 0, max: 1, integer: false },
+    top_k: { min: 0, max: Number.MAX_SAFE_INTEGER, integer: true },
+    seed: { min: Number.MIN_SAFE_INTEGER, max: Number.MAX_SAFE_INTEGER, integer: true },
+    presence_penalty: { min: -2, max: 2, integer: false },
+    frequency_penalty: { min: -2, max: 2, integer: false }
+};
+
+/**
+ * Anthropic Messages 请求的取值范围（与 OpenAI 不同的部分）
+ */
+const ANTHROPIC_NUMERIC_RANGES: Partial<typeof NUMERIC_RANGES> = {
+    temperature: { min: 0, max: 1, integer: false }
+};
+
+/**
+ * 可以在模型档案中配置的采样参数
+ */
+export const SAMPLING_PARAMETERS: SamplingParameter[] = [
+    ...Object.keys(NUMERIC_RANGES) as Exclude<SamplingParameter, "stop">[],
+    "stop"
+];
+
+/**
+ * 采样参数处理结果
+ */
+export interface SamplingResult {
+    // 模型不支持而被忽略的参数
+    ignored: SamplingParameter[];
+    // 需要在本地截断输出的停止序列
+    localStopSequences: string[];
+}
+
+/**
+ * 将 stop 参数统一为字符串数组（过滤空字符串）
+ * @param stop - 请求中的 stop 参数
+ * @returns 停止序列列表
+ */
+export function normalizeStopSequences(stop: RequestBody["stop"]): string[] {
+    if (stop === undefined || stop === null) {
+        return [];
+    }
+    const sequences = Array.isArray(stop) ? stop : [stop];
+    return sequences.filter(seq => typeof seq === "string" && seq.length > 0);
+}
+
+/**
+ * 校验请求中的采样参数
+ * @param requestBody - 请求体（Anthropic 请求为转换后的内部格式）
+ * @param format - 请求格式：anthropic 使用 Anthropic 的取值范围，错误信息中的停止序列参数名为 stop_sequences
+ * @returns 错误信息（包含参数名），校验通过时返回null
+ */
+export function validateSamplingParameters(
+    requestBody: RequestBody,
+    format: "openai" | "anthropic" = "openai"
+): { message: string; param: SamplingParameter } | null {
+    const ranges = format === "anthropic" ? { ...NUMERIC_RANGES, ...ANTHROPIC_NUMERIC_RANGES } : NUMERIC_RANGES;
+    for (const [param, range] of Object.entries(ranges) as [Exclude<SamplingParameter, "stop">, typeof NUMERIC_RANGES.temperature][]) {
+        const value = requestBody[param];
+        if (value === undefined || value === null) {
+            continue;
+        }
+        if (typeof value !== "number" || !Number.isFinite(value) || (range.integer && !Number.isInteger(value))) {
+            return { message: `'${param}' must be ${range.integer ? "an integer" : "a number"}.`, param };
+        }
+        if (value < range.min || value > range.max) {
+            return { message: `'${param}' must be between ${range.min} and ${range.max}, got ${value}.`, param };
+        }
+    }
+
+    const stop = requestBody.stop;
+    const stopName = format === "anthropic" ? "stop_sequences" : "stop";
+    if (stop !== undefined && stop !== null) {
+        const sequences = Array.isArray(stop) ? stop : [stop];
+        if (sequences.some(seq => typeof seq !== "string")) {
+            return { message: `'${stopName}' must be a string or an array of strings.`, param: "stop" };
+        }
+        if (sequences.length > MAX_STOP_SEQUENCES) {
+            return { message: `'${stopName}' supports at most ${MAX_STOP_SEQUENCES} sequences.`, param: "stop" };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * 按模型支持的采样参数将请求中的参数写入模型输入
+ * 不支持的参数被忽略；不支持的 stop 改为在本地截断输出。
+ * 模型输入中的停止序列是逗号分隔的字符串，包含逗号的停止序列无法表示，只在本地截断
+ * @param input - 模型输入（原地修改）
+ * @param requestBody - 请求体（调用前应已通过 validateSamplingParameters 校验）
+ * @param mapping - 模型支持的采样参数映射
+ * @returns 处理结果
+ */
+export function applySamplingParameters(
+    input: ModelInput,
+    requestBody: RequestBody,
+    mapping: SamplingParameterMapping
+): SamplingResult {
+    const ignored: SamplingParameter[] = [];
+    let localStopSequences: string[] = [];
+    const writableInput = input as unknown as Record<string, unknown>;
+
+    for (const param of Object.keys(NUMERIC_RANGES) as Exclude<SamplingParameter, "stop">[]) {
+        const value = requestBody[param];
+        if (value === undefined || value === null) {
+            continue;
+        }
+        const field = mapping[param];
+        if (field) {
+            writableInput[field] = value;
+        } else {
+            ignored.push(param);
+        }
+    }
+
+    const stopSequences = normalizeStopSequences(requestBody.stop);
+    if (stopSequences.length > 0) {
+        const field = mapping.stop;
+        if (field) {
+            // Replicate 语言模型以逗号分隔的字符串接收停止序列，包含逗号的序列会被拆开
+            const upstreamSequences = stopSequences.filter(seq => !seq.includes(","));
+            localStopSequences = stopSequences.filter(seq => seq.includes(","));
+            if (upstreamSequences.length > 0) {
+                writableInput[field] = upstreamSequences.join(",");
+            }
+        } else {
+            localStopSequences = stopSequences;
+        }
+    }
+
+    return { ignored, localStopSequences };
+}
@@ -0,0 +1,79 @@
+/**
+ * 服务器推送事件（SSE）
+ */
+export interface ServerSentEvent {
+    event: string;
+    data: string;
+}
+
+/**
+ * 解析SSE字节流
+ * @param body - 响应体字节流
+ * @returns 异步迭代器，逐个产出SSE事件
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+    const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    let eventType = "message";
+    let dataLines: string[] = [];
+
+    try {
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) {
+                break;
+            }
+
+            buffer += value;
+
+            let newlineIndex: number;
+            while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+                let line = buffer.slice(0, newlineIndex);
+                buffer = buffer.slice(newlineIndex + 1);
+                if (line.endsWith("\r")) {
+                    line = line.slice(0, -1);
+                }
+
+                // 空行表示一个事件结束
+                if (line === "") {
+                    if (dataLines.length > 0 || eventType !== "message") {
+                        yield { event: eventType, data: dataLines.join("\n") };
+                    }
+                    eventType = "message";
+                    dataLines = [];
+                    continue;
+                }
+
+                // 注释行
+                if (line.startsWith(":")) {
+                    continue;
+                }
+
+                const colonIndex = line.indexOf(":");
+                const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+                let fieldValue = colonIndex === -1 ? "" : line.slice(colonIndex + 1);
+                if (fieldValue.startsWith(" ")) {
+                    fieldValue = fieldValue.slice(1);
+                }
+
+                if (field === "event") {
+                    eventType = fieldValue;
+                } else if (field === "data") {
+                    dataLines.push(fieldValue);
+                }
+            }
+        }
+    } finally {
+        // 提前结束时关闭底层连接
+        await reader.cancel().catch(() => {});
+    }
+}
+
+/**
+ * 格式化SSE事件（多行数据拆分为多个 data 行）
+ * @param event - 事件名称
+ * @param data - 数据
+ */
+export function formatServerSentEvent(event: string, data: string): string {
+    return `event: ${event}\n${data.split("\n").map(line => `data: ${line}`).join("\n")}\n\n`;
+}
@@ -0,0 +1,124 @@
+/**
+ * 停止序列检测器
+ * 上游模型不支持停止序列时，在本地对输出进行截断。
+ * 流式模式下会暂存可能构成停止序列前缀的尾部文本，确保停止序列本身不会被发送给客户端。
+ */
+export class StopSequenceDetector {
+    /**
+     * 需要检测的停止序列（已过滤空字符串）
+     */
+    private sequences: string[];
+
+    /**
+     * 尚未确认可以发送的尾部文本
+     */
+    private buffer = "";
+
+    /**
+     * 命中的停止序列
+     */
+    private matchedSequence: string | null = null;
+
+    /**
+     * 构造函数
+     * @param sequences - 停止序列列表
+     */
+    constructor(sequences: string[] = []) {
+        this.sequences = sequences.filter(seq => typeof seq === "string" && seq.length > 0);
+    }
+
+    /**
+     * 写入一段新的输出文本
+     * @param text - 上游输出的文本块
+     * @returns 可以安全发送给客户端的文本
+     */
+    push(text: string): string {
+        if (this.matchedSequence !== null) {
+            return "";
+        }
+
+        if (this.sequences.length === 0) {
+            return text;
+        }
+
+        this.buffer += text;
+
+        // 查找最早出现的停止序列
+        let matchIndex = -1;
+        for (const seq of this.sequences) {
+            const index = this.buffer.indexOf(seq);
+            if (index !== -1 && (matchIndex === -1 || index < matchIndex)) {
+                matchIndex = index;
+                this.matchedSequence = seq;
+            }
+        }
+
+        if (matchIndex !== -1) {
+            const output = this.buffer.slice(0, matchIndex);
+            this.buffer = "";
+            return output;
+        }
+
+        // 保留可能是停止序列前缀的尾部文本
+        const holdLength = this.getPartialMatchLength();
+        const output = this.buffer.slice(0, this.buffer.length - holdLength);
+        this.buffer = this.buffer.slice(this.buffer.length - holdLength);
+        return output;
+    }
+
+    /**
+     * 输出结束时取出剩余的暂存文本
+     * @returns 剩余文本
+     */
+    flush(): string {
+        const output = this.matchedSequence === null ? this.buffer : "";
+        this.buffer = "";
+        return output;
+    }
+
+    /**
+     * 是否已经命中停止序列
+     */
+    isStopped(): boolean {
+        return this.matchedSequence !== null;
+    }
+
+    /**
+     * 获取命中的停止序列
+     */
+    getMatchedSequence(): string | null {
+        return this.matchedSequence;
+    }
+
+    /**
+     * 计算缓冲区尾部与任一停止序列前缀重合的最大长度
+     */
+    private getPartialMatchLength(): number {
+        let maxLength = 0;
+        for (const seq of this.sequences) {
+            const limit = Math.min(seq.length - 1, this.buffer.length);
+            for (let length = limit; length > maxLength; length--) {
+                if (this.buffer.endsWith(seq.slice(0, length))) {
+                    maxLength = length;
+                    break;
+                }
+            }
+        }
+        return maxLength;
+    }
+}
+
+/**
+ * 在完整文本中应用停止序列
+ * @param text - 完整的输出文本
+ * @param sequences - 停止序列列表
+ * @returns 截断后的文本与命中的停止序列
+ */
+export function applyStopSequences(text: string, sequences: string[] = []): {
+    text: string;
+    matchedSequence: string | null;
+} {
+    const detector = new StopSequenceDetector(sequences);
+    const output = detector.push(text) + detector.flush();
+    return { text: output, matchedSequence: detector.getMatchedSequence() };
+}
@@ -0,0 +1,144 @@
+import { ERROR_CODES, TIMEOUT_CONFIG } from "./config.ts";
+
+/**
+ * 超时类型
+ * - first_token: 开始调用到收到第一个输出（仅流式）
+ * - idle: 流式输出中两个事件之间的间隔
+ * - total: 整个请求的上游调用，包括重试和备用模型（流式为读取完所有输出）
+ */
+export type TimeoutKind = "first_token" | "idle" | "total";
+
+/**
+ * 各类超时的日志名称
+ */
+const TIMEOUT_LABELS: Record<TimeoutKind, string> = {
+    first_token: "首个token超时",
+    idle: "流式输出空闲超时",
+    total: "上游调用总时长超时"
+};
+
+/**
+ * 各类超时对应的错误码
+ */
+const TIMEOUT_ERROR_CODES: Record<TimeoutKind, string> = {
+    first_token: ERROR_CODES.FIRST_TOKEN_TIMEOUT,
+    idle: ERROR_CODES.STREAM_IDLE_TIMEOUT,
+    total: ERROR_CODES.TIMEOUT_ERROR
+};
+
+/**
+ * 获取当前配置的超时时间
+ * @param kind - 超时类型
+ * @returns 超时时间（毫秒）
+ */
+export function getTimeoutMs(kind: TimeoutKind): number {
+    switch (kind) {
+        case "first_token":
+            return TIMEOUT_CONFIG.FIRST_TOKEN_TIMEOUT;
+        case "idle":
+            return TIMEOUT_CONFIG.IDLE_TIMEOUT;
+        case "total":
+            return TIMEOUT_CONFIG.REQUEST_TIMEOUT;
+    }
+}
+
+/**
+ * 上游调用超时（超时后上游预测已被取消），状态码408，不可重试
+ * 输出任何内容之前的首个token超时可以改用备用模型
+ */
+export class UpstreamTimeoutError extends Error {
+    /**
+     * 超时类型
+     */
+    readonly kind: TimeoutKind;
+
+    /**
+     * 错误码（ERROR_CODES 中的值）
+     */
+    readonly code: string;
+
+    /**
+     * HTTP状态码
+     */
+    readonly status = 408;
+
+    /**
+     * 不重试同一个模型
+     */
+    readonly retryable = false;
+
+    /**
+     * 构造函数
+     * @param kind - 超时类型
+     * @param timeoutMs - 超时时间（毫秒）
+     */
+    constructor(kind: TimeoutKind, timeoutMs: number) {
+        const seconds = timeoutMs / 1000;
+        super(
+            kind === "first_token"
+                ? `The model produced no output within ${seconds}s.`
+                : kind === "idle"
+                ? `The model stopped producing output for more than ${seconds}s.`
+                : `The upstream call did not finish within ${seconds}s.`
+        );
+        this.name = "UpstreamTimeoutError";
+        this.kind = kind;
+        this.code = TIMEOUT_ERROR_CODES[kind];
+    }
+
+    /**
+     * 日志名称
+     */
+    get label(): string {
+        return TIMEOUT_LABELS[this.kind];
+    }
+}
+
+/**
+ * 一次上游调用的超时计时器
+ * 任一计时器到期时调用 onExpire（由调用方中止当前模型的调用或整个请求，并取消上游预测）
+ */
+export class UpstreamTimeouts {
+    /**
+     * 超时类型 -> 计时器
+     */
+    private timers = new Map<TimeoutKind, ReturnType<typeof setTimeout>>();
+
+    /**
+     * 构造函数
+     * @param onExpire - 超时回调
+     */
+    constructor(private readonly onExpire: (error: UpstreamTimeoutError) => void) {}
+
+    /**
+     * 开始（或重新开始）计时
+     * @param kind - 超时类型
+     */
+    start(kind: TimeoutKind): void {
+        this.clear(kind);
+        const timeoutMs = getTimeoutMs(kind);
+        this.timers.set(kind, setTimeout(() => {
+            this.timers.delete(kind);
+            this.onExpire(new UpstreamTimeoutError(kind, timeoutMs));
+        }, timeoutMs));
+    }
+
+    /**
+     * 停止计时
+     * @param kind - 超时类型
+     */
+    clear(kind: TimeoutKind): void {
+        clearTimeout(this.timers.get(kind));
+        this.timers.delete(kind);
+    }
+
+    /**
+     * 停止所有计时
+     */
+    clearAll(): void {
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+    }
+}
@@ -0,0 +1,325 @@
+import { Message, RequestBody, Tool, ToolCall, ToolCallDelta, ToolChoice } from "./types.ts";
+
+/**
+ * 工具调用块的起止标记
+ * Replicate 上的模型只接受纯文本提示，这里约定模型使用该标记包裹 JSON 格式的工具调用
+ */
+const TOOL_CALL_OPEN_TAG = "<tool_call>";
+const TOOL_CALL_CLOSE_TAG = "</tool_call>";
+
+/**
+ * 生成工具调用ID（与 OpenAI 的 call_xxx 格式一致）
+ * @returns 工具调用ID
+ */
+export function generateToolCallId(): string {
+    return `call_${crypto.randomUUID().replace(/-/g, "").substring(0, 24)}`;
+}
+
+/**
+ * 是否需要启用工具调用模拟（提供了工具且 tool_choice 不为 none）
+ * @param requestBody - 请求体
+ * @returns 是否启用
+ */
+export function isToolCallingEnabled(requestBody: RequestBody): boolean {
+    return Array.isArray(requestBody.tools) &&
+        requestBody.tools.length > 0 &&
+        requestBody.tool_choice !== "none";
+}
+
+/**
+ * 校验请求中的 tools 和 tool_choice 参数
+ * @param tools - 工具定义列表
+ * @param toolChoice - 工具选择策略
+ * @returns 错误消息，校验通过时返回null
+ */
+export function validateTools(tools: unknown, toolChoice: unknown): string | null {
+    if (tools === undefined || tools === null) {
+        return toolChoice === undefined || toolChoice === null || toolChoice === "none" || toolChoice === "auto"
+            ? null
+            : "'tool_choice' is only allowed when 'tools' are specified.";
+    }
+
+    if (!Array.isArray(tools)) {
+        return "'tools' must be an array.";
+    }
+
+    const names = new Set<string>();
+    for (const [index, tool] of tools.entries()) {
+        const name = (tool as Tool)?.function?.name;
+        if ((tool as Tool)?.type !== "function" || typeof name !== "string" || !name) {
+            return `Invalid tool at index ${index}: expected { "type": "function", "function": { "name": ... } }.`;
+        }
+        names.add(name);
+    }
+
+    if (toolChoice === undefined || toolChoice === null ||
+        toolChoice === "none" || toolChoice === "auto" || toolChoice === "required") {
+        return null;
+    }
+
+    const choiceName = (toolChoice as { function?: { name?: string } })?.function?.name;
+    if (typeof choiceName !== "string") {
+        return "'tool_choice' must be 'none', 'auto', 'required' or { \"type\": \"function\", \"function\": { \"name\": ... } }.";
+    }
+    if (!names.has(choiceName)) {
+        return `Tool '${choiceName}' specified in 'tool_choice' was not found in 'tools'.`;
+    }
+
+    return null;
+}
+
+/**
+ * 生成描述可用工具及调用格式的系统提示
+ * @param tools - 工具定义列表
+ * @param toolChoice - 工具选择策略
+ * @returns 系统提示文本
+ */
+export function buildToolsPrompt(tools: Tool[], toolChoice?: ToolChoice): string {
+    const definitions = tools.map(tool => ({
+        name: tool.function.name,
+        description: tool.function.description || "",
+        parameters: tool.function.parameters || { type: "object", properties: {} }
+    }));
+
+    const lines = [
+        "You have access to the following tools, described as JSON:",
+        JSON.stringify(definitions, null, 2),
+        "",
+        "To call a tool, reply with one block per call in exactly this format:",
+        TOOL_CALL_OPEN_TAG,
+        '{"name": "<tool name>", "arguments": {<arguments matching the tool parameters>}}',
+        TOOL_CALL_CLOSE_TAG,
+        "You may call several tools in one reply. Do not write anything after the last tool call block; " +
+        "wait for the results, which will be provided in <tool_result> blocks.",
+    ];
+
+    if (toolChoice === "required") {
+        lines.push("You must call at least one tool in your reply.");
+    } else if (toolChoice && typeof toolChoice === "object") {
+        lines.push(`You must call the tool "${toolChoice.function.name}" in your reply.`);
+    } else {
+        lines.push("If no tool is needed, answer the user directly without any tool call block.");
+    }
+
+    return lines.join("\n");
+}
+
+/**
+ * 将历史中的工具调用渲染为提示文本（与模型输出的格式一致）
+ * @param toolCalls - 工具调用列表
+ * @returns 提示文本
+ */
+export function formatToolCallsForPrompt(toolCalls: ToolCall[]): string {
+    return toolCalls.map(toolCall => {
+        let args: unknown = toolCall.function.arguments;
+        try {
+            args = JSON.parse(toolCall.function.arguments || "{}");
+        } catch {
+            // 参数不是合法JSON时按原始字符串渲染
+        }
+        const payload = JSON.stringify({ name: toolCall.function.name, arguments: args });
+        return `${TOOL_CALL_OPEN_TAG}\n${payload}\n${TOOL_CALL_CLOSE_TAG}`;
+    }).join("\n");
+}
+
+/**
+ * 将 tool 角色消息（工具执行结果）渲染为提示文本
+ * @param message - tool 角色消息
+ * @param toolName - 对应的工具名称（可选）
+ * @param content - 消息的文本内容
+ * @returns 提示文本
+ */
+export function formatToolResultForPrompt(message: Message, toolName: string | undefined, content: string): string {
+    const attributes = [
+        message.tool_call_id ? `tool_call_id="${message.tool_call_id}"` : "",
+        toolName ? `name="${toolName}"` : ""
+    ].filter(Boolean).join(" ");
+    return `<tool_result${attributes ? ` ${attributes}` : ""}>\n${content}\n</tool_result>`;
+}
+
+/**
+ * 解析单个工具调用块
+ * @param block - 起止标记之间的文本
+ * @returns 工具调用，格式不正确时返回null
+ */
+function parseToolCallBlock(block: string): ToolCall | null {
+    let parsed: { name?: unknown; arguments?: unknown };
+    try {
+        parsed = JSON.parse(block.trim());
+    } catch {
+        return null;
+    }
+
+    if (!parsed || typeof parsed.name !== "string" || !parsed.name) {
+        return null;
+    }
+
+    const args = parsed.arguments === undefined ? {} : parsed.arguments;
+    return {
+        id: generateToolCallId(),
+        type: "function",
+        function: {
+            name: parsed.name,
+            arguments: typeof args === "string" ? args : JSON.stringify(args)
+        }
+    };
+}
+
+/**
+ * 工具调用解析器
+ * 从模型输出中分离普通文本和 <tool_call> 块。
+ * 流式模式下会暂存可能构成起始标记前缀的尾部文本，以及尚未闭合的工具调用块。
+ */
+export class ToolCallStreamParser {
+    /**
+     * 尚未处理完的文本
+     */
+    private buffer = "";
+
+    /**
+     * 是否处于工具调用块内部
+     */
+    private insideBlock = false;
+
+    /**
+     * 已解析出的工具调用数量
+     */
+    private toolCallCount = 0;
+
+    /**
+     * 写入一段新的输出文本
+     * @param text - 上游输出的文本块
+     * @returns 可以发送的普通文本与新解析出的工具调用
+     */
+    push(text: string): { content: string; toolCalls: ToolCall[] } {
+        this.buffer += text;
+        let content = "";
+        const toolCalls: ToolCall[] = [];
+
+        while (this.buffer) {
+            if (this.insideBlock) {
+                const closeIndex = this.buffer.indexOf(TOOL_CALL_CLOSE_TAG);
+                if (closeIndex === -1) {
+                    break;
+                }
+
+                const block = this.buffer.slice(0, closeIndex);
+                this.buffer = this.buffer.slice(closeIndex + TOOL_CALL_CLOSE_TAG.length);
+                this.insideBlock = false;
+
+                const toolCall = parseToolCallBlock(block);
+                if (toolCall) {
+                    toolCalls.push(toolCall);
+                    this.toolCallCount++;
+                } else {
+                    // 无法解析的块按普通文本返回
+                    content += this.emitText(`${TOOL_CALL_OPEN_TAG}${block}${TOOL_CALL_CLOSE_TAG}`);
+                }
+                continue;
+            }
+
+            const openIndex = this.buffer.indexOf(TOOL_CALL_OPEN_TAG);
+            if (openIndex !== -1) {
+                content += this.emitText(this.buffer.slice(0, openIndex));
+                this.buffer = this.buffer.slice(openIndex + TOOL_CALL_OPEN_TAG.length);
+                this.insideBlock = true;
+                continue;
+            }
+
+            // 保留可能是起始标记前缀的尾部文本
+            const holdLength = this.getPartialMatchLength();
+            content += this.emitText(this.buffer.slice(0, this.buffer.length - holdLength));
+            this.buffer = this.buffer.slice(this.buffer.length - holdLength);
+            break;
+        }
+
+        return { content, toolCalls };
+    }
+
+    /**
+     * 输出结束时处理剩余的暂存文本
+     * 未闭合的工具调用块（如达到max_tokens）会尝试按完整块解析
+     * @returns 剩余的普通文本与工具调用
+     */
+    flush(): { content: string; toolCalls: ToolCall[] } {
+        const rest = this.buffer;
+        this.buffer = "";
+
+        if (!this.insideBlock) {
+            return { content: this.emitText(rest), toolCalls: [] };
+        }
+
+        this.insideBlock = false;
+        const toolCall = parseToolCallBlock(rest);
+        if (toolCall) {
+            this.toolCallCount++;
+            return { content: "", toolCalls: [toolCall] };
+        }
+        return { content: this.emitText(`${TOOL_CALL_OPEN_TAG}${rest}`), toolCalls: [] };
+    }
+
+    /**
+     * 是否已经解析出工具调用
+     */
+    hasToolCalls(): boolean {
+        return this.toolCallCount > 0;
+    }
+
+    /**
+     * 过滤需要发送的普通文本：出现工具调用后，块之间的文本不再发送
+     * @param text - 普通文本
+     */
+    private emitText(text: string): string {
+        return this.toolCallCount > 0 ? "" : text;
+    }
+
+    /**
+     * 计算缓冲区尾部与起始标记前缀重合的最大长度
+     */
+    private getPartialMatchLength(): number {
+        const limit = Math.min(TOOL_CALL_OPEN_TAG.length - 1, this.buffer.length);
+        for (let length = limit; length > 0; length--) {
+            if (this.buffer.endsWith(TOOL_CALL_OPEN_TAG.slice(0, length))) {
+                return length;
+            }
+        }
+        return 0;
+    }
+}
+
+/**
+ * 从完整的模型输出中解析工具调用
+ * @param text - 完整的输出文本
+ * @returns 去除工具调用块后的文本（为空时返回null）与工具调用列表
+ */
+export function parseToolCalls(text: string): { content: string | null; toolCalls: ToolCall[] } {
+    const parser = new ToolCallStreamParser();
+    const first = parser.push(text);
+    const rest = parser.flush();
+    const content = (first.content + rest.content).trim();
+    return {
+        content: content || null,
+        toolCalls: [...first.toolCalls, ...rest.toolCalls]
+    };
+}
+
+/**
+ * 将工具调用转换为流式增量（先发送ID和名称，再发送参数）
+ * @param toolCall - 工具调用
+ * @param index - 工具调用在本次回复中的序号
+ * @returns 流式增量列表
+ */
+export function toToolCallDeltas(toolCall: ToolCall, index: number): ToolCallDelta[] {
+    return [
+        {
+            index,
+            id: toolCall.id,
+            type: "function",
+            function: { name: toolCall.function.name, arguments: "" }
+        },
+        {
+            index,
+            function: { arguments: toolCall.function.arguments }
+        }
+    ];
+}
@@ -0,0 +1,459 @@
+import { TRACING_CONFIG } from "./config.ts";
+import { RequestContext, SpanAttributeValue, SpanContext } from "./types.ts";
+import { logWarn } from "./utils.ts";
+
+/**
+ * span类型（OTLP 编码）
+ */
+export const SPAN_KIND = {
+    INTERNAL: 1,
+    SERVER: 2,
+    CLIENT: 3
+} as const;
+
+/**
+ * span状态（OTLP 编码）
+ */
+const SPAN_STATUS = {
+    UNSET: 0,
+    ERROR: 2
+} as const;
+
+/**
+ * 错误信息的最大长度（不记录完整的上游错误内容）
+ */
+const MAX_ERROR_LENGTH = 200;
+
+/**
+ * OTLP JSON 格式的属性
+ */
+interface OtlpAttribute {
+    key: string;
+    value: { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+}
+
+/**
+ * OTLP JSON 格式的span
+ */
+interface OtlpSpan {
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string;
+    name: string;
+    kind: number;
+    startTimeUnixNano: string;
+    endTimeUnixNano: string;
+    attributes: OtlpAttribute[];
+    events: { timeUnixNano: string; name: string; attributes: OtlpAttribute[] }[];
+    status: { code: number; message?: string };
+}
+
+/**
+ * 生成指定字节数的随机十六进制ID
+ * @param bytes - 字节数
+ */
+function randomHex(bytes: number): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * 生成 trace-id（16字节）
+ */
+export function generateTraceId(): string {
+    return randomHex(16);
+}
+
+/**
+ * 生成 span-id（8字节）
+ */
+export function generateSpanId(): string {
+    return randomHex(8);
+}
+
+/**
+ * 当前时间（Unix纳秒，字符串形式以避免精度丢失）
+ */
+function nowUnixNano(): string {
+    const micros = BigInt(Math.round((performance.timeOrigin + performance.now()) * 1000));
+    return (micros * 1000n).toString();
+}
+
+/**
+ * 转换为 OTLP 属性列表（跳过 undefined）
+ * @param attributes - 属性
+ */
+function toOtlpAttributes(attributes: Record<string, SpanAttributeValue | undefined>): OtlpAttribute[] {
+    const result: OtlpAttribute[] = [];
+    for (const [key, value] of Object.entries(attributes)) {
+        if (typeof value === "string") {
+            result.push({ key, value: { stringValue: value } });
+        } else if (typeof value === "boolean") {
+            result.push({ key, value: { boolValue: value } });
+        } else if (typeof value === "number") {
+            result.push({ key, value: Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value } });
+        }
+    }
+    return result;
+}
+
+/**
+ * 格式化为 W3C traceparent 请求头
+ * @param context - 追踪上下文
+ * @returns traceparent
+ */
+export function formatTraceparent(context: SpanContext): string {
+    return `00-${context.traceId}-${context.spanId}-${context.sampled ? "01" : "00"}`;
+}
+
+/**
+ * 追踪span
+ * 属性与事件不得包含用户内容
+ */
+export class Span implements SpanContext {
+    readonly traceId: string;
+    readonly spanId: string;
+    readonly sampled: boolean;
+
+    /**
+     * 开始与结束时间（Unix纳秒）
+     */
+    private readonly startTime = nowUnixNano();
+    private endTime: string | null = null;
+
+    /**
+     * 属性
+     */
+    private attributes: Record<string, SpanAttributeValue | undefined> = {};
+
+    /**
+     * 事件
+     */
+    private events: OtlpSpan["events"] = [];
+
+    /**
+     * 状态
+     */
+    private status: OtlpSpan["status"] = { code: SPAN_STATUS.UNSET };
+
+    /**
+     * 构造函数
+     * @param tracer - 所属的追踪器（结束时导出）
+     * @param name - span名称
+     * @param kind - span类型
+     * @param parent - 父级的 trace-id 与 span-id（入口span没有父级时 span-id 为空）
+     * @param spanId - 指定的 span-id（默认随机生成）
+     */
+    constructor(
+        private readonly tracer: Tracer,
+        readonly name: string,
+        private readonly kind: number,
+        private readonly parent: { traceId: string; spanId?: string; sampled: boolean },
+        spanId: string = generateSpanId()
+    ) {
+        this.traceId = parent.traceId;
+        this.spanId = spanId;
+        this.sampled = parent.sampled;
+    }
+
+    /**
+     * 设置属性（值为 undefined 时忽略）
+     * @param attributes - 属性
+     * @returns 当前span
+     */
+    setAttributes(attributes: Record<string, SpanAttributeValue | undefined>): this {
+        Object.assign(this.attributes, attributes);
+        return this;
+    }
+
+    /**
+     * 添加事件
+     * @param name - 事件名称
+     * @param attributes - 事件属性
+     */
+    addEvent(name: string, attributes: Record<string, SpanAttributeValue | undefined> = {}): void {
+        this.events.push({ timeUnixNano: nowUnixNano(), name, attributes: toOtlpAttributes(attributes) });
+    }
+
+    /**
+     * 记录错误并将状态设为错误
+     * @param error - 错误对象
+     */
+    recordError(error: unknown): void {
+        const message = (error instanceof Error ? error.message : String(error)).substring(0, MAX_ERROR_LENGTH);
+        this.addEvent("exception", {
+            "exception.type": error instanceof Error ? error.name : typeof error,
+            "exception.message": message
+        });
+        this.status = { code: SPAN_STATUS.ERROR, message };
+    }
+
+    /**
+     * 结束span（重复调用无副作用）
+     */
+    end(): void {
+        if (this.endTime) {
+            return;
+        }
+        this.endTime = nowUnixNano();
+        this.tracer.export(this);
+    }
+
+    /**
+     * 转换为 OTLP JSON 格式
+     * @returns OTLP span
+     */
+    toOtlp(): OtlpSpan {
+        return {
+            traceId: this.traceId,
+            spanId: this.spanId,
+            ...(this.parent.spanId ? { parentSpanId: this.parent.spanId } : {}),
+            name: this.name,
+            kind: this.kind,
+            startTimeUnixNano: this.startTime,
+            endTimeUnixNano: this.endTime || nowUnixNano(),
+            attributes: toOtlpAttributes(this.attributes),
+            events: this.events,
+            status: this.status
+        };
+    }
+}
+
+/**
+ * 批量导出span到 OTLP/HTTP 收集器（JSON 编码），发送失败时保留在缓冲中等待下次发送
+ */
+class OtlpHttpExporter {
+    /**
+     * 等待发送的span
+     */
+    private buffer: OtlpSpan[] = [];
+
+    /**
+     * 正在进行的发送
+     */
+    private sending: Promise<void> | null = null;
+
+    /**
+     * 构造函数
+     * @param url - 收集器的 /v1/traces 地址
+     * @param headers - 附加请求头
+     * @param serviceName - 服务名称（service.name 资源属性）
+     */
+    constructor(
+        private readonly url: string,
+        private readonly headers: Record<string, string>,
+        private readonly serviceName: string
+    ) {
+        const timer = setInterval(() => void this.flush(), TRACING_CONFIG.FLUSH_INTERVAL_MS);
+        // 定时发送不阻止进程退出
+        Deno.unrefTimer(timer);
+    }
+
+    /**
+     * 加入待发送的span
+     * @param span - OTLP span
+     */
+    add(span: OtlpSpan): void {
+        this.buffer.push(span);
+        if (this.buffer.length > TRACING_CONFIG.MAX_BUFFER) {
+            this.buffer.splice(0, this.buffer.length - TRACING_CONFIG.MAX_BUFFER);
+        }
+        if (this.buffer.length >= TRACING_CONFIG.BATCH_SIZE) {
+            void this.flush();
+        }
+    }
+
+    /**
+     * 发送缓冲中的span
+     */
+    async flush(): Promise<void> {
+        while (this.sending) {
+            await this.sending;
+        }
+        if (this.buffer.length === 0) {
+            return;
+        }
+
+        const batch = this.buffer.splice(0, TRACING_CONFIG.BATCH_SIZE);
+        this.sending = this.send(batch).finally(() => {
+            this.sending = null;
+        });
+        await this.sending;
+    }
+
+    /**
+     * 发送一批span，失败时放回缓冲
+     * @param batch - span
+     */
+    private async send(batch: OtlpSpan[]): Promise<void> {
+        try {
+            const response = await fetch(this.url, {
+                method: "POST",
+                headers: { ...this.headers, "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    resourceSpans: [{
+                        resource: { attributes: toOtlpAttributes({ "service.name": this.serviceName }) },
+                        scopeSpans: [{ scope: { name: "replicate-proxy" }, spans: batch }]
+                    }]
+                }),
+                signal: AbortSignal.timeout(5000)
+            });
+            await response.body?.cancel();
+            if (!response.ok) {
+                throw new Error(`status ${response.status}`);
+            }
+        } catch (error) {
+            this.buffer.unshift(...batch.slice(0, TRACING_CONFIG.MAX_BUFFER - this.buffer.length));
+            // 不通过日志系统记录，避免每次导出失败都产生大量日志事件
+            console.error(`追踪数据导出失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
+
+/**
+ * 追踪器
+ */
+export class Tracer {
+    /**
+     * 构造函数
+     * @param exporter - 导出器（未配置导出地址时为null，span照常创建但不导出）
+     */
+    constructor(private readonly exporter: OtlpHttpExporter | null) {}
+
+    /**
+     * 是否导出追踪数据
+     */
+    isEnabled(): boolean {
+        return this.exporter !== null;
+    }
+
+    /**
+     * 开始一个子span
+     * @param name - span名称
+     * @param parent - 父级（请求上下文或其他span）
+     * @param attributes - 属性
+     * @param kind - span类型（默认 INTERNAL）
+     * @returns span
+     */
+    startSpan(
+        name: string,
+        parent: SpanContext,
+        attributes: Record<string, SpanAttributeValue | undefined> = {},
+        kind: number = SPAN_KIND.INTERNAL
+    ): Span {
+        return new Span(this, name, kind, parent).setAttributes(attributes);
+    }
+
+    /**
+     * 开始请求的入口span（span-id 在创建请求上下文时已确定，父级为客户端 traceparent 中的 parent-id）
+     * @param name - span名称
+     * @param context - 请求上下文
+     * @param attributes - 属性
+     * @returns span
+     */
+    startRequestSpan(
+        name: string,
+        context: RequestContext,
+        attributes: Record<string, SpanAttributeValue | undefined> = {}
+    ): Span {
+        const parent = { traceId: context.traceId, spanId: context.parentSpanId, sampled: context.sampled };
+        return new Span(this, name, SPAN_KIND.SERVER, parent, context.spanId).setAttributes({
+            "request.id": context.requestId,
+            ...attributes
+        });
+    }
+
+    /**
+     * 在子span中执行同步函数，抛出的错误记录到span后继续抛出
+     * @param name - span名称
+     * @param parent - 父级
+     * @param fn - 函数
+     * @param attributes - 属性
+     * @returns 函数的返回值
+     */
+    trace<T>(
+        name: string,
+        parent: SpanContext,
+        fn: (span: Span) => T,
+        attributes: Record<string, SpanAttributeValue | undefined> = {}
+    ): T {
+        const span = this.startSpan(name, parent, attributes);
+        try {
+            return fn(span);
+        } catch (error) {
+            span.recordError(error);
+            throw error;
+        } finally {
+            span.end();
+        }
+    }
+
+    /**
+     * 导出已结束的span（未采样或未配置导出地址时忽略）
+     * @param span - span
+     */
+    export(span: Span): void {
+        if (this.exporter && span.sampled) {
+            this.exporter.add(span.toOtlp());
+        }
+    }
+
+    /**
+     * 发送所有缓冲中的span（关闭前调用）
+     */
+    async flush(): Promise<void> {
+        await this.exporter?.flush();
+    }
+}
+
+/**
+ * 解析导出请求头（格式: key1=value1,key2=value2，键值均为URL编码）
+ * 无效条目记录警告后跳过
+ * @param value - OTEL_EXPORTER_OTLP_HEADERS 原始值
+ * @returns 请求头
+ */
+export function parseOtlpHeaders(value: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const pair of value.split(",")) {
+        if (!pair.trim()) {
+            continue;
+        }
+        // 只按第一个"="分割，值中可能包含"="（如Base64凭据）
+        const separator = pair.indexOf("=");
+        const rawKey = (separator === -1 ? pair : pair.substring(0, separator)).trim();
+        try {
+            const key = decodeURIComponent(rawKey);
+            if (separator === -1 || !key) {
+                throw new URIError("missing key or value");
+            }
+            headers[key] = decodeURIComponent(pair.substring(separator + 1).trim());
+        } catch {
+            // 值可能是凭据，只记录键名
+            logWarn(`OTEL_EXPORTER_OTLP_HEADERS 中的条目无效，已忽略: ${rawKey || "(空键名)"}`);
+        }
+    }
+    return headers;
+}
+
+/**
+ * 全局追踪器（首次使用时创建）
+ */
+let tracer: Tracer | null = null;
+
+/**
+ * 获取全局追踪器
+ * @returns Tracer实例
+ */
+export function getTracer(): Tracer {
+    if (!tracer) {
+        tracer = new Tracer(
+            TRACING_CONFIG.TRACES_URL
+                ? new OtlpHttpExporter(
+                    TRACING_CONFIG.TRACES_URL,
+                    parseOtlpHeaders(TRACING_CONFIG.HEADERS),
+                    TRACING_CONFIG.SERVICE_NAME
+                )
+                : null
+        );
+    }
+    return tracer;
+}
@@ -6,14 +6,92 @@ export interface RequestBody {
   model?: string;
   stream?: boolean;
   max_tokens?: number;
+  stream_options?: {
+    include_usage?: boolean;
+  };
+  tools?: Tool[];
+  tool_choice?: ToolChoice;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  seed?: number;
+  stop?: string | string[] | null;
+  presence_penalty?: number;
+  frequency_penalty?: number;
 }
 
+/**
+ * 支持透传的 OpenAI 采样参数
+ */
+export type SamplingParameter =
+  | "temperature"
+  | "top_p"
+  | "top_k"
+  | "seed"
+  | "stop"
+  | "presence_penalty"
+  | "frequency_penalty";
+
+/**
+ * 模型支持的采样参数映射：OpenAI 参数名 -> Replicate 输入字段
+ */
+export type SamplingParameterMapping = Partial<Record<SamplingParameter, keyof ModelInput>>;
+
 /**
  * 消息接口
  */
 export interface Message {
-  role: "system" | "user" | "assistant";
-  content: string | ContentItem[];
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | ContentItem[] | null;
+  name?: string;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+}
+
+/**
+ * 工具定义接口（OpenAI function 工具）
+ */
+export interface Tool {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
+}
+
+/**
+ * 工具选择策略
+ */
+export type ToolChoice =
+  | "none"
+  | "auto"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
+/**
+ * 工具调用接口
+ */
+export interface ToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+/**
+ * 流式工具调用增量接口
+ */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: "function";
+  function: {
+    name?: string;
+    arguments?: string;
+  };
 }
 
 /**
@@ -36,11 +114,7 @@ export interface SSEChunk {
   created: number;
   model: string;
   choices: SSEChoice[];
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage?: TokenUsage | null;
 }
 
 /**
@@ -51,6 +125,7 @@ export interface SSEChoice {
   delta: {
     role?: string;
     content?: string;
+    tool_calls?: ToolCallDelta[];
   };
   finish_reason: string | null;
   logprobs: null;
@@ -62,6 +137,112 @@ export interface SSEChoice {
 export interface ReplicateEvent {
   event: string;
   data?: string;
+  metrics?: UpstreamMetrics;
+}
+
+/**
+ * Replicate预测指标接口（语言模型会返回输入/输出token数量）
+ */
+export interface UpstreamMetrics {
+  input_token_count?: number;
+  output_token_count?: number;
+  predict_time?: number;
+}
+
+/**
+ * 上游预测（各上游后端返回的公共字段）
+ */
+export interface UpstreamPrediction {
+  id: string;
+  status: "starting" | "processing" | "succeeded" | "failed" | "canceled";
+  // 实际运行的 Replicate 模型版本
+  version?: string;
+  output?: unknown;
+  error?: unknown;
+  metrics?: UpstreamMetrics;
+  urls?: {
+    // 支持流式输出时的SSE地址
+    stream?: string;
+  };
+}
+
+/**
+ * 创建预测的参数（model、version 与 deployment 三选一）
+ */
+export interface UpstreamPredictionRequest {
+  model?: string;
+  version?: string;
+  // Replicate 部署（owner/name）
+  deployment?: string;
+  input: ModelInput;
+  stream: boolean;
+  // 本次调用被取消时中止进行中的请求（可选）
+  signal?: AbortSignal;
+}
+
+/**
+ * 上游后端（执行预测的服务）
+ * HTTP错误以带 response（status、headers）的错误抛出，与 replicate 客户端的 ApiError 一致
+ */
+export interface UpstreamBackend {
+  readonly name: string;
+  createPrediction(request: UpstreamPredictionRequest): Promise<UpstreamPrediction>;
+  getPrediction(id: string): Promise<UpstreamPrediction>;
+  cancelPrediction(id: string): Promise<void>;
+  // 轮询直到预测结束或 stop 返回true，预测失败时抛出错误
+  waitForPrediction(prediction: UpstreamPrediction, stop: () => boolean): Promise<UpstreamPrediction>;
+  // 打开预测的流式输出（SSE响应）
+  openStream(prediction: UpstreamPrediction, signal: AbortSignal): Promise<Response>;
+}
+
+/**
+ * 上游提供方类型
+ * - replicate: Replicate 预测API（内置，不能通过配置文件添加）
+ * - anthropic: Anthropic Messages API
+ * - openai: OpenAI 兼容的 Chat Completions API（如本地推理服务）
+ */
+export type UpstreamProviderType = "replicate" | "anthropic" | "openai";
+
+/**
+ * 上游提供方配置
+ */
+export interface UpstreamProvider {
+  type: UpstreamProviderType;
+  // API基础地址（replicate 不使用）
+  base_url?: string;
+  // 服务端API密钥所在的环境变量（虚拟密钥模式下使用）
+  api_key_env?: string;
+}
+
+/**
+ * 解析后的模型映射目标
+ */
+export interface ModelTarget {
+  // 提供方名称
+  provider: string;
+  // 提供方的模型名（Replicate 为 owner/model）
+  model: string;
+  // Replicate 模型版本
+  version?: string;
+  // Replicate 部署（owner/name）
+  deployment?: string;
+}
+
+/**
+ * 非流式模型响应接口
+ */
+export interface ModelResponse {
+  content: string;
+  metrics?: UpstreamMetrics;
+}
+
+/**
+ * Token用量统计接口
+ */
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
 }
 
 /**
@@ -73,6 +254,78 @@ export interface ModelInput {
   system_prompt?: string;
   max_image_resolution?: number;
   image?: string;
+  image_input?: string[];
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  seed?: number;
+  stop_sequences?: string;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+}
+
+/**
+ * 模型图片输入能力
+ * - field: Replicate 输入中的图片字段（image 只接受单张图片，image_input 接受图片数组）
+ * - max_images: 单次请求最多可以传入的图片数量（0 表示不支持图片输入）
+ */
+export interface ImageCapability {
+  field: "image" | "image_input";
+  max_images: number;
+}
+
+/**
+ * 模型档案：按Replicate实际模型名配置的能力与参数限制
+ */
+export interface ModelProfile {
+  // 上下文窗口大小（输入 + 输出token数）
+  context_window: number;
+  // max_tokens 的取值范围
+  min_output_tokens: number;
+  max_output_tokens: number;
+  // 图片输入能力（max_images 为 0 表示不支持图片）
+  vision: ImageCapability;
+  // 支持的采样参数：OpenAI 参数名 -> Replicate 输入字段，未列出的视为不支持
+  sampling_parameters: SamplingParameterMapping;
+  // 模型输入的默认值（请求中的参数优先）
+  default_parameters: Partial<ModelInput>;
+}
+
+/**
+ * 可在运行时从配置文件重新加载的配置
+ */
+export interface RuntimeConfig {
+  modelMapping: Record<string, string>;
+  defaultModel: string;
+  maxTokens: {
+    MINIMUM: number;
+    MAXIMUM: number;
+    DEFAULT: number;
+  };
+  requestTimeout: number;
+  firstTokenTimeout: number;
+  idleTimeout: number;
+  corsHeaders: Record<string, string>;
+  modelProfiles: Record<string, ModelProfile>;
+  fallbackChains: Record<string, string[]>;
+  fallbackResponseModel: FallbackResponseModel;
+  providers: Record<string, UpstreamProvider>;
+}
+
+/**
+ * 使用备用模型回答时响应中的 model 字段
+ * - requested: 请求的模型名称
+ * - answered: 实际回答的模型名称
+ */
+export type FallbackResponseModel = "requested" | "answered";
+
+/**
+ * 文件托管接口：上传文件并返回模型可以访问的URL
+ */
+export interface FileHost {
+  // 缓存作用域，不同作用域（如不同Replicate账号）上传的文件不会互相复用
+  readonly scope: string;
+  upload(data: ArrayBuffer, mimeType: string, filename: string): Promise<string>;
 }
 
 /**
@@ -84,11 +337,7 @@ export interface ChatCompletion {
   created: number;
   model: string;
   choices: ChatCompletionChoice[];
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage: TokenUsage;
 }
 
 /**
@@ -98,7 +347,8 @@ export interface ChatCompletionChoice {
   index: number;
   message: {
     role: string;
-    content: string;
+    content: string | null;
+    tool_calls?: ToolCall[];
   };
   finish_reason: string;
   logprobs: null;
@@ -114,4 +364,274 @@ export interface ErrorResponse {
     param: null;
     code: string;
   };
-}
\ No newline at end of file
+}
+/**
+ * Anthropic Messages API 请求体接口
+ */
+export interface AnthropicMessagesRequest {
+  model?: string;
+  messages: AnthropicMessage[];
+  system?: string | AnthropicContentBlock[];
+  max_tokens?: number;
+  stop_sequences?: string[];
+  stream?: boolean;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Anthropic 消息接口
+ */
+export interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+/**
+ * Anthropic 内容块接口
+ */
+export interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  source?: {
+    type: "base64" | "url";
+    media_type?: string;
+    data?: string;
+    url?: string;
+  };
+}
+
+/**
+ * Anthropic 用量统计接口
+ */
+export interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+/**
+ * Anthropic Messages API 响应接口
+ */
+export interface AnthropicMessageResponse {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  stop_sequence: string | null;
+  usage: AnthropicUsage;
+}
+
+/**
+ * Anthropic 错误响应接口
+ */
+export interface AnthropicErrorResponse {
+  type: "error";
+  error: {
+    type: string;
+    message: string;
+  };
+}
+
+/**
+ * 虚拟API密钥记录接口（只保存密钥哈希，不保存明文）
+ */
+export interface VirtualKeyRecord {
+  id: string;
+  name: string;
+  key_hash: string;
+  key_preview: string;
+  upstream_token: string;
+  rate_limits?: RateLimits;
+  created_at: number;
+  revoked_at: number | null;
+}
+
+/**
+ * 限额配置接口（0 表示不限制）
+ */
+export interface RateLimits {
+  requests_per_minute?: number;
+  tokens_per_minute?: number;
+}
+
+/**
+ * 已认证的调用方信息
+ */
+export interface AuthContext {
+  // 转发给Replicate的API密钥
+  apiKey: string;
+  // 调用方标识（虚拟密钥ID或直通密钥的指纹），用于限流和日志
+  keyId: string;
+  mode: "virtual" | "passthrough";
+  // 虚拟密钥单独配置的限额
+  rateLimits?: RateLimits;
+  // 虚拟密钥映射的服务端令牌名称，调用 Replicate 时从该名称的密钥池中选择密钥
+  upstreamToken?: string;
+}
+
+/**
+ * 从上游密钥池借出的密钥（本次调用结束后归还）
+ */
+export interface UpstreamKeyLease {
+  token: string;
+  // 密钥指纹（SHA-256 的前12位），日志和管理接口只使用指纹
+  fingerprint: string;
+}
+
+/**
+ * 上游密钥池中一个密钥的状态（不包含密钥本身）
+ */
+export interface UpstreamKeyStatus {
+  fingerprint: string;
+  status: "available" | "cooling_down";
+  // 进行中的调用数量
+  in_flight: number;
+  // 借出次数与上游返回 401/429 的次数
+  requests: number;
+  failures: number;
+  // 冷却结束时间（毫秒时间戳），未在冷却时为null
+  cooldown_until: number | null;
+  last_error_status: number | null;
+  last_error_at: number | null;
+}
+
+/**
+ * 上游密钥池状态
+ */
+export interface UpstreamKeyPoolStatus {
+  // 服务端令牌名称
+  name: string;
+  keys: UpstreamKeyStatus[];
+}
+
+/**
+ * 配置文件加载状态
+ */
+export interface ConfigFileStatus {
+  // 配置文件路径，未使用配置文件时为null
+  path: string | null;
+  // 当前生效的配置来源
+  source: "builtin" | "file";
+  // 最近一次成功加载的时间（毫秒时间戳）
+  loaded_at: number | null;
+  // 最近一次加载失败的问题列表（成功加载后清空）
+  last_error: string[] | null;
+}
+
+/**
+ * 上游连通性探测结果
+ */
+export interface UpstreamProbeResult {
+  status: "ok" | "error" | "disabled";
+  // 探测耗时（毫秒）
+  latency_ms?: number;
+  error?: string;
+  checked_at?: number;
+}
+
+/**
+ * Replicate collections API 返回的模型（只包含使用的字段）
+ */
+export interface ReplicateModelInfo {
+  owner: string;
+  name: string;
+  description?: string | null;
+  latest_version?: { id: string; created_at?: string } | null;
+}
+
+/**
+ * 模型发现得到的模型
+ */
+export interface DiscoveredModel {
+  // 模型ID（Replicate 模型名 owner/name），同时作为模型映射的目标
+  id: string;
+  owner: string;
+  description?: string;
+  // 最新版本的创建时间（Unix 秒，未知时为 0）
+  created: number;
+}
+
+/**
+ * 模型发现状态
+ */
+export interface ModelDiscoveryStatus {
+  status: "ok" | "error" | "pending" | "disabled";
+  // 缓存的模型数量（刷新失败时继续使用上次成功获取的模型）
+  models: number;
+  // 最近一次成功刷新的时间（毫秒时间戳）
+  refreshed_at?: number;
+  error?: string;
+}
+
+/**
+ * 就绪检查结果
+ */
+export interface ReadinessReport {
+  status: "ready" | "not_ready";
+  shutting_down: boolean;
+  in_flight_requests: number;
+  active_streams: number;
+  config: ConfigFileStatus;
+  upstream: UpstreamProbeResult;
+  model_discovery: ModelDiscoveryStatus;
+}
+
+/**
+ * 日志级别
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * 结构化日志事件（不包含用户内容）
+ */
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  // 事件名称，如 request.start、upstream.call_complete
+  event: string;
+  request_id?: string;
+  message: string;
+  fields?: Record<string, unknown>;
+}
+
+/**
+ * 日志输出目标
+ */
+export interface LogSink {
+  readonly name: string;
+  write(entry: LogEntry): void;
+  // 输出缓冲中的日志（关闭前调用）
+  flush?(): Promise<void>;
+}
+
+/**
+ * 追踪上下文（W3C trace context），作为子span的父级
+ */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  // 是否采样（未采样时不导出）
+  sampled: boolean;
+}
+
+/**
+ * 请求上下文（在入口创建，贯穿控制器与上游调用）
+ * 作为 SpanContext 时代表本次请求的入口span
+ */
+export interface RequestContext extends SpanContext {
+  // 请求ID（来自 X-Request-Id、traceparent 的 trace-id 或自动生成）
+  requestId: string;
+  // 开始处理的时间戳（毫秒）
+  startTime: number;
+  // 客户端 traceparent 中的 parent-id（未携带时为空）
+  parentSpanId?: string;
+}
+
+/**
+ * span属性值
+ */
+export type SpanAttributeValue = string | number | boolean;
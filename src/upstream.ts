@@ -0,0 +1,160 @@
+import Replicate, { Prediction } from "replicate";
+import { AUTH_CONFIG, initReplicate, parseModelTarget, UPSTREAM_CONFIG, UPSTREAM_PROVIDERS } from "./config.ts";
+import {
+    UpstreamBackend,
+    UpstreamMetrics,
+    UpstreamPrediction,
+    UpstreamPredictionRequest,
+    UpstreamProvider
+} from "./types.ts";
+import { FakeUpstreamBackend, getFakeUpstream } from "./fake-upstream.ts";
+import { AnthropicBackend, OpenAICompatibleBackend } from "./providers.ts";
+
+/**
+ * 转换为上游预测的公共字段
+ * @param prediction - Replicate预测
+ * @returns 上游预测
+ */
+function toUpstreamPrediction(prediction: Prediction): UpstreamPrediction {
+    return {
+        id: prediction.id,
+        status: prediction.status,
+        version: prediction.version,
+        output: prediction.output,
+        error: prediction.error,
+        metrics: prediction.metrics as UpstreamMetrics | undefined,
+        urls: { stream: prediction.urls?.stream }
+    };
+}
+
+/**
+ * 通过 replicate 客户端调用 Replicate API
+ */
+class ReplicateBackend implements UpstreamBackend {
+    readonly name = "replicate";
+
+    /**
+     * Replicate客户端
+     */
+    private client: Replicate;
+
+    /**
+     * 构造函数
+     * @param apiKey - Replicate API密钥
+     * @param getTraceparent - 返回当前 traceparent 的函数（上游请求附带该请求头）
+     */
+    constructor(apiKey: string, getTraceparent?: () => string | null) {
+        this.client = initReplicate(apiKey, getTraceparent);
+    }
+
+    /**
+     * 创建预测
+     * @param request - 创建参数
+     * @returns 预测
+     */
+    async createPrediction(request: UpstreamPredictionRequest): Promise<UpstreamPrediction> {
+        const { model, version, deployment, input, stream } = request;
+        if (deployment) {
+            const [owner, name] = deployment.split("/");
+            const prediction = await this.client.deployments.predictions.create(owner, name, {
+                input,
+                ...(stream ? { stream: true } : {})
+            });
+            return toUpstreamPrediction(prediction);
+        }
+        const prediction = await this.client.predictions.create({
+            ...(version ? { version } : { model: model! }),
+            input,
+            ...(stream ? { stream: true } : {})
+        });
+        return toUpstreamPrediction(prediction);
+    }
+
+    /**
+     * 获取预测
+     * @param id - 预测ID
+     * @returns 预测
+     */
+    async getPrediction(id: string): Promise<UpstreamPrediction> {
+        return toUpstreamPrediction(await this.client.predictions.get(id));
+    }
+
+    /**
+     * 取消预测
+     * @param id - 预测ID
+     */
+    async cancelPrediction(id: string): Promise<void> {
+        await this.client.predictions.cancel(id);
+    }
+
+    /**
+     * 轮询直到预测结束或 stop 返回true，预测失败时抛出错误
+     * @param prediction - 预测
+     * @param stop - 是否停止等待
+     * @returns 结束时的预测
+     */
+    async waitForPrediction(prediction: UpstreamPrediction, stop: () => boolean): Promise<UpstreamPrediction> {
+        const result = await this.client.wait(prediction as Prediction, {}, () => Promise.resolve(stop()));
+        return toUpstreamPrediction(result);
+    }
+
+    /**
+     * 打开预测的流式输出
+     * @param prediction - 预测（需要有流式URL）
+     * @param signal - 中止信号
+     * @returns SSE响应
+     */
+    openStream(prediction: UpstreamPrediction, signal: AbortSignal): Promise<Response> {
+        return this.client.fetch(prediction.urls!.stream!, {
+            headers: { Accept: "text/event-stream" },
+            signal
+        });
+    }
+}
+
+/**
+ * 获取调用其他提供方使用的API密钥（提供方配置的环境变量中的服务端密钥）
+ * 直通模式下客户端的密钥是 Replicate 令牌，不转发给其他提供方（base_url 可以是任意第三方地址）
+ * @param provider - 提供方配置
+ * @returns API密钥；未配置时直通模式下返回null（后端拒绝请求），虚拟密钥模式下返回空字符串（不发送认证请求头）
+ */
+function getProviderApiKey(provider: UpstreamProvider): string | null {
+    const apiKey = provider.api_key_env ? Deno.env.get(provider.api_key_env) : undefined;
+    if (apiKey) {
+        return apiKey;
+    }
+    return AUTH_CONFIG.MODE === "passthrough" ? null : "";
+}
+
+/**
+ * 为模型映射目标创建上游后端
+ * UPSTREAM_CONFIG.BACKEND 为 fake 时所有模型都使用模拟上游，否则按目标的提供方创建
+ * @param target - 模型映射的目标（Replicate 模型名或 "提供方名称:模型名"）
+ * @param apiKey - 调用方的API密钥（Replicate 令牌，只用于 Replicate）
+ * @param getTraceparent - 返回当前 traceparent 的函数（可选）
+ * @returns UpstreamBackend实例
+ */
+export function createUpstreamBackend(
+    target: string,
+    apiKey: string,
+    getTraceparent?: () => string | null
+): UpstreamBackend {
+    if (UPSTREAM_CONFIG.BACKEND === "fake") {
+        return new FakeUpstreamBackend(getFakeUpstream(), apiKey);
+    }
+
+    const name = parseModelTarget(target).provider;
+    const provider = UPSTREAM_PROVIDERS[name];
+    if (!provider) {
+        throw new Error(`Unknown upstream provider: ${name}`);
+    }
+
+    switch (provider.type) {
+        case "anthropic":
+            return new AnthropicBackend(name, provider.base_url!, getProviderApiKey(provider), getTraceparent);
+        case "openai":
+            return new OpenAICompatibleBackend(name, provider.base_url!, getProviderApiKey(provider), getTraceparent);
+        default:
+            return new ReplicateBackend(apiKey, getTraceparent);
+    }
+}
@@ -0,0 +1,55 @@
+import { ModelInput, TokenUsage, UpstreamMetrics } from "./types.ts";
+
+/**
+ * 中日韩字符匹配（这类字符通常每个字符对应约一个token）
+ */
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g;
+
+/**
+ * 本地估算文本的token数量
+ * 上游未返回token统计时使用：中日韩字符按每字符1个token计算，其余文本按约4个字符1个token计算
+ * @param text - 文本内容
+ * @returns 估算的token数量
+ */
+export function estimateTokens(text: string): number {
+    if (!text) {
+        return 0;
+    }
+
+    const cjkCount = text.match(CJK_PATTERN)?.length || 0;
+    const otherLength = text.length - cjkCount;
+
+    return cjkCount + Math.ceil(otherLength / 4);
+}
+
+/**
+ * 估算模型输入的token数量（系统提示 + 对话内容）
+ * @param input - 模型输入
+ * @returns 估算的token数量
+ */
+export function estimateInputTokens(input: ModelInput): number {
+    return estimateTokens(input.system_prompt || "") + estimateTokens(input.prompt);
+}
+
+/**
+ * 计算token用量
+ * 优先使用Replicate预测指标中的 input_token_count / output_token_count，缺失时使用本地估算
+ * @param input - 模型输入
+ * @param completion - 模型输出内容
+ * @param metrics - Replicate预测指标（可选）
+ * @returns OpenAI格式的用量统计
+ */
+export function calculateUsage(input: ModelInput, completion: string, metrics?: UpstreamMetrics): TokenUsage {
+    const promptTokens = typeof metrics?.input_token_count === "number"
+        ? metrics.input_token_count
+        : estimateInputTokens(input);
+    const completionTokens = typeof metrics?.output_token_count === "number"
+        ? metrics.output_token_count
+        : estimateTokens(completion);
+
+    return {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens
+    };
+}
@@ -1,28 +1,5 @@
-import { SSEChunk } from "./types.ts";
-
-/**
- * 为 Promise 添加超时控制
- * 这个函数可以让任何异步操作在指定时间后自动取消
- * @param promise - 要包装的 Promise（比如 API 调用）
- * @param timeoutMs - 超时时间（毫秒）
- * @param errorMessage - 超时时显示的错误消息
- * @returns 带超时控制的 Promise
- */
-export function withTimeout<T>(
-    promise: Promise<T>,
-    timeoutMs: number,
-    errorMessage: string = "操作超时"
-): Promise<T> {
-    return Promise.race([
-        promise, // 原始的异步操作
-        new Promise<never>((_, reject) => {
-            // 创建一个在指定时间后拒绝的 Promise
-            setTimeout(() => {
-                reject(new Error(errorMessage));
-            }, timeoutMs);
-        })
-    ]);
-}
+import { getLogger } from "./logger.ts";
+import { SSEChunk, TokenUsage, ToolCallDelta } from "./types.ts";
 
 /**
  * 创建 SSE 数据块
@@ -31,7 +8,7 @@ export function withTimeout<T>(
  * @param content - 内容
  * @param role - 角色
  * @param finish_reason - 完成原因
- * @param usage - 使用情况统计（固定为0）
+ * @param usage - 使用情况统计（开启 stream_options.include_usage 时传入 null）
  * @returns SSE数据块字符串
  */
 export function createSSEChunk(
@@ -40,7 +17,7 @@ export function createSSEChunk(
   content: string | null, 
   role: string | null, 
   finish_reason: string | null,
-  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number }
+  usage?: TokenUsage | null
 ): string {
   const now = Math.floor(Date.now() / 1000);
   const chunk: SSEChunk = {
@@ -71,18 +48,71 @@ export function createSSEChunk(
     chunk.choices[0].delta = {};
   }
   
-  // 如果提供了usage信息，添加到chunk中（全部设置为0）
-  if (usage && finish_reason === "stop") {
-    (chunk as any).usage = {
-      prompt_tokens: 0,
-      completion_tokens: 0,
-      total_tokens: 0
-    };
+  // 如果提供了usage字段，添加到chunk中
+  if (usage !== undefined) {
+    chunk.usage = usage;
   }
   
   return `data: ${JSON.stringify(chunk)}\n\n`;
 }
 
+/**
+ * 创建工具调用 SSE 数据块
+ * @param id - 事件ID
+ * @param model - 模型名称
+ * @param toolCalls - 工具调用增量
+ * @param usage - 使用情况统计（开启 stream_options.include_usage 时传入 null）
+ * @returns SSE数据块字符串
+ */
+export function createToolCallChunk(
+  id: string,
+  model: string,
+  toolCalls: ToolCallDelta[],
+  usage?: TokenUsage | null
+): string {
+  const chunk: SSEChunk = {
+    id: id,
+    object: "chat.completion.chunk",
+    created: Math.floor(Date.now() / 1000),
+    model: model,
+    choices: [
+      {
+        index: 0,
+        delta: { tool_calls: toolCalls },
+        finish_reason: null,
+        logprobs: null,
+      }
+    ],
+  };
+
+  if (usage !== undefined) {
+    chunk.usage = usage;
+  }
+
+  return `data: ${JSON.stringify(chunk)}\n\n`;
+}
+
+/**
+ * 创建用量统计 SSE 数据块
+ * 对应 OpenAI stream_options.include_usage，choices 为空数组
+ * @param id - 事件ID
+ * @param model - 模型名称
+ * @param usage - 使用情况统计
+ * @returns SSE数据块字符串
+ */
+export function createUsageChunk(id: string, model: string, usage: TokenUsage): string {
+  const chunk: SSEChunk = {
+    id: id,
+    object: "chat.completion.chunk",
+    created: Math.floor(Date.now() / 1000),
+    model: model,
+    choices: [],
+    usage,
+  };
+
+  return `data: ${JSON.stringify(chunk)}\n\n`;
+}
+
 /**
  * 创建错误响应
  * @param message - 错误消息
@@ -146,16 +176,17 @@ export function createAuthErrorResponse(message: string, code: string): Response
 /**
  * 创建超时错误响应
  * @param message - 错误消息
+ * @param code - 错误码（区分总时长、首个token与空闲超时）
  * @returns Response对象
  */
-export function createTimeoutErrorResponse(message: string = "请求处理超时，请稍后重试"): Response {
+export function createTimeoutErrorResponse(message: string = "请求处理超时，请稍后重试", code: string = "request_timeout"): Response {
   return new Response(
     JSON.stringify({
       error: {
         message,
         type: "timeout_error",
         param: null,
-        code: "request_timeout"
+        code
       }
     }),
     {
@@ -169,38 +200,34 @@ export function createTimeoutErrorResponse(message: string = "请求处理超时
 }
 
 // ===== 安全日志系统 =====
+// 所有日志通过结构化日志记录器输出（见 logger.ts），只记录元数据，不记录消息内容等用户数据
 
 /**
- * 请求日志接口
+ * 错误信息与附加数据的最大长度（避免把用户内容带入日志）
  */
-interface RequestLog {
-  timestamp: string;
-  method: string;
-  path: string;
-  userAgent?: string;
-  contentLength?: number;
-  model?: string;
-  stream?: boolean;
-  messagesCount?: number;
-}
+const MAX_LOG_TEXT_LENGTH = 200;
 
 /**
- * 响应日志接口
+ * 截断过长的文本
+ * @param text - 文本
+ * @param maxLength - 最大长度
  */
-interface ResponseLog {
-  timestamp: string;
-  requestId: string;
-  status: number;
-  duration: number;
-  contentLength?: number;
-  error?: string;
+function truncateLogText(text: string, maxLength: number = MAX_LOG_TEXT_LENGTH): string {
+  return text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
 }
 
 /**
- * 生成请求唯一标识符
+ * 将附加数据转换为日志字段
+ * @param data - 非敏感的数据
  */
-export function generateRequestId(): string {
-  return `req_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+function toLogFields(data: unknown): Record<string, unknown> | undefined {
+  if (data === undefined) {
+    return undefined;
+  }
+  if (data !== null && typeof data === 'object' && !Array.isArray(data)) {
+    return data as Record<string, unknown>;
+  }
+  return { value: data };
 }
 
 /**
@@ -210,17 +237,14 @@ export function generateRequestId(): string {
  */
 export function logRequestStart(req: Request, requestId: string): void {
   const url = new URL(req.url);
-  const timestamp = new Date().toISOString();
-  
-  const requestLog: RequestLog = {
-    timestamp,
+  const contentLength = req.headers.get('content-length');
+
+  getLogger().log("info", "request.start", `${req.method} ${url.pathname} - 开始处理`, {
     method: req.method,
     path: url.pathname,
-    userAgent: req.headers.get('user-agent')?.substring(0, 100), // 截断用户代理
-    contentLength: req.headers.get('content-length') ? parseInt(req.headers.get('content-length')!) : undefined
-  };
-  
-  console.log(`[${timestamp}] [REQ] ${requestId} ${req.method} ${url.pathname} - 开始处理`);
+    user_agent: req.headers.get('user-agent')?.substring(0, 100), // 截断用户代理
+    content_length: contentLength ? parseInt(contentLength) : undefined
+  }, requestId);
 }
 
 /**
@@ -229,8 +253,6 @@ export function logRequestStart(req: Request, requestId: string): void {
  * @param requestBody - 请求体
  */
 export function logRequestMetadata(requestId: string, requestBody: any): void {
-  const timestamp = new Date().toISOString();
-  
   // 只记录非敏感的元数据
   const safeMetadata = {
     model: requestBody.model || "未指定",
@@ -245,7 +267,7 @@ export function logRequestMetadata(requestId: string, requestBody: any): void {
       }, {}) : {}
   };
   
-  console.log(`[${timestamp}] [META] ${requestId} 请求参数: ${JSON.stringify(safeMetadata)}`);
+  getLogger().log("info", "request.metadata", "请求参数", safeMetadata, requestId);
 }
 
 /**
@@ -255,8 +277,10 @@ export function logRequestMetadata(requestId: string, requestBody: any): void {
  * @param isStream - 是否流式
  */
 export function logApiCallStart(requestId: string, model: string, isStream: boolean): void {
-  const timestamp = new Date().toISOString();
-  console.log(`[${timestamp}] [API] ${requestId} 开始${isStream ? '流式' : ''}API调用 - 模型: ${model}`);
+  getLogger().log("info", "upstream.call_start", `开始${isStream ? '流式' : ''}API调用 - 模型: ${model}`, {
+    model,
+    stream: isStream
+  }, requestId);
 }
 
 /**
@@ -266,9 +290,11 @@ export function logApiCallStart(requestId: string, model: string, isStream: bool
  * @param responseLength - 响应内容长度（字符数）
  */
 export function logApiCallComplete(requestId: string, duration: number, responseLength?: number): void {
-  const timestamp = new Date().toISOString();
   const lengthInfo = responseLength ? ` - 响应长度: ${responseLength}字符` : '';
-  console.log(`[${timestamp}] [API] ${requestId} API调用完成 - 耗时: ${duration}ms${lengthInfo}`);
+  getLogger().log("info", "upstream.call_complete", `API调用完成 - 耗时: ${duration}ms${lengthInfo}`, {
+    duration_ms: duration,
+    response_length: responseLength
+  }, requestId);
 }
 
 /**
@@ -284,20 +310,21 @@ export function logResponseComplete(
   status: number, 
   error?: string
 ): void {
-  const timestamp = new Date().toISOString();
   const duration = Date.now() - startTime;
   
   const statusText = status >= 200 && status < 300 ? '成功' : 
                     status >= 400 && status < 500 ? '客户端错误' : 
                     '服务器错误';
   
-  if (error) {
-    // 只记录错误类型，不记录可能包含用户内容的错误详情
-    const safeError = error.length > 100 ? error.substring(0, 100) + '...' : error;
-    console.log(`[${timestamp}] [RESP] ${requestId} ${status} ${statusText} - 耗时: ${duration}ms - 错误: ${safeError}`);
-  } else {
-    console.log(`[${timestamp}] [RESP] ${requestId} ${status} ${statusText} - 耗时: ${duration}ms`);
-  }
+  // 只记录错误类型，不记录可能包含用户内容的错误详情
+  const safeError = error ? truncateLogText(error, 100) : undefined;
+  getLogger().log(
+    status >= 500 ? "error" : status >= 400 ? "warn" : "info",
+    "request.complete",
+    `${status} ${statusText} - 耗时: ${duration}ms${safeError ? ` - 错误: ${safeError}` : ''}`,
+    { status, duration_ms: duration, error: safeError },
+    requestId
+  );
 }
 
 /**
@@ -308,66 +335,65 @@ export function logResponseComplete(
 export function logStreamProgress(requestId: string, chunksCount: number): void {
   // 只在特定间隔记录进度，避免日志过多
   if (chunksCount % 10 === 0) {
-    const timestamp = new Date().toISOString();
-    console.log(`[${timestamp}] [STREAM] ${requestId} 流式响应进度 - 已发送 ${chunksCount} 个块`);
+    getLogger().log("debug", "stream.progress", `流式响应进度 - 已发送 ${chunksCount} 个块`, { chunks: chunksCount }, requestId);
   }
 }
 
 /**
- * 记录系统信息（用于调试和监控）
+ * 记录系统信息（用于调试和监控，与具体请求无关）
  * @param message - 系统消息
  * @param data - 非敏感的数据
  */
 export function logSystem(message: string, data?: any): void {
-  const timestamp = new Date().toISOString();
-  if (data !== undefined) {
-    console.log(`[${timestamp}] [SYS] ${message}: ${typeof data === 'object' ? JSON.stringify(data) : data}`);
-  } else {
-    console.log(`[${timestamp}] [SYS] ${message}`);
-  }
+  getLogger().log("info", "system", message, toLogFields(data));
 }
 
 /**
- * 记录错误信息到控制台（不包含用户内容）
+ * 记录请求处理过程中的事件
+ * @param requestId - 请求ID（不在请求中调用时为undefined）
+ * @param event - 事件名称
+ * @param message - 消息
+ * @param data - 非敏感的数据
+ */
+export function logRequestEvent(requestId: string | undefined, event: string, message: string, data?: unknown): void {
+  getLogger().log("info", event, message, toLogFields(data), requestId);
+}
+
+/**
+ * 记录错误信息（不包含用户内容）
  * @param requestId - 请求ID（可选）
  * @param label - 标签
  * @param error - 错误
  */
 export function logError(label: string, error: unknown, requestId?: string): void {
-  const timestamp = new Date().toISOString();
-  const prefix = requestId ? `${requestId} ` : '';
+  const fields: Record<string, unknown> = {};
   
   if (error instanceof Error) {
     // 只记录错误类型和安全的错误信息
-    const safeMessage = error.message.length > 200 ? 
-      error.message.substring(0, 200) + '...' : error.message;
-    console.error(`[${timestamp}] [ERROR] ${prefix}${label}: ${safeMessage}`);
+    fields.error_name = error.name;
+    fields.error = truncateLogText(error.message);
     
     // 在开发环境下可以记录堆栈信息
     if (Deno.env.get("DENO_ENV") !== "production" && error.stack) {
-      console.error(`[${timestamp}] [ERROR] ${prefix}Stack trace:`, error.stack);
+      fields.stack = error.stack;
     }
   } else {
-    const errorStr = String(error);
-    const safeErrorStr = errorStr.length > 200 ? errorStr.substring(0, 200) + '...' : errorStr;
-    console.error(`[${timestamp}] [ERROR] ${prefix}${label}: ${safeErrorStr}`);
+    fields.error = truncateLogText(String(error));
   }
+
+  getLogger().log("error", "error", `${label}: ${fields.error}`, fields, requestId);
 }
 
 /**
- * 记录警告信息到控制台
+ * 记录警告信息
  * @param label - 标签
  * @param data - 数据
  */
 export function logWarn(label: string, data?: any): void {
-  const timestamp = new Date().toISOString();
-  if (data !== undefined) {
-    const safeData = typeof data === 'object' ? JSON.stringify(data) : String(data);
-    const truncatedData = safeData.length > 200 ? safeData.substring(0, 200) + '...' : safeData;
-    console.warn(`[${timestamp}] [WARN] ${label}: ${truncatedData}`);
-  } else {
-    console.warn(`[${timestamp}] [WARN] ${label}`);
-  }
+  const fields = data !== undefined
+    ? { value: truncateLogText(typeof data === 'object' ? JSON.stringify(data) : String(data)) }
+    : undefined;
+  getLogger().log("warn", "warning", label, fields);
 }
 
 // ===== 保留的通用工具函数 =====
@@ -0,0 +1,1787 @@
+/**
+ * 端到端集成测试：通过 routeRequest 处理请求，上游使用进程内模拟的 Replicate（UPSTREAM_BACKEND=fake），不访问网络
+ * 其他提供方（Anthropic、OpenAI 兼容）的测试使用在本机启动的API存根
+ *
+ * 运行: deno task test
+ */
+import { assert, assertEquals, assertRejects, assertStringIncludes } from "@std/assert";
+import {
+    applyRuntimeConfig,
+    AUTH_CONFIG,
+    FILE_STORE_CONFIG,
+    getBuiltinRuntimeConfig,
+    HEALTH_CONFIG,
+    RATE_LIMIT_CONFIG,
+    RETRY_CONFIG,
+    setDiscoveredModels,
+    TIMEOUT_CONFIG,
+    UPSTREAM_CONFIG
+} from "../src/config.ts";
+import { routeRequest } from "../src/controllers.ts";
+import { getFakeUpstream } from "../src/fake-upstream.ts";
+import { KeyStore } from "../src/key-store.ts";
+import { getLogger, HttpSink, RotatingFileSink } from "../src/logger.ts";
+import { ConfigFileError, readConfigFile } from "../src/config-file.ts";
+import { getModelDiscovery } from "../src/model-discovery.ts";
+import { parseOtlpHeaders } from "../src/tracing.ts";
+import { LogEntry } from "../src/types.ts";
+
+UPSTREAM_CONFIG.BACKEND = "fake";
+AUTH_CONFIG.MODE = "passthrough";
+// 重试时不等待
+RETRY_CONFIG.BASE_DELAY_MS = 0;
+getLogger().setLevel("error");
+
+const fake = getFakeUpstream();
+
+/**
+ * 测试中捕获的日志事件（见 captureLogs）
+ */
+let capturedLogs: LogEntry[] | null = null;
+getLogger().addSink({ name: "capture", write: entry => capturedLogs?.push(entry) });
+const MODEL = "claude-sonnet-4-20250514";
+const CLIENT_KEY = "r8_client_test_key";
+const ANTHROPIC_KEY = "sk-ant-test-key";
+const LOCAL_KEY = "sk-local-test-key";
+
+/**
+ * 创建发往代理的POST请求
+ * @param path - 路径
+ * @param body - 请求体（对象会序列化为JSON）
+ * @param headers - 请求头（默认带客户端的 Replicate 密钥）
+ */
+function post(path: string, body: unknown, headers: Record<string, string> = { Authorization: `Bearer ${CLIENT_KEY}` }): Request {
+    return new Request(`http://localhost${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: typeof body === "string" ? body : JSON.stringify(body)
+    });
+}
+
+/**
+ * 聊天完成请求体
+ * @param overrides - 覆盖的字段
+ */
+function chatBody(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+    return { model: MODEL, messages: [{ role: "user", content: "Say hello" }], ...overrides };
+}
+
+/**
+ * 读取响应体文本（流以错误结束时返回出错前收到的内容）
+ * @param response - 响应
+ * @returns 响应体文本
+ */
+async function readText(response: Response): Promise<string> {
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let text = "";
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+            text += value;
+        }
+    } catch {
+        // 流以错误结束
+    }
+    return text;
+}
+
+/**
+ * 读取SSE响应中的所有 data 行
+ * @param response - 响应
+ * @returns data 内容
+ */
+async function readSSEData(response: Response): Promise<string[]> {
+    const text = await readText(response);
+    return text.split("\n").filter(line => line.startsWith("data: ")).map(line => line.substring(6));
+}
+
+/**
+ * 拼接 OpenAI 流式响应中的文本内容
+ * @param data - data 行
+ */
+function joinDeltas(data: string[]): string {
+    return data
+        .filter(line => line !== "[DONE]")
+        .map(line => JSON.parse(line))
+        .map(chunk => chunk.choices?.[0]?.delta?.content || "")
+        .join("");
+}
+
+/**
+ * 包含文本与图片的用户消息
+ * @param urls - 图片地址
+ */
+function imageMessage(...urls: string[]): Record<string, unknown> {
+    return {
+        role: "user",
+        content: [
+            { type: "text", text: "Describe" },
+            ...urls.map(url => ({ type: "image_url", image_url: { url } }))
+        ]
+    };
+}
+
+/**
+ * 生成 PNG data URL（PNG 文件头加一个标记字节，不同标记得到不同的图片内容）
+ * @param marker - 标记字节
+ * @param mimeType - 声明的MIME类型
+ */
+function pngDataUrl(marker: number, mimeType = "image/png"): string {
+    const bytes = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, marker];
+    return `data:${mimeType};base64,${btoa(String.fromCharCode(...bytes))}`;
+}
+
+/**
+ * 等待条件成立（用于等待异步触发的上游调用、子进程中的配置重新加载等）
+ * @param condition - 条件
+ * @param timeoutMs - 最长等待时间
+ */
+async function waitFor(condition: () => boolean | Promise<boolean>, timeoutMs = 1000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!(await condition())) {
+        if (Date.now() > deadline) {
+            throw new Error("Timed out waiting for condition");
+        }
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+}
+
+/**
+ * 从指标文本中读取某个时间序列的值（不存在时为0）
+ * @param text - /metrics 返回的文本
+ * @param series - 指标名称与标签，如 replicate_proxy_tokens_total{model="m",type="prompt"}
+ */
+function parseMetric(text: string, series: string): number {
+    const line = text.split("\n").find(line => line.startsWith(`${series} `));
+    return line ? Number(line.substring(series.length + 1)) : 0;
+}
+
+/**
+ * 读取本进程中某个指标的当前值
+ * @param series - 指标名称与标签
+ */
+async function readMetric(series: string): Promise<number> {
+    const response = await routeRequest(new Request("http://localhost/metrics"));
+    return parseMetric(await response.text(), series);
+}
+
+/**
+ * 执行测试函数并返回期间记录的 info 及以上级别的日志事件
+ * @param fn - 测试函数
+ */
+async function captureLogs(fn: () => Promise<void>): Promise<LogEntry[]> {
+    const entries: LogEntry[] = [];
+    capturedLogs = entries;
+    getLogger().setLevel("info");
+    try {
+        await fn();
+    } finally {
+        capturedLogs = null;
+        getLogger().setLevel("error");
+    }
+    return entries;
+}
+
+/**
+ * 创建在子进程中运行代理（src/main.ts）的命令，默认使用模拟上游与直通认证
+ * @param env - 子进程的环境变量
+ */
+function proxyCommand(env: Record<string, string>): Deno.Command {
+    return new Deno.Command(Deno.execPath(), {
+        args: ["run", "-A", "src/main.ts"],
+        cwd: new URL("..", import.meta.url).pathname,
+        env: { UPSTREAM_BACKEND: "fake", AUTH_MODE: "passthrough", LOG_LEVEL: "error", ...env },
+        stdout: "null",
+        stderr: "null"
+    });
+}
+
+/**
+ * 在子进程中启动代理，健康检查通过后执行测试，结束时终止子进程
+ * @param env - 子进程的环境变量
+ * @param fn - 测试函数，参数为代理地址与子进程
+ */
+async function withProxyProcess(
+    env: Record<string, string>,
+    fn: (baseUrl: string, child: Deno.ChildProcess) => Promise<void>
+): Promise<void> {
+    const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+    const port = listener.addr.port;
+    listener.close();
+
+    const baseUrl = `http://127.0.0.1:${port}`;
+    const child = proxyCommand({ PORT: String(port), ...env }).spawn();
+
+    try {
+        await waitFor(async () => {
+            try {
+                const response = await fetch(`${baseUrl}/healthz`);
+                await response.body?.cancel();
+                return response.ok;
+            } catch {
+                return false;
+            }
+        }, 15000);
+        await fn(baseUrl, child);
+    } finally {
+        try {
+            child.kill("SIGKILL");
+        } catch {
+            // 子进程已退出
+        }
+        await child.status;
+    }
+}
+
+/**
+ * 启动逐块输出的 OpenAI 兼容流式接口存根，并在子进程中启动以它为上游的代理后执行测试
+ * 代理的模型 "llama" 指向存根，每块内容为 "x"
+ * @param chunks - 输出的块数
+ * @param intervalMs - 块之间的间隔（毫秒）
+ * @param env - 子进程的其他环境变量
+ * @param fn - 测试函数，参数为代理地址与子进程
+ */
+async function withSlowStreamProxy(
+    chunks: number,
+    intervalMs: number,
+    env: Record<string, string>,
+    fn: (baseUrl: string, child: Deno.ChildProcess) => Promise<void>
+): Promise<void> {
+    const encoder = new TextEncoder();
+    const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, async request => {
+        await request.body?.cancel();
+        let sent = 0;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const body = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                return new Promise(resolve => {
+                    timer = setTimeout(() => {
+                        if (sent === chunks) {
+                            controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+                            controller.close();
+                        } else {
+                            controller.enqueue(encoder.encode('data: {"choices":[{"delta":{"content":"x"}}]}\n\n'));
+                            sent++;
+                        }
+                        resolve();
+                    }, sent === 0 ? 0 : intervalMs);
+                });
+            },
+            cancel() {
+                clearTimeout(timer);
+            }
+        });
+        return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+    });
+
+    const directory = await Deno.makeTempDir();
+    const configPath = `${directory}/config.json`;
+    await Deno.writeTextFile(configPath, JSON.stringify({
+        providers: {
+            local: { type: "openai", base_url: `http://127.0.0.1:${server.addr.port}/v1`, api_key_env: "LOCAL_API_KEY" }
+        },
+        models: { llama: "local:llama3" },
+        default_model: "llama"
+    }));
+
+    try {
+        await withProxyProcess({ UPSTREAM_BACKEND: "replicate", CONFIG_FILE: configPath, LOCAL_API_KEY: LOCAL_KEY, ...env }, fn);
+    } finally {
+        await server.shutdown();
+        await Deno.remove(directory, { recursive: true });
+    }
+}
+
+/**
+ * 向子进程中的代理发送流式请求，读取到第一个内容块后返回
+ * @param baseUrl - 代理地址
+ * @returns 流的读取器与已经收到的文本
+ */
+async function openChatStream(baseUrl: string): Promise<{ reader: ReadableStreamDefaultReader<string>; received: string }> {
+    const response = await fetch(`${baseUrl}/v1/chat/completions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${CLIENT_KEY}` },
+        body: JSON.stringify(chatBody({ model: "llama", stream: true }))
+    });
+    assertEquals(response.status, 200);
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let received = "";
+    while (!received.includes('"content"')) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        received += value;
+    }
+    return { reader, received };
+}
+
+/**
+ * 读取流的剩余内容
+ * @param reader - 读取器
+ */
+async function readRest(reader: ReadableStreamDefaultReader<string>): Promise<string> {
+    let text = "";
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+            return text;
+        }
+        text += value;
+    }
+}
+
+/**
+ * 端口是否仍在接受连接
+ * @param baseUrl - 代理地址
+ */
+async function isAcceptingConnections(baseUrl: string): Promise<boolean> {
+    try {
+        const connection = await Deno.connect({ hostname: "127.0.0.1", port: Number(new URL(baseUrl).port) });
+        connection.close();
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * 提供方存根收到的请求
+ */
+interface StubRequest {
+    path: string;
+    headers: Headers;
+    body: Record<string, unknown>;
+}
+
+/**
+ * 返回SSE响应
+ * @param events - 已格式化的事件
+ */
+function sseResponse(events: string[]): Response {
+    return new Response(events.join(""), { headers: { "Content-Type": "text/event-stream" } });
+}
+
+/**
+ * 在本地启动提供方API的存根，将提供方 anthropic 与 OpenAI 兼容的 local 指向它后执行测试（临时使用真实的上游后端）
+ * 模型映射中 "claude-direct" 指向 anthropic，"llama" 指向 local；提供方的密钥为 ANTHROPIC_KEY 与 LOCAL_KEY
+ * @param handler - 存根的请求处理函数
+ * @param fn - 测试函数，参数为存根收到的请求
+ */
+async function withProviderStub(
+    handler: (request: StubRequest) => Response | Promise<Response>,
+    fn: (requests: StubRequest[]) => Promise<void>
+): Promise<void> {
+    const requests: StubRequest[] = [];
+    const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, async request => {
+        const stubRequest = { path: new URL(request.url).pathname, headers: request.headers, body: await request.json() };
+        requests.push(stubRequest);
+        return await handler(stubRequest);
+    });
+    const baseUrl = `http://127.0.0.1:${server.addr.port}`;
+
+    const config = getBuiltinRuntimeConfig();
+    config.providers.anthropic.base_url = baseUrl;
+    config.providers.local = { type: "openai", base_url: `${baseUrl}/v1`, api_key_env: "LOCAL_API_KEY" };
+    config.modelMapping["claude-direct"] = "anthropic:claude-sonnet-4-20250514";
+    config.modelMapping["llama"] = "local:llama3";
+    applyRuntimeConfig(config);
+    UPSTREAM_CONFIG.BACKEND = "replicate";
+    Deno.env.set("ANTHROPIC_API_KEY", ANTHROPIC_KEY);
+    Deno.env.set("LOCAL_API_KEY", LOCAL_KEY);
+
+    try {
+        await fn(requests);
+    } finally {
+        Deno.env.delete("ANTHROPIC_API_KEY");
+        Deno.env.delete("LOCAL_API_KEY");
+        UPSTREAM_CONFIG.BACKEND = "fake";
+        applyRuntimeConfig(getBuiltinRuntimeConfig());
+        await server.shutdown();
+    }
+}
+
+/**
+ * 每个测试开始前重置模拟上游
+ * @param name - 测试名称
+ * @param fn - 测试函数
+ */
+function test(name: string, fn: () => void | Promise<void>): void {
+    Deno.test(name, async () => {
+        fake.reset();
+        await fn();
+    });
+}
+
+test("非流式：返回完整内容与上游报告的用量", async () => {
+    fake.script({ chunks: ["Hello", ", ", "world"], metrics: { input_token_count: 12, output_token_count: 3 } });
+
+    const response = await routeRequest(post("/v1/chat/completions", chatBody()));
+    assertEquals(response.status, 200);
+    assertEquals(response.headers.get("X-Upstream-Attempts"), "1");
+
+    const completion = await response.json();
+    assertEquals(completion.object, "chat.completion");
+    assertEquals(completion.model, MODEL);
+    assertEquals(completion.choices[0].message.content, "Hello, world");
+    assertEquals(completion.choices[0].finish_reason, "stop");
+    assertEquals(completion.usage.prompt_tokens, 12);
+    assertEquals(completion.usage.completion_tokens, 3);
+
+    const [create] = fake.callsOf("create");
+    assertEquals(create.apiKey, CLIENT_KEY);
+    assertEquals(create.model, "anthropic/claude-4-sonnet");
+    assertEquals(create.stream, false);
+    assertStringIncludes(create.input!.prompt, "Say hello");
+});
+
+test("流式：按块输出并以 [DONE] 结束，include_usage 时发送用量块", async () => {
+    fake.script({ chunks: ["Hel", "lo", " world"], chunkDelayMs: 5 });
+
+    const response = await routeRequest(post("/v1/chat/completions", chatBody({
+        stream: true,
+        stream_options: { include_usage: true }
+    })));
+    assertEquals(response.status, 200);
+    assertEquals(response.headers.get("Content-Type"), "text/event-stream");
+
+    const data = await readSSEData(response);
+    assertEquals(data[data.length - 1], "[DONE]");
+    assertEquals(joinDeltas(data), "Hello world");
+
+    const chunks = data.slice(0, -1).map(line => JSON.parse(line));
+    assertEquals(chunks[0].choices[0].delta.role, "assistant");
+    assertEquals(chunks.find(chunk => chunk.choices[0]?.finish_reason)?.choices[0].finish_reason, "stop");
+    const usageChunk = chunks[chunks.length - 1];
+    assertEquals(usageChunk.choices, []);
+    assertEquals(usageChunk.usage.prompt_tokens, 10);
+    assertEquals(usageChunk.usage.completion_tokens, 3);
+
+    assertEquals(fake.callsOf("stream").length, 1);
+});
+
+test("Anthropic Messages：非流式返回 message 对象", async () => {
+    fake.script({ chunks: ["Hi there"] });
+
+    const response = await routeRequest(post("/v1/messages", {
+        model: MODEL,
+        max_tokens: 1024,
+        system: "Be brief",
+        messages: [{ role: "user", content: "Hello" }]
+    }, { "x-api-key": CLIENT_KEY }));
+    assertEquals(response.status, 200);
+
+    const message = await response.json();
+    assertEquals(message.type, "message");
+    assertEquals(message.role, "assistant");
+    assertEquals(message.content, [{ type: "text", text: "Hi there" }]);
+    assertEquals(message.stop_reason, "end_turn");
+    assertEquals(fake.callsOf("create")[0].input!.system_prompt, "Be brief");
+});
+
+test("Anthropic Messages：流式事件顺序完整", async () => {
+    fake.script({ chunks: ["Hi", " there"] });
+
+    const response = await routeRequest(post("/v1/messages", {
+        model: MODEL,
+        max_tokens: 1024,
+        stream: true,
+        messages: [{ role: "user", content: "Hello" }]
+    }, { "x-api-key": CLIENT_KEY }));
+    assertEquals(response.status, 200);
+
+    const text = await response.text();
+    const events = text.split("\n").filter(line => line.startsWith("event: ")).map(line => line.substring(7));
+    assertEquals(events[0], "message_start");
+    assertEquals(events[1], "content_block_start");
+    assertEquals(events.slice(-3), ["content_block_stop", "message_delta", "message_stop"]);
+    assertStringIncludes(text, '"text":"Hi"');
+    assertStringIncludes(text, '"text":" there"');
+});
+
+test("Anthropic Messages：采样参数超出范围时返回 invalid_request_error", async () => {
+    for (const overrides of [{ temperature: 1.5 }, { top_p: 2 }, { top_k: -1 }, { stop_sequences: ["a", "b", "c", "d", "e"] }]) {
+        const response = await routeRequest(post("/v1/messages", {
+            model: MODEL,
+            max_tokens: 1024,
+            messages: [{ role: "user", content: "Hello" }],
+            ...overrides
+        }, { "x-api-key": CLIENT_KEY }));
+        assertEquals(response.status, 400);
+        const body = await response.json();
+        assertEquals(body.type, "error");
+        assertEquals(body.error.type, "invalid_request_error");
+    }
+    assertEquals(fake.calls.length, 0);
+});
+
+test("停止序列：包含逗号的停止序列不写入模型输入，在本地截断", async () => {
+    const config = getBuiltinRuntimeConfig();
+    config.modelProfiles["anthropic/claude-4-sonnet"].sampling_parameters = { stop: "stop_sequences" };
+    applyRuntimeConfig(config);
+    fake.script({ chunks: ["Hello", " a,b", " world"] });
+
+    try {
+        const response = await routeRequest(post("/v1/chat/completions", chatBody({ stop: ["a,b", "END"] })));
+        assertEquals(response.status, 200);
+        const completion = await response.json();
+        assertEquals(completion.choices[0].message.content, "Hello ");
+        assertEquals(completion.choices[0].finish_reason, "stop");
+        assertEquals(fake.callsOf("create")[0].input!.stop_sequences, "END");
+    } finally {
+        applyRuntimeConfig(getBuiltinRuntimeConfig());
+    }
+});
+
+const WEATHER_TOOL = {
+    type: "function",
+    function: {
+        name: "get_weather",
+        description: "Get the current weather",
+        parameters: { type: "object", properties: { city: { type: "string" } }, required: ["city"] }
+    }
+};
+
+test("工具调用：工具定义与历史结果写入提示，非流式返回 tool_calls", async () => {
+    fake.script({ chunks: ["Let me check.\n", '<tool_call>\n{"name": "get_weather", "arguments": {"city": "Paris"}}\n</tool_call>'] });
+
+    const response = await routeRequest(post("/v1/chat/completions", chatBody({
+        tools: [WEATHER_TOOL],
+        messages: [
+            { role: "user", content: "Weather in Rome and Paris?" },
+            {
+                role: "assistant",
+                content: null,
+                tool_calls: [{ id: "call_rome", type: "function", function: { name: "get_weather", arguments: '{"city":"Rome"}' } }]
+            },
+            { role: "tool", tool_call_id: "call_rome", content: "Sunny, 25C" }
+        ]
+    })));
+    assertEquals(response.status, 200);
+    const choice = (await response.json()).choices[0];
+    assertEquals(choice.finish_reason, "tool_calls");
+    assertEquals(choice.message.content, "Let me check.");
+    assertEquals(choice.message.tool_calls.length, 1);
+    assertEquals(choice.message.tool_calls[0].type, "function");
+    assertEquals(choice.message.tool_calls[0].function, { name: "get_weather", arguments: '{"city":"Paris"}' });
+    assert(choice.message.tool_calls[0].id);
+
+    const input = fake.callsOf("create")[0].input!;
+    assertStringIncludes(String(input.system_prompt), '"name": "get_weather"');
+    assertStringIncludes(String(input.prompt), '{"name":"get_weather","arguments":{"city":"Rome"}}');
+    assertStringIncludes(String(input.prompt), '<tool_result tool_call_id="call_rome" name="get_weather">\nSunny, 25C\n</tool_result>');
+});
+
+test("工具调用：流式输出中跨块的调用标记不会发送给客户端，以 delta.tool_calls 返回", async () => {
+    fake.script({
+        chunks: ["Checking", " <tool", '_call>{"name": "get_weather", "argu', 'ments": {"city": "Paris"}}</tool_call>', " ignored"]
+    });
+
+    const response = await routeRequest(post("/v1/chat/completions", chatBody({ stream: true, tools: [WEATHER_TOOL] })));
+    assertEquals(response.status, 200);
+    const chunks = (await readSSEData(response)).filter(line => line !== "[DONE]").map(line => JSON.parse(line));
+
+    assertEquals(joinDeltas(chunks.map(chunk => JSON.stringify(chunk))), "Checking ");
+    const deltas = chunks.flatMap(chunk => chunk.choices?.[0]?.delta?.tool_calls || []);
+    assertEquals(deltas.length, 2);
+    assertEquals(deltas[0].index, 0);
+    assertEquals(deltas[0].function.name, "get_weather");
+    assert(deltas[0].id);
+    assertEquals(deltas.map(delta => delta.function.arguments).join(""), '{"city":"Paris"}');
+    assertEquals(chunks.at(-1).choices[0].finish_reason, "tool_calls");
+});
+
+test("工具调用：tool_choice 指定的工具不存在时返回 400", async () => {
+    const response = await routeRequest(post("/v1/chat/completions", chatBody({
+        tools: [WEATHER_TOOL],
+        tool_choice: { type: "function", function: { name: "get_time" } }
+    })));
+    assertEquals(response.status, 400);
+    assertStringIncludes((await response.json()).error.message, "get_time");
+    assertEquals(fake.callsOf("create").length, 0);
+});
+
+test("认证：缺少 Authorization 时返回 401 且不调用上游", async () => {
+    const response = await routeRequest(post("/v1/chat/completions", chatBody(), {}));
+    assertEquals(response.status, 401);
+
+    const body = await response.json();
+    assertEquals(body.error.type, "invalid_request_error");
+    assertEquals(fake.calls.length, 0);
+});
+
+test("认证：虚拟密钥模式下使用管理接口创建的密钥，上游使用服务端令牌", async () => {
+    const keyStorePath = await Deno.makeTempFile({ suffix: ".json" });
+    await Deno.writeTextFile(keyStorePath, "[]");
+    const previous = { ...AUTH_CONFIG };
+    Object.assign(AUTH_CONFIG, { MODE: "virtual", KEY_STORE_PATH: keyStorePath, ADMIN_TOKEN: "admin-secret" });
+    Deno.env.set("REPLICATE_API_TOKEN", "r8_server_token");
+
+    try {
+        // 未知的虚拟密钥
+        const rejected = await routeRequest(post("/v1/chat/completions", chatBody(), { Authorization: "Bearer sk-unknown" }));
+        assertEquals(rejected.status, 401);
+        await rejected.body?.cancel();
+
+        // 管理接口创建密钥
+        const created = await routeRequest(post("/admin/keys", { name: "tests" }, { Authorization: "Bearer admin-secret" }));
+        assertEquals(created.status, 201);
+        const { key } = await created.json();
+        assert(key.startsWith("sk-"));
+
+        const response = await routeRequest(post("/v1/chat/completions", chatBody(), { Authorization: `Bearer ${key}` }));
+        assertEquals(response.status, 200);
+        await response.body?.cancel();
+        assertEquals(fake.callsOf("create")[0].apiKey, "r8_server_token");
+    } finally {
+        Object.assign(AUTH_CONFIG, previous);
+        Deno.env.delete("REPLICATE_API_TOKEN");
+        await Deno.remove(keyStorePath);
+    }
+});
+
+test("虚拟密钥存储：写入文件失败时不保留新建的密钥，也不保留吊销", async () => {
+    const directory = await Deno.makeTempDir();
+    const path = `${directory}/keys.json`;
+    await Deno.writeTextFile(path, "[]");
+    // 临时文件的路径被目录占用，写入失败
+    await Deno.mkdir(`${path}.tmp`);
+
+    try {
+        const store = new KeyStore(path);
+        await assertRejects(() => store.create("broken", "default"));
+        assertEquals(await store.list(), []);
+
+        // 吊销时写入失败，密钥保持未吊销
+        await Deno.remove(`${path}.tmp`);
+        const { record } = await store.create("revoke", "default");
+        await Deno.mkdir(`${path}.tmp`);
+        await assertRejects(() => store.revoke(record.id));
+        assertEquals((await store.list())[0].revoked_at, null);
+    } finally {
+        await Deno.remove(directory, { recursive: true });
+    }
+});
+
+test("配置文件：校验失败时逐条列出问题", async () => {
+    const directory = await Deno.makeTempDir();
+    const path = `${directory}/config.yaml`;
+    await Deno.writeTextFile(path, [
+        "models:",
+        "  fast: not a model",
+        "default_model: missing",
+        "max_tokens:",
+        "  default: -1",
+        "colors: true"
+    ].join("\n"));
+
+    try {
+        const error = await assertRejects(() => readConfigFile(path), ConfigFileError);
+        assertEquals(error.issues.length, 4);
+        assert(error.issues.some(issue => issue.startsWith('未知字段 "colors"')));
+        assert(error.issues.some(issue => issue.startsWith("models.fast:")));
+        assert(error.issues.some(issue => issue.includes('模型 "missing" 不在 models 中')));
+        assert(error.issues.some(issue => issue.startsWith("max_tokens.default:")));
+    } finally {
+        await Deno.remove(directory, { recursive: true });
+    }
+});
+
+test("配置文件：启动时配置无效则退出，不开始接受请求", async () => {
+    const directory = await Deno.makeTempDir();
+    const path = `${directory}/config.json`;
+    await Deno.writeTextFile(path, "{ invalid json");
+
+    try {
+        const { code } = await proxyCommand({ CONFIG_FILE: path, PORT: "0" }).output();
+        assertEquals(code, 1);
+    } finally {
+        await Deno.remove(directory, { recursive: true });
+    }
+});
+
+test("配置文件：文件变化后重新加载，/v1/models 显示新的模型；新内容无效时保留当前配置", async () => {
+    const directory = await Deno.makeTempDir();
+    const path = `${directory}/config.yaml`;
+    await Deno.writeTextFile(path, "models:\n  alpha: anthropic/claude-4-sonnet\ndefault_model: alpha\n");
+
+    try {
+        await withProxyProcess({ CONFIG_FILE: path }, async baseUrl => {
+            const listModels = async () => {
+                const models = await (await fetch(`${baseUrl}/v1/models`)).json();
+                return models.data.map((model: { id: string }) => model.id);
+            };
+            const readConfigStatus = async () => (await (await fetch(`${baseUrl}/readyz`)).json()).config;
+
+            assertEquals(await listModels(), ["alpha"]);
+            assertEquals((await readConfigStatus()).source, "file");
+
+            await Deno.writeTextFile(path, "models:\n  beta: anthropic/claude-3.5-sonnet\ndefault_model: beta\n");
+            await waitFor(async () => (await listModels()).includes("beta"), 5000);
+            assertEquals(await listModels(), ["beta"]);
+
+            const response = await fetch(`${baseUrl}/v1/chat/completions`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json", Authorization: `Bearer ${CLIENT_KEY}` },
+                body: JSON.stringify(chatBody({ model: "beta" }))
+            });
+            assertEquals(response.status, 200);
+            await response.body?.cancel();
+
+            await Deno.writeTextFile(path, "models:\n  gamma: not a model\ndefault_model: gamma\n");
+            await waitFor(async () => (await readConfigStatus()).last_error !== null, 5000);
+            assertStringIncludes((await readConfigStatus()).last_error[0], "models.gamma");
+            assertEquals(await listModels(), ["beta"]);
+        });
+    } finally {
+        await Deno.remove(directory, { recursive: true });
+    }
+});
+
+test("就绪检查：使用模拟上游或没有模型由 Replicate 处理时不探测 Replicate", async () => {
+    HEALTH_CONFIG.PROBE_TOKEN = "default";
+    const readyz = async () => {
+        const response = await routeRequest(new Request("http://localhost/readyz"));
+        assertEquals(response.status, 200);
+        return (await response.json()).upstream.status;
+    };
+
+    try {
+        assertEquals(await readyz(), "disabled");
+
+        const config = getBuiltinRuntimeConfig();
+        config.modelMapping = { [MODEL]: "anthropic:claude-sonnet-4-20250514" };
+        config.defaultModel = MODEL;
+        applyRuntimeConfig(config);
+        UPSTREAM_CONFIG.BACKEND = "replicate";
+        assertEquals(await readyz(), "disabled");
+    } finally {
+        UPSTREAM_CONFIG.BACKEND = "fake";
+        HEALTH_CONFIG.PROBE_TOKEN = "";
+        applyRuntimeConfig(getBuiltinRuntimeConfig());
+    }
+});
+
+test("限流：每个密钥单独计数，响应头显示剩余额度，用尽后返回 429 与 Retry-After", async () => {
+    const previous = { ...RATE_LIMIT_CONFIG };
+    RATE_LIMIT_CONFIG.REQUESTS_PER_MINUTE = 2;
+    RATE_LIMIT_CONFIG.TOKENS_PER_MINUTE = 1000;
+    const headers = { Authorization: "Bearer r8_rpm_key" };
+
+    try {
+        for (const remaining of ["1", "0"]) {
+            const response = await routeRequest(post("/v1/chat/completions", chatBody(), headers));
+            assertEquals(response.status, 200);
+            assertEquals(response.headers.get("x-ratelimit-limit-requests"), "2");
+            assertEquals(response.headers.get("x-ratelimit-remaining-requests"), remaining);
+            assertEquals(response.headers.get("x-ratelimit-limit-tokens"), "1000");
+            assert(response.headers.get("x-ratelimit-reset-requests"));
+            assert(response.headers.get("x-ratelimit-reset-tokens"));
+            await response.body?.cancel();
+        }
+
+        const limited = await routeRequest(post("/v1/chat/completions", chatBody(), headers));
+        assertEquals(limited.status, 429);
+        assert(Number(limited.headers.get("Retry-After")) >= 1);
+        assertEquals(limited.headers.get("x-ratelimit-remaining-requests"), "0");
+        const error = (await limited.json()).error;
+        assertEquals(error.type, "rate_limit_error");
+        assertEquals(error.code, "rate_limit_exceeded");
+        assertStringIncludes(error.message, "requests per minute");
+
+        // 其他密钥不受影响
+        const other = await routeRequest(post("/v1/chat/completions", chatBody(), { Authorization: "Bearer r8_rpm_other_key" }));
+        assertEquals(other.status, 200);
+        assertEquals(other.headers.get("x-ratelimit-remaining-requests"), "1");
+        await other.body?.cancel();
+
+        assertEquals(fake.callsOf("create").length, 3);
+    } finally {
+        Object.assign(RATE_LIMIT_CONFIG, previous);
+    }
+});
+
+test("限流：输出token计入每分钟token限额", async () => {
+    const previous = RATE_LIMIT_CONFIG.TOKENS_PER_MINUTE;
+    RATE_LIMIT_CONFIG.TOKENS_PER_MINUTE = 1000;
+    const headers = { Authorization: "Bearer r8_tpm_key" };
+
+    try {
+        fake.script({ chunks: ["long answer"], metrics: { input_token_count: 10, output_token_count: 995 } });
+        const response = await routeRequest(post("/v1/chat/completions", chatBody(), headers));
+        assertEquals(response.status, 200);
+        assertEquals((await response.json()).usage.completion_tokens, 995);
+
+        const limited = await routeRequest(post("/v1/chat/completions", chatBody(), headers));
+        assertEquals(limited.status, 429);
+        assert(Number(limited.headers.get("Retry-After")) >= 1);
+        assertStringIncludes((await limited.json()).error.message, "tokens per minute");
+        assertEquals(fake.callsOf("create").length, 1);
+    } finally {
+        RATE_LIMIT_CONFIG.TOKENS_PER_MINUTE = previous;
+    }
+});
+
+test("限流：预估的输入token超过每分钟限额时返回 400，而不是可重试的 429", async () => {
+    const previous = RATE_LIMIT_CONFIG.TOKENS_PER_MINUTE;
+    RATE_LIMIT_CONFIG.TOKENS_PER_MINUTE = 5;
+
+    try {
+        for (let attempt = 0; attempt < 2; attempt++) {
+            const response = await routeRequest(post("/v1/chat/completions", chatBody(), { Authorization: "Bearer r8_too_large_key" }));
+            assertEquals(response.status, 400);
+            assertEquals(response.headers.get("Retry-After"), null);
+            assertEquals(response.headers.get("x-ratelimit-limit-tokens"), "5");
+            const error = (await response.json()).error;
+            assertEquals(error.code, "request_too_large");
+            assertStringIncludes(error.message, "limit 5");
+        }
+        assertEquals(fake.callsOf("create").length, 0);
+    } finally {
+        RATE_LIMIT_CONFIG.TOKENS_PER_MINUTE = previous;
+    }
+});
+
+test("限流：图片无效时退还占用的额度", async () => {
+    const previous = RATE_LIMIT_CONFIG.REQUESTS_PER_MINUTE;
+    RATE_LIMIT_CONFIG.REQUESTS_PER_MINUTE = 1;
+    const headers = { Authorization: "Bearer r8_refund_key" };
+
+    try {
+        const invalid = await routeRequest(post("/v1/chat/completions", chatBody({
+            messages: [{
+                role: "user",
+                content: [
+                    { type: "text", text: "Describe" },
+                    { type: "image_url", image_url: { url: "data:image/png;base64,not-base64!" } }
+                ]
+            }]
+        }), headers));
+        assertEquals(invalid.status, 400);
+        assertEquals((await invalid.json()).error.code, "invalid_image");
+
+        const response = await routeRequest(post("/v1/chat/completions", chatBody(), headers));
+        assertEquals(response.status, 200);
+        assertEquals(response.headers.get("x-ratelimit-remaining-requests"), "0");
+        await response.body?.cancel();
+    } finally {
+        RATE_LIMIT_CONFIG.REQUESTS_PER_MINUTE = previous;
+    }
+});
+
+test("图片：超过模型可接受的图片数量时返回 400，不调用上游", async () => {
+    const twoImages = await routeRequest(post("/v1/chat/completions", chatBody({
+        messages: [imageMessage("https://example.com/a.png", "https://example.com/b.png")]
+    })));
+    assertEquals(twoImages.status, 400);
+    const error = (await twoImages.json()).error;
+    assertEquals(error.code, "too_many_images");
+    assertStringIncludes(error.message, "2");
+
+    // Claude 3.5 Haiku 不接受图片
+    const textOnly = await routeRequest(post("/v1/chat/completions", chatBody({
+        model: "anthropic/claude-3.5-haiku",
+        messages: [imageMessage("https://example.com/a.png")]
+    })));
+    assertEquals(textOnly.status, 400);
+    assertEquals((await textOnly.json()).error.code, "too_many_images");
+
+    assertEquals(fake.callsOf("create").length, 0);
+});
+
+test("图片：模型接受多张图片时按对话顺序全部传入", async () => {
+    const config = getBuiltinRuntimeConfig();
+    config.modelProfiles["anthropic/claude-4-sonnet"].vision = { field: "image_input", max_images: 3 };
+    applyRuntimeConfig(config);
+
+    try {
+        const response = await routeRequest(post("/v1/chat/completions", chatBody({
+            messages: [
+                imageMessage("https://example.com/a.png", "https://example.com/b.png"),
+                { role: "assistant", content: "Two images." },
+                imageMessage("https://example.com/c.png")
+            ]
+        })));
+        assertEquals(response.status, 200);
+        await response.body?.cancel();
+
+        const input = fake.callsOf("create")[0].input!;
+        assertEquals(input.image_input, ["https://example.com/a.png", "https://example.com/b.png", "https://example.com/c.png"]);
+        assertEquals(input.image, undefined);
+    } finally {
+        applyRuntimeConfig(getBuiltinRuntimeConfig());
+    }
+});
+
+test("图片：data URL 解码后存入本地文件托管，相同内容使用同一URL，按实际类型提供访问", async () => {
+    const previous = { ...FILE_STORE_CONFIG };
+    FILE_STORE_CONFIG.BACKEND = "local";
+    FILE_STORE_CONFIG.PUBLIC_BASE_URL = "http://proxy.test/";
+    const config = getBuiltinRuntimeConfig();
+    config.modelProfiles["anthropic/claude-4-sonnet"].vision = { field: "image_input", max_images: 3 };
+    applyRuntimeConfig(config);
+
+    try {
+        const response = await routeRequest(post("/v1/chat/completions", chatBody({
+            messages: [imageMessage(pngDataUrl(1, "image/jpeg"), pngDataUrl(1), pngDataUrl(2))]
+        })));
+        assertEquals(response.status, 200);
+        await response.body?.cancel();
+
+        const urls = fake.callsOf("create")[0].input!.image_input!;
+        assert(urls.every(url => url.startsWith("http://proxy.test/files/")));
+        assertEquals(urls[0], urls[1]);
+        assert(urls[0] !== urls[2]);
+
+        const file = await routeRequest(new Request(urls[0].replace("http://proxy.test", "http://localhost")));
+        assertEquals(file.status, 200);
+        assertEquals(file.headers.get("Content-Type"), "image/png");
+        assertEquals(new Uint8Array(await file.arrayBuffer()).at(-1), 1);
+    } finally {
+        Object.assign(FILE_STORE_CONFIG, previous);
+        applyRuntimeConfig(getBuiltinRuntimeConfig());
+    }
+});
+
+test("图片：data URL 通过 Replicate Files API 上传，相同图片在后续请求中复用上传结果", async () => {
+    const uploads: { authorization: string | null; type: string }[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async (input, init) => {
+        if (String(input) === "https://api.replicate.com/v1/files") {
+            const content = (init!.body as FormData).get("content") as File;
+            uploads.push({ authorization: new Headers(init!.headers).get("Authorization"), type: content.type });
+            return Response.json({ urls: { get: "https://files.example/cached.png" } });
+        }
+        return await originalFetch(input, init);
+    };
+
+    try {
+        for (let attempt = 0; attempt < 2; attempt++) {
+            const response = await routeRequest(post("/v1/chat/completions", chatBody({ messages: [imageMessage(pngDataUrl(3))] })));
+            assertEquals(response.status, 200);
+            await response.body?.cancel();
+        }
+
+        assertEquals(uploads, [{ authorization: `Bearer ${CLIENT_KEY}`, type: "image/png" }]);
+        assertEquals(fake.callsOf("create").map(call => call.input!.image), ["https://files.example/cached.png", "https://files.example/cached.png"]);
+    } finally {
+        globalThis.fetch = originalFetch;
+    }
+});
+
+test("图片：data URL 的类型不受支持、内容不是图片或超过大小限制时返回 400 invalid_image", async () => {
+    const previous = FILE_STORE_CONFIG.MAX_IMAGE_BYTES;
+    FILE_STORE_CONFIG.MAX_IMAGE_BYTES = 8;
+
+    try {
+        const cases: [string, string][] = [
+            [`data:image/svg+xml;base64,${btoa("<svg/>")}`, "Unsupported image type 'image/svg+xml'"],
+            [`data:image/png;base64,${btoa("text")}`, "does not match a supported image format"],
+            [pngDataUrl(4), "maximum size"]
+        ];
+        for (const [url, message] of cases) {
+            const response = await routeRequest(post("/v1/chat/completions", chatBody({ messages: [imageMessage(url)] })));
+            assertEquals(response.status, 400);
+            const error = (await response.json()).error;
+            assertEquals(error.code, "invalid_image");
+            assertStringIncludes(error.message, message);
+        }
+        assertEquals(fake.callsOf("create").length, 0);
+    } finally {
+        FILE_STORE_CONFIG.MAX_IMAGE_BYTES = previous;
+    }
+});
+
+test("错误：请求体不是有效的JSON时返回 400", async () => {
+    const response = await routeRequest(post("/v1/chat/completions", "{not json"));
+    assertEquals(response.status, 400);
+    assertEquals((await response.json()).error.code, "invalid_json");
+});
+
+test("错误：未知模型返回 model_not_found", async () => {
+    const response = await routeRequest(post("/v1/chat/completions", chatBody({ model: "no-such-model" })));
+    assertEquals(response.status, 400);
+    assertEquals((await response.json()).error.code, "model_not_found");
+    assertEquals(fake.calls.length, 0);
+});
+
+test("错误：上游 429 时重试，成功后响应头反映尝试次数", async () => {
+    fake.script({ createStatus: 429, retryAfterSeconds: 0 }, { chunks: ["ok"] });
+
+    const response = await routeRequest(post("/v1/chat/completions", chatBody()));
+    assertEquals(response.status, 200);
+    assertEquals(response.headers.get("X-Upstream-Attempts"), "2");
+    assertEquals((await response.json()).choices[0].message.content, "ok");
+    assertEquals(fake.callsOf("create").length, 2);
+});
+
+test("错误：上游 401 不重试，返回 invalid_api_key", async () => {
+    fake.setDefault({ createStatus: 401 });
+
+    const response = await routeRequest(post("/v1/chat/completions", chatBody()));
+    assertEquals(response.status, 401);
+    assertEquals((await response.json()).error.code, "invalid_api_key");
+    assertEquals(fake.callsOf("create").length, 1);
+});
+
+test("错误：上游持续 503 时用尽重试次数后返回错误", async () => {
+    fake.setDefault({ createStatus: 503, retryAfterSeconds: 0 });
+
+    const response = await routeRequest(post("/v1/chat/completions", chatBody()));
+    assertEquals(response.status, 503);
+    await response.body?.cancel();
+    assertEquals(fake.callsOf("create").length, RETRY_CONFIG.MAX_ATTEMPTS);
+});
+
+test("错误：非流式预测执行失败时返回 500", async () => {
+    fake.script({ status: "failed", error: "model crashed" });
+
+    const response = await routeRequest(post("/v1/chat/completions", chatBody()));
+    assertEquals(response.status, 500);
+    assertStringIncludes((await response.json()).error.message, "model crashed");
+});
+
+test("错误：流式输出中途出错时发送错误块", async () => {
+    fake.script({ chunks: ["partial"], streamError: "model crashed" });
+
+    const response = await routeRequest(post("/v1/chat/completions", chatBody({ stream: true })));
+    assertEquals(response.status, 200);
+
+    const data = await readSSEData(response);
+    assertEquals(JSON.parse(data[1]).choices[0].delta.content, "partial");
+    const errorChunk = JSON.parse(data[data.length - 1]);
+    assertStringIncludes(errorChunk.error.message, "model crashed");
+});
+
+test("超时：首个token超时后返回 408 并取消上游预测", async () => {
+    const previous = TIMEOUT_CONFIG.FIRST_TOKEN_TIMEOUT;
+    TIMEOUT_CONFIG.FIRST_TOKEN_TIMEOUT = 50;
+    fake.script({ chunks: ["late"], chunkDelayMs: 1000 });
+
+    try {
+        const response = await routeRequest(post("/v1/chat/completions", chatBody({ stream: true })));
+        assertEquals(response.status, 408);
+        assertEquals((await response.json()).error.code, "first_token_timeout");
+        assertEquals(fake.callsOf("cancel").length, 1);
+    } finally {
+        TIMEOUT_CONFIG.FIRST_TOKEN_TIMEOUT = previous;
+    }
+});
+
+test("超时：请求的模型在输出之前超时时改用备用模型", async () => {
+    const previous = { firstToken: TIMEOUT_CONFIG.FIRST_TOKEN_TIMEOUT, total: TIMEOUT_CONFIG.REQUEST_TIMEOUT };
+    const config = getBuiltinRuntimeConfig();
+    config.fallbackChains[MODEL] = ["claude-3-7-sonnet-20250219"];
+    applyRuntimeConfig(config);
+
+    try {
+        // 流式：首个token超时
+        TIMEOUT_CONFIG.FIRST_TOKEN_TIMEOUT = 50;
+        fake.script({ chunks: ["late"], chunkDelayMs: 1000 }, { chunks: ["fast"] });
+        const streamed = await routeRequest(post("/v1/chat/completions", chatBody({ stream: true })));
+        assertEquals(streamed.status, 200);
+        assertEquals(streamed.headers.get("X-Answering-Model"), "claude-3-7-sonnet-20250219");
+        assertEquals(joinDeltas(await readSSEData(streamed)), "fast");
+        assertEquals(fake.callsOf("create").map(call => call.model), ["anthropic/claude-4-sonnet", "anthropic/claude-3.7-sonnet"]);
+        assertEquals(fake.callsOf("cancel").length, 1);
+    } finally {
+        TIMEOUT_CONFIG.FIRST_TOKEN_TIMEOUT = previous.firstToken;
+        TIMEOUT_CONFIG.REQUEST_TIMEOUT = previous.total;
+        applyRuntimeConfig(getBuiltinRuntimeConfig());
+    }
+});
+
+test("超时：总时长按整个请求计时，改用备用模型后不重新开始", async () => {
+    const previous = { firstToken: TIMEOUT_CONFIG.FIRST_TOKEN_TIMEOUT, total: TIMEOUT_CONFIG.REQUEST_TIMEOUT };
+    const config = getBuiltinRuntimeConfig();
+    config.fallbackChains[MODEL] = ["claude-3-7-sonnet-20250219"];
+    applyRuntimeConfig(config);
+
+    try {
+        // 流式：请求的模型首个token超时后改用备用模型，备用模型在剩余的总时长内没有输出
+        TIMEOUT_CONFIG.FIRST_TOKEN_TIMEOUT = 80;
+        TIMEOUT_CONFIG.REQUEST_TIMEOUT = 120;
+        fake.script({ chunks: ["late"], chunkDelayMs: 1000 }, { chunks: ["late"], chunkDelayMs: 1000 });
+        const streamed = await routeRequest(post("/v1/chat/completions", chatBody({ stream: true })));
+        assertEquals(streamed.status, 408);
+        assertEquals((await streamed.json()).error.code, "request_timeout");
+        assertEquals(fake.callsOf("create").length, 2);
+
+        // 非流式：总时长超时后不再改用备用模型
+        fake.reset();
+        TIMEOUT_CONFIG.REQUEST_TIMEOUT = 50;
+        fake.script({ chunks: ["late"], chunkDelayMs: 1000 }, { chunks: ["fast"] });
+        const response = await routeRequest(post("/v1/chat/completions", chatBody()));
+        assertEquals(response.status, 408);
+        assertEquals((await response.json()).error.code, "request_timeout");
+        assertEquals(fake.callsOf("create").length, 1);
+        assertEquals(fake.callsOf("cancel").length, 1);
+    } finally {
+        TIMEOUT_CONFIG.FIRST_TOKEN_TIMEOUT = previous.firstToken;
+        TIMEOUT_CONFIG.REQUEST_TIMEOUT = previous.total;
+        applyRuntimeConfig(getBuiltinRuntimeConfig());
+    }
+});
+
+test("客户端断开：取消流式响应时取消正在输出的上游预测", async () => {
+    fake.script({ chunks: ["one", "two", "three", "four", "five"], chunkDelayMs: 20 });
+
+    const response = await routeRequest(post("/v1/chat/completions", chatBody({ stream: true })));
+    assertEquals(response.status, 200);
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    await waitFor(() => fake.callsOf("cancel").length === 1);
+    assertEquals(fake.callsOf("cancel")[0].predictionId, fake.callsOf("stream")[0].predictionId);
+});
+
+test("客户端断开：请求的中止信号触发时取消非流式请求的上游预测", async () => {
+    fake.script({ chunks: ["slow"], chunkDelayMs: 1000 });
+    const controller = new AbortController();
+    const request = new Request(post("/v1/messages", {
+        model: MODEL,
+        max_tokens: 1024,
+        messages: [{ role: "user", content: "Say hello" }]
+    }), { signal: controller.signal });
+
+    const pending = routeRequest(request);
+    await waitFor(() => fake.callsOf("create").length === 1);
+    controller.abort();
+    const response = await pending;
+    await response.body?.cancel();
+
+    assertEquals(fake.callsOf("cancel").length, 1);
+    assert(fake.callsOf("cancel")[0].predictionId);
+});
+
+test("指标：记录token用量、上游错误、首个token耗时与进行中的流式响应", async () => {
+    const route = "/v1/chat/completions";
+    const series = {
+        prompt: `replicate_proxy_tokens_total{model="${MODEL}",type="prompt"}`,
+        completion: `replicate_proxy_tokens_total{model="${MODEL}",type="completion"}`,
+        errors: 'replicate_proxy_upstream_errors_total{code="api_error"}',
+        firstToken: `replicate_proxy_time_to_first_token_seconds_count{route="${route}",model="${MODEL}"}`,
+        streams: `replicate_proxy_active_streams{route="${route}"}`
+    };
+    const before = {
+        prompt: await readMetric(series.prompt),
+        completion: await readMetric(series.completion),
+        errors: await readMetric(series.errors),
+        firstToken: await readMetric(series.firstToken)
+    };
+
+    const metricsResponse = await routeRequest(new Request("http://localhost/metrics"));
+    assertStringIncludes(metricsResponse.headers.get("Content-Type")!, "text/plain");
+    assertStringIncludes(await metricsResponse.text(), "# TYPE replicate_proxy_requests_total counter");
+
+    fake.script({ chunks: ["a", "b"], metrics: { input_token_count: 12, output_token_count: 5 } });
+    await (await routeRequest(post(route, chatBody()))).json();
+    assertEquals(await readMetric(series.prompt), before.prompt + 12);
+    assertEquals(await readMetric(series.completion), before.completion + 5);
+
+    fake.script({ createStatus: 401 });
+    await (await routeRequest(post(route, chatBody()))).body?.cancel();
+    assertEquals(await readMetric(series.errors), before.errors + 1);
+
+    fake.script({ chunks: ["a", "b", "c"], chunkDelayMs: 20 });
+    const stream = await routeRequest(post(route, chatBody({ stream: true })));
+    assertEquals(await readMetric(series.streams), 1);
+    await readText(stream);
+    assertEquals(await readMetric(series.streams), 0);
+    assertEquals(await readMetric(series.firstToken), before.firstToken + 1);
+});
+
+test("指标：请求按路由、模型与状态计数并记录耗时", async () => {
+    await withProxyProcess({}, async baseUrl => {
+        const send = async (model: string) => {
+            const response = await fetch(`${baseUrl}/v1/chat/completions`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json", Authorization: `Bearer ${CLIENT_KEY}` },
+                body: JSON.stringify(chatBody({ model }))
+            });
+            await response.body?.cancel();
+            return response.status;
+        };
+        assertEquals(await send(MODEL), 200);
+        assertEquals(await send(MODEL), 200);
+        assertEquals(await send("unknown-model"), 400);
+
+        const text = await (await fetch(`${baseUrl}/metrics`)).text();
+        const route = "/v1/chat/completions";
+        assertEquals(parseMetric(text, `replicate_proxy_requests_total{route="${route}",model="${MODEL}",status="200"}`), 2);
+        assertEquals(parseMetric(text, `replicate_proxy_requests_total{route="${route}",model="",status="400"}`), 1);
+        assertEquals(parseMetric(text, `replicate_proxy_request_duration_seconds_count{route="${route}",model="${MODEL}"}`), 2);
+    });
+});
+
+test("优雅关闭：收到 SIGTERM 后停止接受新连接，等待进行中的流式响应完成再退出", async () => {
+    await withSlowStreamProxy(8, 100, { SHUTDOWN_DRAIN_TIMEOUT_MS: "10000" }, async (baseUrl, child) => {
+        const { reader, received } = await openChatStream(baseUrl);
+        child.kill("SIGTERM");
+        await waitFor(async () => !(await isAcceptingConnections(baseUrl)), 5000);
+
+        const text = received + await readRest(reader);
+        const data = text.split("\n").filter(line => line.startsWith("data: ")).map(line => line.substring(6));
+        assertEquals(joinDeltas(data), "x".repeat(8));
+        assertEquals(data.at(-1), "[DONE]");
+        assert(!text.includes("server_shutting_down"));
+        assertEquals((await child.status).code, 0);
+    });
+});
+
+test("优雅关闭：超过排空时间后发送错误事件与 [DONE] 终止剩余的流式响应", async () => {
+    await withSlowStreamProxy(100, 100, { SHUTDOWN_DRAIN_TIMEOUT_MS: "300" }, async (baseUrl, child) => {
+        const { reader, received } = await openChatStream(baseUrl);
+        child.kill("SIGTERM");
+
+        const text = received + await readRest(reader);
+        const data = text.split("\n").filter(line => line.startsWith("data: ")).map(line => line.substring(6));
+        assert(joinDeltas(data.slice(0, -2)).length < 100);
+        assertEquals(JSON.parse(data.at(-2)!).error.code, "server_shutting_down");
+        assertEquals(data.at(-1), "[DONE]");
+        assertEquals((await child.status).code, 0);
+    });
+});
+
+test("提供方 Anthropic：转换请求，非流式与流式返回内容和用量", async () => {
+    await withProviderStub(({ body }) => body.stream
+        ? sseResponse([
+            'event: message_start\ndata: {"type":"message_start","message":{"usage":{"input_tokens":7,"output_tokens":1}}}\n\n',
+            'event: ping\ndata: {"type":"ping"}\n\n',
+            'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hi"}}\n\n',
+            'event: content_block_delta\r\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":" there"}}\r\n\r\n',
+            'event: message_delta\ndata: {"type":"message_delta","usage":{"output_tokens":4}}\n\n',
+            'event: message_stop\ndata: {"type":"message_stop"}\n\n'
+        ])
+        : Response.json({ content: [{ type: "text", text: "Direct answer" }], usage: { input_tokens: 5, output_tokens: 2 } }),
+    async requests => {
+        const messages = [
+            { role: "system", content: "Be brief" },
+            {
+                role: "user",
+                content: [
+                    { type: "text", text: "Describe" },
+                    { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } }
+                ]
+            }
+        ];
+        const response = await routeRequest(post("/v1/chat/completions", chatBody({ model: "claude-direct", messages, temperature: 0.3 })));
+        assertEquals(response.status, 200);
+        const completion = await response.json();
+        assertEquals(completion.choices[0].message.content, "Direct answer");
+        assertEquals(completion.usage.prompt_tokens, 5);
+        assertEquals(completion.usage.completion_tokens, 2);
+
+        const [request] = requests;
+        assertEquals(request.path, "/v1/messages");
+        assertEquals(request.headers.get("x-api-key"), ANTHROPIC_KEY);
+        assertEquals(request.headers.get("anthropic-version"), "2023-06-01");
+        assertEquals(request.body.model, "claude-sonnet-4-20250514");
+        assertEquals(request.body.system, "Be brief");
+        assertEquals(request.body.temperature, 0.3);
+        assertEquals(request.body.stream, undefined);
+        const [message] = request.body.messages as { role: string; content: Record<string, unknown>[] }[];
+        assertEquals(message.role, "user");
+        assertEquals(message.content[0], { type: "image", source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo=" } });
+        assertEquals(message.content[1].type, "text");
+        assertStringIncludes(message.content[1].text as string, "Describe");
+
+        const streamResponse = await routeRequest(post("/v1/chat/completions", chatBody({
+            model: "claude-direct",
+            stream: true,
+            stream_options: { include_usage: true }
+        })));
+        assertEquals(streamResponse.status, 200);
+        const data = await readSSEData(streamResponse);
+        assertEquals(data[data.length - 1], "[DONE]");
+        assertEquals(joinDeltas(data), "Hi there");
+        const usage = JSON.parse(data[data.length - 2]).usage;
+        assertEquals(usage.prompt_tokens, 7);
+        assertEquals(usage.completion_tokens, 4);
+        assertEquals(requests[1].body.stream, true);
+    });
+});
+
+test("提供方 OpenAI 兼容：转换请求，非流式与流式返回内容和用量", async () => {
+    await withProviderStub(({ body }) => body.stream
+        ? sseResponse([
+            'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+            ': keep-alive\n\n',
+            'data: {"choices":[{"delta":{"content":"Lo"}}]}\n\n',
+            'data: {"choices":[{"delta":{"content":"cal"}}]}\n\n',
+            'data: {"choices":[],"usage":{"prompt_tokens":3,"completion_tokens":2}}\n\n',
+            "data: [DONE]\n\n"
+        ])
+        : Response.json({ choices: [{ message: { content: "Local answer" } }], usage: { prompt_tokens: 4, completion_tokens: 2 } }),
+    async requests => {
+        const messages = [{ role: "system", content: "Be brief" }, { role: "user", content: "Hello" }];
+        const response = await routeRequest(post("/v1/chat/completions", chatBody({ model: "llama", messages, seed: 3 })));
+        assertEquals(response.status, 200);
+        const completion = await response.json();
+        assertEquals(completion.choices[0].message.content, "Local answer");
+        assertEquals(completion.usage.prompt_tokens, 4);
+        assertEquals(completion.usage.completion_tokens, 2);
+
+        const [request] = requests;
+        assertEquals(request.path, "/v1/chat/completions");
+        assertEquals(request.headers.get("authorization"), `Bearer ${LOCAL_KEY}`);
+        assertEquals(request.body.model, "llama3");
+        assertEquals(request.body.seed, 3);
+        const sent = request.body.messages as { role: string; content: string }[];
+        assertEquals(sent[0], { role: "system", content: "Be brief" });
+        assertEquals(sent[1].role, "user");
+        assertStringIncludes(sent[1].content, "Hello");
+
+        const streamResponse = await routeRequest(post("/v1/chat/completions", chatBody({
+            model: "llama",
+            stream: true,
+            stream_options: { include_usage: true }
+        })));
+        assertEquals(streamResponse.status, 200);
+        const data = await readSSEData(streamResponse);
+        assertEquals(joinDeltas(data), "Local");
+        const usage = JSON.parse(data[data.length - 2]).usage;
+        assertEquals(usage.prompt_tokens, 3);
+        assertEquals(usage.completion_tokens, 2);
+        assertEquals(requests[1].body.stream_options, { include_usage: true });
+    });
+});
+
+test("提供方：529 按 503 重试，400 返回 invalid_request_error，流式错误事件转换为错误块", async () => {
+    // 依次返回的错误响应，用完后正常响应
+    const failures: Response[] = [];
+    await withProviderStub(({ body }) => {
+        const failure = failures.shift();
+        if (failure) {
+            return failure;
+        }
+        if (body.stream) {
+            return sseResponse([
+                'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"partial"}}\n\n',
+                'event: error\ndata: {"type":"error","error":{"type":"api_error","message":"stream broke"}}\n\n'
+            ]);
+        }
+        return Response.json({ content: [{ type: "text", text: "ok" }], usage: { input_tokens: 1, output_tokens: 1 } });
+    }, async requests => {
+        failures.push(Response.json({ type: "error", error: { type: "overloaded_error", message: "Overloaded" } }, { status: 529 }));
+        const response = await routeRequest(post("/v1/chat/completions", chatBody({ model: "claude-direct" })));
+        assertEquals(response.status, 200);
+        assertEquals(response.headers.get("X-Upstream-Attempts"), "2");
+        assertEquals((await response.json()).choices[0].message.content, "ok");
+        assertEquals(requests.length, 2);
+
+        failures.push(Response.json({ type: "error", error: { type: "invalid_request_error", message: "bad model" } }, { status: 400 }));
+        const badResponse = await routeRequest(post("/v1/chat/completions", chatBody({ model: "claude-direct" })));
+        assertEquals(badResponse.status, 400);
+        const error = (await badResponse.json()).error;
+        assertEquals(error.type, "invalid_request_error");
+        assertStringIncludes(error.message, "bad model");
+        assertEquals(requests.length, 3);
+
+        const streamResponse = await routeRequest(post("/v1/chat/completions", chatBody({ model: "claude-direct", stream: true })));
+        assertEquals(streamResponse.status, 200);
+        const data = await readSSEData(streamResponse);
+        assertEquals(JSON.parse(data[1]).choices[0].delta.content, "partial");
+        assertStringIncludes(JSON.parse(data[data.length - 1]).error.message, "stream broke");
+    });
+});
+
+test("提供方：直通模式下未配置提供方的密钥时拒绝请求，不转发客户端的密钥", async () => {
+    await withProviderStub(() => Response.json({}), async requests => {
+        Deno.env.delete("ANTHROPIC_API_KEY");
+        const response = await routeRequest(post("/v1/chat/completions", chatBody({ model: "claude-direct" })));
+        assertEquals(response.status, 500);
+        assertStringIncludes((await response.json()).error.message, "No API key is configured for provider 'anthropic'");
+        assertEquals(requests.length, 0);
+    });
+});
+
+test("模型映射：固定版本与部署按各自的方式创建预测，/v1/models 显示解析结果", async () => {
+    const config = getBuiltinRuntimeConfig();
+    config.modelMapping["claude-pinned"] = "anthropic/claude-4-sonnet:abc123";
+    config.modelMapping["claude-deployed"] = "deployments/acme/claude-sonnet";
+    applyRuntimeConfig(config);
+
+    try {
+        for (const model of ["claude-pinned", "claude-deployed"]) {
+            const response = await routeRequest(post("/v1/chat/completions", chatBody({ model })));
+            assertEquals(response.status, 200);
+            await response.body?.cancel();
+        }
+        const [pinned, deployed] = fake.callsOf("create");
+        assertEquals(pinned.version, "abc123");
+        assertEquals(pinned.model, undefined);
+        assertEquals(deployed.deployment, "acme/claude-sonnet");
+        assertEquals(deployed.model, undefined);
+
+        const models = await (await routeRequest(new Request("http://localhost/v1/models"))).json();
+        const upstreamOf = (id: string) => models.data.find((model: { id: string }) => model.id === id).upstream;
+        assertEquals(upstreamOf("claude-pinned").version, "abc123");
+        assertEquals(upstreamOf("claude-deployed").deployment, "acme/claude-sonnet");
+    } finally {
+        applyRuntimeConfig(getBuiltinRuntimeConfig());
+    }
+});
+
+test("模型发现：合并发现的模型，可以直接请求和单独查询，刷新失败时保留缓存", async () => {
+    fake.setModels([
+        { owner: "anthropic", name: "claude-4-sonnet", latest_version: { id: "v1" } },
+        { owner: "anthropic", name: "claude-4.5-haiku", latest_version: { id: "v2", created_at: "2025-10-01T00:00:00Z" } },
+        { owner: "meta", name: "llama-3-70b" }
+    ]);
+
+    try {
+        assertEquals((await getModelDiscovery().refresh()).models, 2);
+
+        // 已被模型映射指向的模型和其他所有者的模型不列出
+        const list = await (await routeRequest(new Request("http://localhost/v1/models"))).json();
+        const ids = list.data.map((model: { id: string }) => model.id);
+        assert(ids.includes("anthropic/claude-4.5-haiku"));
+        assert(!ids.includes("anthropic/claude-4-sonnet"));
+        assert(!ids.includes("meta/llama-3-70b"));
+
+        const response = await routeRequest(post("/v1/chat/completions", chatBody({ model: "anthropic/claude-4.5-haiku" })));
+        assertEquals(response.status, 200);
+        await response.body?.cancel();
+        assertEquals(fake.callsOf("create")[0].model, "anthropic/claude-4.5-haiku");
+
+        const discovered = await routeRequest(new Request("http://localhost/v1/models/anthropic/claude-4.5-haiku"));
+        assertEquals(discovered.status, 200);
+        const model = await discovered.json();
+        assertEquals(model.owned_by, "anthropic");
+        assertEquals(model.created, Date.parse("2025-10-01T00:00:00Z") / 1000);
+
+        const configured = await routeRequest(new Request(`http://localhost/v1/models/${MODEL}`));
+        assertEquals((await configured.json()).upstream.target, "anthropic/claude-4-sonnet");
+
+        const missing = await routeRequest(new Request("http://localhost/v1/models/no-such-model"));
+        assertEquals(missing.status, 404);
+        assertEquals((await missing.json()).error.code, "model_not_found");
+
+        const malformed = await routeRequest(new Request("http://localhost/v1/models/%E0%A4%A"));
+        assertEquals(malformed.status, 404);
+        assertEquals((await malformed.json()).error.code, "model_not_found");
+
+        fake.setModels([], 503);
+        const status = await getModelDiscovery().refresh();
+        assertEquals(status.status, "error");
+        assertEquals(status.models, 2);
+        const retained = await routeRequest(new Request("http://localhost/v1/models/anthropic/claude-4.5-haiku"));
+        assertEquals(retained.status, 200);
+        await retained.body?.cancel();
+    } finally {
+        setDiscoveredModels([]);
+    }
+});
+
+test("上游密钥池：轮换密钥，401/429 的密钥冷却并换用其他密钥，管理接口只显示指纹", async () => {
+    const keyStorePath = await Deno.makeTempFile({ suffix: ".json" });
+    await Deno.writeTextFile(keyStorePath, "[]");
+    const previous = { ...AUTH_CONFIG };
+    Object.assign(AUTH_CONFIG, { MODE: "virtual", KEY_STORE_PATH: keyStorePath, ADMIN_TOKEN: "admin-secret" });
+    Deno.env.set("REPLICATE_API_TOKENS", JSON.stringify({ pool: ["r8_pool_a", "r8_pool_b", "r8_pool_c"] }));
+    const admin = { Authorization: "Bearer admin-secret" };
+
+    try {
+        const created = await routeRequest(post("/admin/keys", { name: "pool", upstream_token: "pool" }, admin));
+        const { key } = await created.json();
+        const auth = { Authorization: `Bearer ${key}` };
+
+        // 第一个密钥返回 429，重试换用下一个密钥
+        fake.script({ createStatus: 429, retryAfterSeconds: 0 }, { chunks: ["ok"] });
+        const limited = await routeRequest(post("/v1/chat/completions", chatBody(), auth));
+        assertEquals(limited.status, 200);
+        await limited.body?.cancel();
+
+        // 第三个密钥返回 401，换用未冷却的第二个密钥
+        fake.script({ createStatus: 401 }, { chunks: ["ok"] });
+        const unauthorized = await routeRequest(post("/v1/chat/completions", chatBody(), auth));
+        assertEquals(unauthorized.status, 200);
+        await unauthorized.body?.cancel();
+
+        assertEquals(fake.callsOf("create").map(call => call.apiKey), ["r8_pool_a", "r8_pool_b", "r8_pool_c", "r8_pool_b"]);
+
+        const status = await routeRequest(new Request("http://localhost/admin/upstream-keys", { headers: admin }));
+        assertEquals(status.status, 200);
+        const text = await status.text();
+        assert(!text.includes("r8_pool"));
+        const pool = JSON.parse(text).data.find((entry: { name: string }) => entry.name === "pool");
+        assertEquals(pool.keys.map((entry: { status: string }) => entry.status), ["cooling_down", "available", "cooling_down"]);
+        assertEquals(pool.keys.map((entry: { last_error_status: number | null }) => entry.last_error_status), [429, null, 401]);
+        assertEquals(pool.keys.map((entry: { in_flight: number }) => entry.in_flight), [0, 0, 0]);
+    } finally {
+        Object.assign(AUTH_CONFIG, previous);
+        Deno.env.delete("REPLICATE_API_TOKENS");
+        await Deno.remove(keyStorePath);
+    }
+});
+
+test("上游密钥池：读取流式输出返回 401/429 时同样冷却密钥并换用其他密钥", async () => {
+    const keyStorePath = await Deno.makeTempFile({ suffix: ".json" });
+    await Deno.writeTextFile(keyStorePath, "[]");
+    const previous = { ...AUTH_CONFIG };
+    Object.assign(AUTH_CONFIG, { MODE: "virtual", KEY_STORE_PATH: keyStorePath, ADMIN_TOKEN: "admin-secret" });
+    Deno.env.set("REPLICATE_API_TOKENS", JSON.stringify({ streaming: ["r8_stream_a", "r8_stream_b", "r8_stream_c"] }));
+    const admin = { Authorization: "Bearer admin-secret" };
+
+    try {
+        const created = await routeRequest(post("/admin/keys", { name: "streaming", upstream_token: "streaming" }, admin));
+        const { key } = await created.json();
+        const auth = { Authorization: `Bearer ${key}` };
+
+        // 第一个密钥的流式输出返回 429，重试换用下一个密钥
+        fake.script({ streamStatus: 429, retryAfterSeconds: 0 }, { chunks: ["ok"] });
+        const limited = await routeRequest(post("/v1/chat/completions", chatBody({ stream: true }), auth));
+        assertEquals(joinDeltas(await readSSEData(limited)), "ok");
+
+        // 第三个密钥的流式输出返回 401，换用未冷却的第二个密钥
+        fake.script({ streamStatus: 401 }, { chunks: ["ok"] });
+        const unauthorized = await routeRequest(post("/v1/chat/completions", chatBody({ stream: true }), auth));
+        assertEquals(joinDeltas(await readSSEData(unauthorized)), "ok");
+
+        assertEquals(fake.callsOf("create").map(call => call.apiKey), ["r8_stream_a", "r8_stream_b", "r8_stream_c", "r8_stream_b"]);
+
+        const status = await routeRequest(new Request("http://localhost/admin/upstream-keys", { headers: admin }));
+        const pool = (await status.json()).data.find((entry: { name: string }) => entry.name === "streaming");
+        assertEquals(pool.keys.map((entry: { status: string }) => entry.status), ["cooling_down", "available", "cooling_down"]);
+        assertEquals(pool.keys.map((entry: { last_error_status: number | null }) => entry.last_error_status), [429, null, 401]);
+    } finally {
+        Object.assign(AUTH_CONFIG, previous);
+        Deno.env.delete("REPLICATE_API_TOKENS");
+        await Deno.remove(keyStorePath);
+    }
+});
+
+test("上游密钥池：上传图片使用借出的密钥，预测固定使用同一个密钥", async () => {
+    const keyStorePath = await Deno.makeTempFile({ suffix: ".json" });
+    await Deno.writeTextFile(keyStorePath, "[]");
+    const previous = { ...AUTH_CONFIG };
+    Object.assign(AUTH_CONFIG, { MODE: "virtual", KEY_STORE_PATH: keyStorePath, ADMIN_TOKEN: "admin-secret" });
+    Deno.env.set("REPLICATE_API_TOKENS", JSON.stringify({ images: ["r8_image_a", "r8_image_b", "r8_image_c"] }));
+    // 拦截 Replicate Files API 的上传请求
+    const uploads: string[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+        if (String(input) === "https://api.replicate.com/v1/files") {
+            uploads.push(new Headers(init?.headers).get("Authorization")!);
+            return Promise.resolve(Response.json({ urls: { get: "https://files.example/image.png" } }));
+        }
+        return originalFetch(input, init);
+    };
+
+    try {
+        const created = await routeRequest(post("/admin/keys", { name: "images", upstream_token: "images" }, { Authorization: "Bearer admin-secret" }));
+        const auth = { Authorization: `Bearer ${(await created.json()).key}` };
+
+        // 第一个密钥返回 401 后冷却
+        fake.script({ createStatus: 401 }, { chunks: ["ok"] });
+        await (await routeRequest(post("/v1/chat/completions", chatBody(), auth))).body?.cancel();
+
+        // 上传使用未冷却的密钥；预测返回 429 时重试仍使用上传图片的密钥
+        fake.script({ createStatus: 429, retryAfterSeconds: 0 }, { chunks: ["ok"] });
+        const response = await routeRequest(post("/v1/chat/completions", chatBody({
+            messages: [{
+                role: "user",
+                content: [
+                    { type: "text", text: "Describe" },
+                    { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } }
+                ]
+            }]
+        }), auth));
+        assertEquals(response.status, 200);
+        await response.body?.cancel();
+
+        assertEquals(uploads, ["Bearer r8_image_c"]);
+        assertEquals(fake.callsOf("create").map(call => call.apiKey), ["r8_image_a", "r8_image_b", "r8_image_c", "r8_image_c"]);
+        assertEquals(fake.callsOf("create")[3].input!.image, "https://files.example/image.png");
+    } finally {
+        globalThis.fetch = originalFetch;
+        Object.assign(AUTH_CONFIG, previous);
+        Deno.env.delete("REPLICATE_API_TOKENS");
+        await Deno.remove(keyStorePath);
+    }
+});
+
+test("日志：请求的日志事件带请求ID与事件名称，不包含消息内容", async () => {
+    const secret = "secret-user-content-1234";
+    const entries = await captureLogs(async () => {
+        const response = await routeRequest(post("/v1/chat/completions", chatBody({
+            messages: [{ role: "system", content: secret }, { role: "user", content: secret }]
+        }), { Authorization: `Bearer ${CLIENT_KEY}`, "X-Request-Id": "log-test-request" }));
+        await response.json();
+    });
+
+    const requestEntries = entries.filter(entry => entry.request_id === "log-test-request");
+    assert(requestEntries.length > 0);
+    const events = requestEntries.map(entry => entry.event);
+    for (const event of ["request.metadata", "message.processing", "upstream.call_start", "usage", "response.complete"]) {
+        assert(events.includes(event), `missing ${event}`);
+    }
+    assert(requestEntries.every(entry => !entry.message.startsWith("log-test-request")));
+    assert(entries.every(entry => entry.level !== "debug"));
+    assert(!JSON.stringify(entries).includes(secret));
+});
+
+test("日志：文件输出超过大小限制时轮转，只保留配置数量的历史文件", async () => {
+    const directory = await Deno.makeTempDir();
+    const path = `${directory}/logs/proxy.log`;
+
+    try {
+        const sink = new RotatingFileSink(path, 200, 2);
+        for (let index = 0; index < 10; index++) {
+            sink.write({ timestamp: new Date().toISOString(), level: "info", event: "system", message: `entry ${index}` });
+        }
+
+        const readEntries = async (file: string) =>
+            (await Deno.readTextFile(file)).trim().split("\n").map(line => JSON.parse(line) as LogEntry);
+        const current = await readEntries(path);
+        assertEquals(current.at(-1)!.message, "entry 9");
+        assert((await Deno.stat(path)).size <= 200);
+        assert((await readEntries(`${path}.1`)).length > 0);
+        assert((await readEntries(`${path}.2`)).length > 0);
+        await assertRejects(() => Deno.stat(`${path}.3`), Deno.errors.NotFound);
+    } finally {
+        await Deno.remove(directory, { recursive: true });
+    }
+});
+
+test("日志：HTTP输出按批发送，收集器不可用时保留日志等待下次发送", async () => {
+    const batches: LogEntry[][] = [];
+    let failNext = false;
+    const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, async request => {
+        const batch = await request.json();
+        if (failNext) {
+            failNext = false;
+            return new Response("unavailable", { status: 503 });
+        }
+        batches.push(batch);
+        return new Response(null, { status: 204 });
+    });
+    const originalConsoleError = console.error;
+    console.error = () => {};
+
+    try {
+        const sink = new HttpSink(`http://127.0.0.1:${server.addr.port}/logs`, 2, 60000, 100);
+        const entry = (message: string): LogEntry => ({ timestamp: new Date().toISOString(), level: "info", event: "system", message });
+
+        sink.write(entry("a"));
+        sink.write(entry("b"));
+        sink.write(entry("c"));
+        await sink.flush();
+        assertEquals(batches.map(batch => batch.map(item => item.message)), [["a", "b"], ["c"]]);
+
+        failNext = true;
+        sink.write(entry("d"));
+        await sink.flush();
+        assertEquals(batches.length, 2);
+        await sink.flush();
+        assertEquals(batches.at(-1)!.map(item => item.message), ["d"]);
+    } finally {
+        console.error = originalConsoleError;
+        await server.shutdown();
+    }
+});
+
+test("追踪：请求与上游调用的span导出到 OTLP 收集器，沿用客户端 traceparent 中的 trace-id", async () => {
+    const exports: { authorization: string | null; body: Record<string, unknown> }[] = [];
+    const collector = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, async request => {
+        exports.push({ authorization: request.headers.get("Authorization"), body: await request.json() });
+        return Response.json({});
+    });
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    const parentId = "00f067aa0ba902b7";
+    const unsampledTraceId = "5bf92f3577b34da6a3ce929d0e0e4737";
+
+    try {
+        await withProxyProcess({
+            OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: `http://127.0.0.1:${collector.addr.port}/v1/traces`,
+            OTEL_EXPORTER_OTLP_HEADERS: "Authorization=Bearer%20collector-token",
+            OTEL_SERVICE_NAME: "proxy-test"
+        }, async (baseUrl, child) => {
+            const send = async (traceparent: string) => {
+                const response = await fetch(`${baseUrl}/v1/chat/completions`, {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json", Authorization: `Bearer ${CLIENT_KEY}`, traceparent },
+                    body: JSON.stringify(chatBody({ stream: true }))
+                });
+                await readText(response);
+                return response;
+            };
+            const response = await send(`00-${traceId}-${parentId}-01`);
+            assertEquals(response.headers.get("X-Request-Id"), traceId);
+            await send(`00-${unsampledTraceId}-${parentId}-00`);
+
+            // 关闭时发送缓冲中的span
+            child.kill("SIGTERM");
+            assertEquals((await child.status).code, 0);
+        });
+
+        assert(exports.length > 0);
+        assert(exports.every(item => item.authorization === "Bearer collector-token"));
+        // deno-lint-ignore no-explicit-any
+        const resourceSpans = exports.flatMap(item => item.body.resourceSpans as any[]);
+        assertEquals(resourceSpans[0].resource.attributes, [{ key: "service.name", value: { stringValue: "proxy-test" } }]);
+        const spans = resourceSpans.flatMap(resource => resource.scopeSpans).flatMap(scope => scope.spans);
+        assert(spans.every(span => span.traceId === traceId));
+
+        const names = spans.map(span => span.name);
+        for (const name of [
+            "POST /v1/chat/completions",
+            "proxy.process_messages",
+            "proxy.build_model_input",
+            "replicate.prediction.create",
+            "upstream.first_token",
+            "upstream.stream"
+        ]) {
+            assert(names.includes(name), `missing span ${name}`);
+        }
+
+        const entry = spans.find(span => span.name === "POST /v1/chat/completions");
+        assertEquals(entry.kind, 2);
+        assertEquals(entry.parentSpanId, parentId);
+
+        const upstream = spans.find(span => span.name === "upstream.stream");
+        const attributes = Object.fromEntries(upstream.attributes.map((attribute: { key: string; value: unknown }) => [attribute.key, attribute.value]));
+        assertEquals(attributes["gen_ai.request.model"], { stringValue: MODEL });
+        assertEquals(attributes["proxy.stream"], { boolValue: true });
+        assertEquals(attributes["gen_ai.usage.output_tokens"], { intValue: "2" });
+        assert(spans.some(span => span.name === "upstream.first_token" && span.parentSpanId === upstream.spanId));
+    } finally {
+        await collector.shutdown();
+    }
+});
+
+test("追踪：调用其他提供方时附带 traceparent，trace-id 与客户端相同，parent-id 为代理的span", async () => {
+    const traceId = "6bf92f3577b34da6a3ce929d0e0e4738";
+    const parentId = "00f067aa0ba902b8";
+
+    await withProviderStub(
+        () => Response.json({ content: [{ type: "text", text: "Direct answer" }], usage: { input_tokens: 5, output_tokens: 2 } }),
+        async requests => {
+            const response = await routeRequest(post("/v1/chat/completions", chatBody({ model: "claude-direct" }), {
+                Authorization: `Bearer ${CLIENT_KEY}`,
+                traceparent: `00-${traceId}-${parentId}-01`
+            }));
+            assertEquals(response.status, 200);
+            await response.body?.cancel();
+
+            const traceparent = requests[0].headers.get("traceparent")!;
+            const [version, upstreamTraceId, upstreamParentId, flags] = traceparent.split("-");
+            assertEquals([version, upstreamTraceId, flags], ["00", traceId, "01"]);
+            assert(/^[0-9a-f]{16}$/.test(upstreamParentId));
+            assert(upstreamParentId !== parentId);
+        }
+    );
+});
+
+test("追踪：导出请求头中无效的条目被跳过，值中可以包含等号", () => {
+    assertEquals(
+        parseOtlpHeaders("a=b%ZZ, Authorization=Basic%20eA==,=x,novalue,x-tenant=team%2F1"),
+        { Authorization: "Basic eA==", "x-tenant": "team/1" }
+    );
+    assertEquals(parseOtlpHeaders(""), {});
+});